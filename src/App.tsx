@@ -7,6 +7,16 @@ import MainLayout from "./components/layout/MainLayout";
 import Dashboard from "./pages/Dashboard";
 import Performance from "./pages/Performance";
 import Users from "./pages/Users";
+import Metrics from "./pages/Metrics";
+import Sessions from "./pages/Sessions";
+import SessionDetail from "./pages/SessionDetail";
+import Roster from "./pages/Roster";
+import Activity from "./pages/Activity";
+import Review from "./pages/Review";
+import Leaderboard from "./pages/Leaderboard";
+import PlayerProfile from "./pages/PlayerProfile";
+import PositionFit from "./pages/PositionFit";
+import DepthChart from "./pages/DepthChart";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 
@@ -23,7 +33,17 @@ const App = () => (
           <Route element={<MainLayout />}>
             <Route path="/" element={<Dashboard />} />
             <Route path="/performance" element={<Performance />} />
+            <Route path="/leaderboard" element={<Leaderboard />} />
+            <Route path="/players/:id" element={<PlayerProfile />} />
             <Route path="/users" element={<Users />} />
+            <Route path="/metrics" element={<Metrics />} />
+            <Route path="/sessions" element={<Sessions />} />
+            <Route path="/sessions/:id" element={<SessionDetail />} />
+            <Route path="/roster" element={<Roster />} />
+            <Route path="/position-fit" element={<PositionFit />} />
+            <Route path="/depth-chart" element={<DepthChart />} />
+            <Route path="/review" element={<Review />} />
+            <Route path="/activity" element={<Activity />} />
           </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
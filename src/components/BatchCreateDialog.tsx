@@ -5,9 +5,13 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ResponsiveDialog } from "@/components/ResponsiveDialog";
+import { PlausibilityWarning } from "@/components/PlausibilityWarning";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { METRIC_LABELS, METRIC_UNITS, getAllMetricTypes, type MetricType } from "@/lib/performanceUtils";
+import { buildMetricMap, type MetricType } from "@/lib/performanceUtils";
+import { useMetrics } from "@/hooks/useMetrics";
+import { usePlausibilityCheck } from "@/hooks/usePlausibilityCheck";
+import type { TestSession } from "@/lib/sessionUtils";
 import { Plus, Trash2 } from "lucide-react";
 import { z } from "zod";
 
@@ -17,52 +21,53 @@ interface BatchCreateDialogProps {
   players: any[];
   currentUserId: string;
   onSuccess: () => void;
+  // Record entries against a testing session instead of a free date
+  session?: Pick<TestSession, "id" | "name" | "session_date">;
 }
 
 interface ExerciseRow {
   id: string;
   playerId: string;
-  value: string;
+  // One value per attempt column
+  values: string[];
 }
 
-export function BatchCreateDialog({ open, onOpenChange, players, currentUserId, onSuccess }: BatchCreateDialogProps) {
+const MAX_ATTEMPTS = 5;
+
+const createExerciseRow = (id: string, attemptCount: number): ExerciseRow => ({
+  id,
+  playerId: '',
+  values: Array(attemptCount).fill(''),
+});
+
+export function BatchCreateDialog({ open, onOpenChange, players, currentUserId, onSuccess, session }: BatchCreateDialogProps) {
   const { toast } = useToast();
   const [mode, setMode] = useState<"user" | "exercise">("user");
   const [isLoading, setIsLoading] = useState(false);
+  const { metrics: metricDefinitions } = useMetrics({ measuredOnly: true });
+  const metricMap = buildMetricMap(metricDefinitions);
   
   // Batch by user mode states
   const [selectedUser, setSelectedUser] = useState("");
   const [entryDate, setEntryDate] = useState(new Date().toISOString().split('T')[0]);
-  const [metrics, setMetrics] = useState<Record<MetricType, string>>({
-    'vertical_jump': '',
-    'jump_gather': '',
-    '30yd_dash': '',
-    '3_cone_drill': '',
-    'shuttle_5_10_5': '',
-    'pushups_1min': ''
-  });
+  const [metrics, setMetrics] = useState<Record<MetricType, string>>({});
 
   // Batch by exercise mode states
-  const [selectedExercise, setSelectedExercise] = useState<MetricType>('vertical_jump');
+  const [selectedExercise, setSelectedExercise] = useState<MetricType>('');
   const [exerciseDate, setExerciseDate] = useState(new Date().toISOString().split('T')[0]);
-  const [exerciseRows, setExerciseRows] = useState<ExerciseRow[]>([
-    { id: '1', playerId: '', value: '' }
-  ]);
+  const [attemptCount, setAttemptCount] = useState(1);
+  const [exerciseRows, setExerciseRows] = useState<ExerciseRow[]>([createExerciseRow('1', 1)]);
+
+  const { check: checkPlausibility } = usePlausibilityCheck([selectedUser, ...exerciseRows.map(row => row.playerId)]);
 
   const resetForm = () => {
     setSelectedUser("");
     setEntryDate(new Date().toISOString().split('T')[0]);
-    setMetrics({
-      'vertical_jump': '',
-      'jump_gather': '',
-      '30yd_dash': '',
-      '3_cone_drill': '',
-      'shuttle_5_10_5': '',
-      'pushups_1min': ''
-    });
-    setSelectedExercise('vertical_jump');
+    setMetrics({});
+    setSelectedExercise('');
     setExerciseDate(new Date().toISOString().split('T')[0]);
-    setExerciseRows([{ id: '1', playerId: '', value: '' }]);
+    setAttemptCount(1);
+    setExerciseRows([createExerciseRow('1', 1)]);
   };
 
   const handleBatchUserSubmit = async (e: React.FormEvent) => {
@@ -73,13 +78,14 @@ export function BatchCreateDialog({ open, onOpenChange, players, currentUserId,
       // Validate and prepare entries
       const entries = [];
       for (const [metric, value] of Object.entries(metrics)) {
-        if (value && parseFloat(value) > 0) {
+        if (value && parseFloat(value) > 0 && metricMap.has(metric)) {
           entries.push({
             player_id: selectedUser,
             metric_type: metric,
             value: parseFloat(value),
-            unit: METRIC_UNITS[metric as MetricType],
-            entry_date: entryDate,
+            unit: metricMap.get(metric)!.unit,
+            entry_date: session ? session.session_date : entryDate,
+            session_id: session?.id ?? null,
             created_by: currentUserId
           });
         }
@@ -126,17 +132,22 @@ export function BatchCreateDialog({ open, onOpenChange, players, currentUserId,
     setIsLoading(true);
 
     try {
-      // Validate and prepare entries
+      // Validate and prepare entries. Attempts are inserted in column order and
+      // numbered by the database after any attempts already recorded that day.
       const entries = exerciseRows
-        .filter(row => row.playerId && row.value && parseFloat(row.value) > 0)
-        .map(row => ({
-          player_id: row.playerId,
-          metric_type: selectedExercise,
-          value: parseFloat(row.value),
-          unit: METRIC_UNITS[selectedExercise],
-          entry_date: exerciseDate,
-          created_by: currentUserId
-        }));
+        .filter(row => row.playerId)
+        .flatMap(row => row.values
+          .filter(value => value && parseFloat(value) > 0)
+          .map(value => ({
+            player_id: row.playerId,
+            metric_type: selectedExercise,
+            value: parseFloat(value),
+            unit: metricMap.get(selectedExercise)?.unit,
+            entry_date: session ? session.session_date : exerciseDate,
+            session_id: session?.id ?? null,
+            created_by: currentUserId
+          }))
+        );
 
       if (entries.length === 0) {
         toast({
@@ -157,7 +168,7 @@ export function BatchCreateDialog({ open, onOpenChange, players, currentUserId,
 
       toast({
         title: "Success",
-        description: `Added ${entries.length} ${METRIC_LABELS[selectedExercise]} entries`,
+        description: `Added ${entries.length} ${metricMap.get(selectedExercise)?.label} entries`,
       });
 
       resetForm();
@@ -175,7 +186,7 @@ export function BatchCreateDialog({ open, onOpenChange, players, currentUserId,
   };
 
   const addExerciseRow = () => {
-    setExerciseRows([...exerciseRows, { id: Date.now().toString(), playerId: '', value: '' }]);
+    setExerciseRows([...exerciseRows, createExerciseRow(Date.now().toString(), attemptCount)]);
   };
 
   const removeExerciseRow = (id: string) => {
@@ -184,18 +195,35 @@ export function BatchCreateDialog({ open, onOpenChange, players, currentUserId,
     }
   };
 
-  const updateExerciseRow = (id: string, field: 'playerId' | 'value', value: string) => {
-    setExerciseRows(exerciseRows.map(row => 
-      row.id === id ? { ...row, [field]: value } : row
+  const updateExercisePlayer = (id: string, playerId: string) => {
+    setExerciseRows(exerciseRows.map(row =>
+      row.id === id ? { ...row, playerId } : row
     ));
   };
 
+  const updateExerciseValue = (id: string, attemptIndex: number, value: string) => {
+    setExerciseRows(exerciseRows.map(row =>
+      row.id === id
+        ? { ...row, values: row.values.map((v, i) => (i === attemptIndex ? value : v)) }
+        : row
+    ));
+  };
+
+  const changeAttemptCount = (count: number) => {
+    setAttemptCount(count);
+    // Keep already entered values when the grid grows, drop trailing columns when it shrinks
+    setExerciseRows(exerciseRows.map(row => ({
+      ...row,
+      values: Array.from({ length: count }, (_, i) => row.values[i] ?? ''),
+    })));
+  };
+
   return (
     <ResponsiveDialog
       open={open}
       onOpenChange={onOpenChange}
       title="Batch Create Entries"
-      description="Create multiple performance entries at once"
+      description={session ? `Record results for ${session.name}` : "Create multiple performance entries at once"}
     >
       <Tabs value={mode} onValueChange={(v) => setMode(v as "user" | "exercise")}>
         <TabsList className="grid w-full grid-cols-2">
@@ -222,32 +250,41 @@ export function BatchCreateDialog({ open, onOpenChange, players, currentUserId,
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="batch-user-date">Date</Label>
-              <Input
-                id="batch-user-date"
-                type="date"
-                value={entryDate}
-                onChange={(e) => setEntryDate(e.target.value)}
-                required
-              />
+              <Label htmlFor="batch-user-date">{session ? "Session" : "Date"}</Label>
+              {session ? (
+                <Input
+                  id="batch-user-date"
+                  value={`${session.name} (${new Date(session.session_date).toLocaleDateString()})`}
+                  disabled
+                />
+              ) : (
+                <Input
+                  id="batch-user-date"
+                  type="date"
+                  value={entryDate}
+                  onChange={(e) => setEntryDate(e.target.value)}
+                  required
+                />
+              )}
             </div>
 
             <div className="space-y-3">
               <Label>Metrics (enter values for any or all)</Label>
-              {getAllMetricTypes().map((metric) => (
-                <div key={metric} className="space-y-2">
-                  <Label htmlFor={`metric-${metric}`} className="text-sm">
-                    {METRIC_LABELS[metric]} ({METRIC_UNITS[metric]})
+              {metricDefinitions.map((metric) => (
+                <div key={metric.key} className="space-y-2">
+                  <Label htmlFor={`metric-${metric.key}`} className="text-sm">
+                    {metric.label} ({metric.unit})
                   </Label>
                   <Input
-                    id={`metric-${metric}`}
+                    id={`metric-${metric.key}`}
                     type="number"
-                    step="0.01"
+                    step={metric.input_step}
                     min="0"
-                    placeholder={`Enter ${METRIC_LABELS[metric]}`}
-                    value={metrics[metric]}
-                    onChange={(e) => setMetrics({ ...metrics, [metric]: e.target.value })}
+                    placeholder={`Enter ${metric.label}`}
+                    value={metrics[metric.key] || ''}
+                    onChange={(e) => setMetrics({ ...metrics, [metric.key]: e.target.value })}
                   />
+                  <PlausibilityWarning issue={checkPlausibility(selectedUser, metric, parseFloat(metrics[metric.key] || ''))} />
                 </div>
               ))}
             </div>
@@ -280,9 +317,9 @@ export function BatchCreateDialog({ open, onOpenChange, players, currentUserId,
                   <SelectValue placeholder="Select exercise" />
                 </SelectTrigger>
                 <SelectContent>
-                  {getAllMetricTypes().map((metric) => (
-                    <SelectItem key={metric} value={metric}>
-                      {METRIC_LABELS[metric]} ({METRIC_UNITS[metric]})
+                  {metricDefinitions.map((metric) => (
+                    <SelectItem key={metric.key} value={metric.key}>
+                      {metric.label} ({metric.unit})
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -290,14 +327,38 @@ export function BatchCreateDialog({ open, onOpenChange, players, currentUserId,
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="batch-exercise-date">Date</Label>
-              <Input
-                id="batch-exercise-date"
-                type="date"
-                value={exerciseDate}
-                onChange={(e) => setExerciseDate(e.target.value)}
-                required
-              />
+              <Label htmlFor="batch-exercise-date">{session ? "Session" : "Date"}</Label>
+              {session ? (
+                <Input
+                  id="batch-exercise-date"
+                  value={`${session.name} (${new Date(session.session_date).toLocaleDateString()})`}
+                  disabled
+                />
+              ) : (
+                <Input
+                  id="batch-exercise-date"
+                  type="date"
+                  value={exerciseDate}
+                  onChange={(e) => setExerciseDate(e.target.value)}
+                  required
+                />
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="batch-exercise-attempts">Attempts per Player</Label>
+              <Select value={String(attemptCount)} onValueChange={(v) => changeAttemptCount(parseInt(v, 10))}>
+                <SelectTrigger id="batch-exercise-attempts" className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover z-50">
+                  {Array.from({ length: MAX_ATTEMPTS }, (_, i) => i + 1).map((count) => (
+                    <SelectItem key={count} value={String(count)}>
+                      {count}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
 
             <div className="space-y-3">
@@ -316,43 +377,54 @@ export function BatchCreateDialog({ open, onOpenChange, players, currentUserId,
 
               <div className="space-y-2 max-h-64 overflow-y-auto">
                 {exerciseRows.map((row) => (
-                  <div key={row.id} className="flex gap-2 items-start">
-                    <div className="flex-1">
-                      <Select
-                        value={row.playerId}
-                        onValueChange={(v) => updateExerciseRow(row.id, 'playerId', v)}
+                  <div key={row.id} className="space-y-1">
+                    <div className="flex gap-2 items-start">
+                      <div className="flex-1 min-w-0">
+                        <Select
+                          value={row.playerId}
+                          onValueChange={(v) => updateExercisePlayer(row.id, v)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select player" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {players.map((player) => (
+                              <SelectItem key={player.id} value={player.id}>
+                                {player.first_name} {player.last_name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex-1 flex gap-1">
+                        {row.values.map((value, attemptIndex) => (
+                          <Input
+                            key={attemptIndex}
+                            type="number"
+                            step={metricMap.get(selectedExercise)?.input_step ?? 0.01}
+                            min="0"
+                            placeholder={attemptCount > 1 ? `#${attemptIndex + 1}` : "Value"}
+                            aria-label={`Attempt ${attemptIndex + 1}`}
+                            value={value}
+                            onChange={(e) => updateExerciseValue(row.id, attemptIndex, e.target.value)}
+                          />
+                        ))}
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeExerciseRow(row.id)}
+                        disabled={exerciseRows.length === 1}
                       >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select player" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {players.map((player) => (
-                            <SelectItem key={player.id} value={player.id}>
-                              {player.first_name} {player.last_name}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    <div className="flex-1">
-                      <Input
-                        type="number"
-                        step="0.01"
-                        min="0"
-                        placeholder="Value"
-                        value={row.value}
-                        onChange={(e) => updateExerciseRow(row.id, 'value', e.target.value)}
-                      />
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
                     </div>
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => removeExerciseRow(row.id)}
-                      disabled={exerciseRows.length === 1}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    <PlausibilityWarning
+                      issue={row.values
+                        .map(value => checkPlausibility(row.playerId, metricMap.get(selectedExercise), parseFloat(value)))
+                        .find(issue => issue !== null) ?? null}
+                    />
                   </div>
                 ))}
               </div>
@@ -370,7 +442,7 @@ export function BatchCreateDialog({ open, onOpenChange, players, currentUserId,
               >
                 Cancel
               </Button>
-              <Button type="submit" disabled={isLoading} className="flex-1">
+              <Button type="submit" disabled={isLoading || !selectedExercise} className="flex-1">
                 {isLoading ? "Creating..." : "Create Entries"}
               </Button>
             </div>
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ResponsiveDialog } from "@/components/ResponsiveDialog";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { bodyMeasurementSchema } from "@/lib/validation";
+
+interface BodyMeasurementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  playerId: string;
+  playerName?: string;
+  currentUserId: string;
+  onSuccess: () => void;
+}
+
+function parseOptional(value: FormDataEntryValue | null): number | null {
+  const text = (value as string || "").trim();
+  return text === "" ? null : parseFloat(text);
+}
+
+export function BodyMeasurementDialog({ open, onOpenChange, playerId, playerName, currentUserId, onSuccess }: BodyMeasurementDialogProps) {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const today = new Date().toISOString().split('T')[0];
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    const formData = new FormData(e.currentTarget);
+    const notes = (formData.get("notes") as string || "").trim();
+    const validation = bodyMeasurementSchema.safeParse({
+      player_id: playerId,
+      measured_on: formData.get("measured_on") as string,
+      height_cm: parseOptional(formData.get("height_cm")),
+      weight_kg: parseOptional(formData.get("weight_kg")),
+      wingspan_cm: parseOptional(formData.get("wingspan_cm")),
+      notes: notes === "" ? null : notes,
+    });
+
+    if (!validation.success) {
+      const errors = validation.error.errors.map(e => e.message).join(", ");
+      toast({
+        title: "Validation Error",
+        description: errors,
+        variant: "destructive",
+      });
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from("body_measurements")
+        .insert([{ ...validation.data, player_id: playerId, created_by: currentUserId }]);
+
+      if (error) {
+        // body_measurements_player_day_key
+        if (error.code === "23505") {
+          throw new Error("There is already a measurement on this date");
+        }
+        throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: "Measurement recorded successfully",
+      });
+
+      onOpenChange(false);
+      onSuccess();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record measurement",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <ResponsiveDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Record Measurement"
+      description={playerName}
+    >
+      <form key={playerId} onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="measurement-date">Date</Label>
+          <Input id="measurement-date" name="measured_on" type="date" max={today} defaultValue={today} required />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="measurement-weight">Weight [kg]</Label>
+            <Input id="measurement-weight" name="weight_kg" type="number" step="0.1" min="30" max="250" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="measurement-height">Height [cm]</Label>
+            <Input id="measurement-height" name="height_cm" type="number" step="0.1" min="100" max="250" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="measurement-wingspan">Wingspan [cm]</Label>
+            <Input id="measurement-wingspan" name="wingspan_cm" type="number" step="0.1" min="100" max="280" />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="measurement-notes">Notes</Label>
+          <Textarea id="measurement-notes" name="notes" placeholder="Optional" rows={2} />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Relative strength metrics use the most recent weight on or before the day of each result.
+        </p>
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? "Saving..." : "Save Measurement"}
+        </Button>
+      </form>
+    </ResponsiveDialog>
+  );
+}
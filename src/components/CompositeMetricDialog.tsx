@@ -0,0 +1,251 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ResponsiveDialog } from "@/components/ResponsiveDialog";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { compositeMetricSchema } from "@/lib/validation";
+import type { MetricDefinition } from "@/lib/performanceUtils";
+import type { MetricComponent } from "@/lib/composites";
+
+interface CompositeMetricDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Null when creating a new composite
+  metric: MetricDefinition | null;
+  metrics: MetricDefinition[];
+  components: MetricComponent[];
+  nextDisplayOrder: number;
+  onSuccess: () => void;
+}
+
+const hasReferenceRange = (metric: MetricDefinition) =>
+  metric.reference_min !== null && metric.reference_max !== null;
+
+/**
+ * Create or edit a composite metric: a weighted score over other metrics' reference range scores
+ */
+export function CompositeMetricDialog({
+  open,
+  onOpenChange,
+  metric,
+  metrics,
+  components,
+  nextDisplayOrder,
+  onSuccess,
+}: CompositeMetricDialogProps) {
+  const { toast } = useToast();
+  const [weights, setWeights] = useState<Record<string, string>>({});
+  const [isActive, setIsActive] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const candidates = metrics.filter(m => m.kind !== "composite");
+
+  useEffect(() => {
+    if (!open) return;
+
+    setIsActive(metric?.is_active ?? true);
+    setWeights(Object.fromEntries(
+      components
+        .filter(c => metric && c.composite_key === metric.key)
+        .map(c => [c.component_key, String(c.weight)])
+    ));
+  }, [open, metric, components]);
+
+  const toggleComponent = (key: string, checked: boolean) => {
+    setWeights(current => {
+      const next = { ...current };
+      if (checked) {
+        next[key] = "1";
+      } else {
+        delete next[key];
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    const formData = new FormData(e.currentTarget);
+    const validation = compositeMetricSchema.safeParse({
+      key: metric ? metric.key : (formData.get("key") as string),
+      label: formData.get("label") as string,
+      display_order: parseInt(formData.get("display_order") as string, 10),
+      is_active: isActive,
+      components: Object.entries(weights).map(([component_key, weight]) => ({
+        component_key,
+        weight: parseFloat(weight),
+      })),
+    });
+
+    if (!validation.success) {
+      const errors = validation.error.errors.map(e => e.message).join(", ");
+      toast({
+        title: "Validation Error",
+        description: errors,
+        variant: "destructive",
+      });
+      setIsLoading(false);
+      return;
+    }
+
+    const { key, label, display_order, is_active } = validation.data;
+
+    try {
+      // Composite scores are 0-100 like the radar axes, one per day
+      const { error } = metric
+        ? await supabase
+            .from("metrics")
+            .update({ label, display_order, is_active })
+            .eq("key", metric.key)
+        : await supabase
+            .from("metrics")
+            .insert([{
+              key,
+              label,
+              unit: "pts",
+              direction: "higher_is_better",
+              aggregation: "last",
+              baseline_factor: 0.5,
+              reference_min: 0,
+              reference_max: 100,
+              input_step: 0.1,
+              display_order,
+              is_active,
+              kind: "composite",
+            }]);
+
+      if (error) throw error;
+
+      const { error: deleteError } = await supabase
+        .from("metric_components")
+        .delete()
+        .eq("composite_key", key);
+
+      if (deleteError) throw deleteError;
+
+      const { error: insertError } = await supabase
+        .from("metric_components")
+        .insert(validation.data.components.map(c => ({
+          composite_key: key,
+          component_key: c.component_key,
+          weight: c.weight,
+        })));
+
+      if (insertError) throw insertError;
+
+      toast({
+        title: "Success",
+        description: metric ? "Composite metric updated successfully" : "Composite metric created successfully",
+      });
+
+      onOpenChange(false);
+      onSuccess();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save composite metric",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <ResponsiveDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title={metric ? "Edit Composite Metric" : "Add Composite Metric"}
+      description="A 0-100 score combining other metrics, e.g. an agility or athleticism index"
+    >
+      <form key={metric?.key ?? "new"} onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="composite-label">Label</Label>
+          <Input id="composite-label" name="label" type="text" defaultValue={metric?.label} placeholder="e.g. Agility Index" required />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="composite-key">Key</Label>
+            <Input
+              id="composite-key"
+              name="key"
+              type="text"
+              defaultValue={metric?.key}
+              placeholder="e.g. agility_index"
+              disabled={!!metric}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="composite-order">Display Order</Label>
+            <Input
+              id="composite-order"
+              name="display_order"
+              type="number"
+              step="1"
+              defaultValue={metric?.display_order ?? nextDisplayOrder}
+              required
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Components and Weights</Label>
+          <div className="space-y-2">
+            {candidates.map(candidate => {
+              const selected = weights[candidate.key] !== undefined;
+              const usable = hasReferenceRange(candidate);
+              return (
+                <div key={candidate.key} className="flex items-center gap-3 p-3 rounded-lg bg-secondary/50">
+                  <Checkbox
+                    id={`component-${candidate.key}`}
+                    checked={selected}
+                    disabled={!usable && !selected}
+                    onCheckedChange={(checked) => toggleComponent(candidate.key, checked === true)}
+                  />
+                  <Label htmlFor={`component-${candidate.key}`} className="flex-1 min-w-0 cursor-pointer">
+                    <span className="block text-sm truncate">{candidate.label}</span>
+                    {!usable && (
+                      <span className="block text-xs text-muted-foreground">Needs a reference range</span>
+                    )}
+                  </Label>
+                  {selected && (
+                    <Input
+                      aria-label={`${candidate.label} weight`}
+                      type="number"
+                      step="0.1"
+                      min="0.1"
+                      max="10"
+                      className="w-20"
+                      value={weights[candidate.key]}
+                      onChange={(e) => setWeights({ ...weights, [candidate.key]: e.target.value })}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Each result is scored 0-100 on its metric's reference range; the composite is the weighted average,
+            using each component's latest result from the past year.
+          </p>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Switch id="composite-active" checked={isActive} onCheckedChange={setIsActive} />
+          <Label htmlFor="composite-active" className="cursor-pointer">Active</Label>
+        </div>
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? "Saving..." : metric ? "Update Metric" : "Create Metric"}
+        </Button>
+      </form>
+    </ResponsiveDialog>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ResponsiveDialog } from "@/components/ResponsiveDialog";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { goalSchema } from "@/lib/validation";
+import { isLowerBetter, type MetricDefinition } from "@/lib/performanceUtils";
+
+interface GoalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  playerId: string;
+  playerName?: string;
+  metric: MetricDefinition;
+  currentUserId: string;
+  onSuccess: () => void;
+}
+
+export function GoalDialog({ open, onOpenChange, playerId, playerName, metric, currentUserId, onSuccess }: GoalDialogProps) {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    const formData = new FormData(e.currentTarget);
+    const notes = (formData.get("notes") as string || "").trim();
+    const validation = goalSchema.safeParse({
+      player_id: playerId,
+      metric_type: metric.key,
+      target_value: parseFloat(formData.get("target_value") as string),
+      deadline: formData.get("deadline") as string,
+      notes: notes === "" ? null : notes,
+    });
+
+    if (!validation.success) {
+      const errors = validation.error.errors.map(e => e.message).join(", ");
+      toast({
+        title: "Validation Error",
+        description: errors,
+        variant: "destructive",
+      });
+      setIsLoading(false);
+      return;
+    }
+
+    const { player_id, metric_type, target_value, deadline, notes: goalNotes } = validation.data;
+
+    try {
+      const { error } = await supabase
+        .from("goals")
+        .insert([{ player_id, metric_type, target_value, deadline, notes: goalNotes, created_by: currentUserId }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Goal created successfully",
+      });
+
+      onOpenChange(false);
+      onSuccess();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create goal",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <ResponsiveDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Set Goal"
+      description={`${metric.label}${playerName ? ` · ${playerName}` : ""}`}
+    >
+      <form key={`${playerId}-${metric.key}`} onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="goal-target">
+              Target [{metric.unit}] ({isLowerBetter(metric) ? "at most" : "at least"})
+            </Label>
+            <Input id="goal-target" name="target_value" type="number" step={metric.input_step} min="0" required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="goal-deadline">Deadline</Label>
+            <Input
+              id="goal-deadline"
+              name="deadline"
+              type="date"
+              min={new Date().toISOString().split('T')[0]}
+              required
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="goal-notes">Notes</Label>
+          <Textarea id="goal-notes" name="notes" placeholder="Optional" rows={2} />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The goal is marked achieved automatically when a daily result meets the target before the deadline.
+        </p>
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? "Saving..." : "Create Goal"}
+        </Button>
+      </form>
+    </ResponsiveDialog>
+  );
+}
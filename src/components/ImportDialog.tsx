@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ResponsiveDialog } from "@/components/ResponsiveDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMetrics } from "@/hooks/useMetrics";
+import { supabase } from "@/integrations/supabase/client";
+import { buildMetricMap } from "@/lib/performanceUtils";
+import {
+  entryKey,
+  getImportRowStatus,
+  markDuplicates,
+  parseImportSheet,
+  readSpreadsheet,
+  validateImportRow,
+  type ImportFormat,
+  type ImportPlayer,
+  type ImportRow,
+  type ImportRowStatus,
+} from "@/lib/importUtils";
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  players: ImportPlayer[];
+  currentUserId: string;
+  onSuccess: () => void;
+}
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: "New",
+  duplicate: "Duplicate",
+  error: "Error",
+};
+
+const STATUS_VARIANTS: Record<ImportRowStatus, "default" | "secondary" | "destructive"> = {
+  new: "default",
+  duplicate: "secondary",
+  error: "destructive",
+};
+
+// Rows per request when loading existing entries for the duplicate check
+const DUPLICATE_CHECK_PAGE_SIZE = 1000;
+
+export function ImportDialog({ open, onOpenChange, players, currentUserId, onSuccess }: ImportDialogProps) {
+  const { toast } = useToast();
+  const { metrics } = useMetrics({ measuredOnly: true });
+  const metricMap = buildMetricMap(metrics);
+  const [table, setTable] = useState<string[][] | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [defaultDate, setDefaultDate] = useState(new Date().toISOString().split('T')[0]);
+  const [format, setFormat] = useState<ImportFormat | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  // Players picked by hand, keyed by the name as written in the file
+  const [playerOverrides, setPlayerOverrides] = useState<Record<string, string>>({});
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const resetForm = () => {
+    setTable(null);
+    setFileName("");
+    setDefaultDate(new Date().toISOString().split('T')[0]);
+    setFormat(null);
+    setRows([]);
+    setPlayerOverrides({});
+    setSkipInvalid(false);
+  };
+
+  const applyOverrides = (parsedRows: ImportRow[], overrides: Record<string, string>) =>
+    parsedRows.map(row =>
+      overrides[row.playerText] ? validateImportRow({ ...row, playerId: overrides[row.playerText] }) : row
+    );
+
+  const analyze = async (sheet: string[][], date: string, overrides: Record<string, string>) => {
+    setIsParsing(true);
+
+    try {
+      const parsed = parseImportSheet(sheet, metrics, players, date);
+      const parsedRows = applyOverrides(parsed.rows, overrides);
+
+      // Load existing entries over the file's date range to spot results that were already recorded
+      const dates = parsedRows.map(r => r.entryDate).filter((d): d is string => d !== null).sort();
+      const keys = new Set<string>();
+
+      const playerIds = [...new Set(parsedRows.map(r => r.playerId).filter((id): id is string => id !== null))];
+      const metricKeys = [...new Set(parsedRows.map(r => r.metricKey).filter((key): key is string => key !== null))];
+
+      if (dates.length > 0 && playerIds.length > 0 && metricKeys.length > 0) {
+        // Paged: a single select stops at the API's row limit and would miss duplicates beyond it
+        for (let from = 0; ; from += DUPLICATE_CHECK_PAGE_SIZE) {
+          const { data, error } = await supabase
+            .from("performance_entries")
+            .select("player_id, metric_type, entry_date, value")
+            .is("deleted_at", null)
+            .in("player_id", playerIds)
+            .in("metric_type", metricKeys)
+            .gte("entry_date", dates[0])
+            .lte("entry_date", dates[dates.length - 1])
+            .order("id")
+            .range(from, from + DUPLICATE_CHECK_PAGE_SIZE - 1);
+
+          if (error) throw error;
+
+          (data || []).forEach(e => keys.add(entryKey(e.player_id, e.metric_type, e.entry_date, e.value)));
+          if ((data || []).length < DUPLICATE_CHECK_PAGE_SIZE) break;
+        }
+      }
+
+      setFormat(parsed.format);
+      setRows(markDuplicates(parsedRows, keys));
+    } catch (error: unknown) {
+      setFormat(null);
+      setRows([]);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const sheet = await readSpreadsheet(file);
+      setTable(sheet);
+      setFileName(file.name);
+      setPlayerOverrides({});
+      await analyze(sheet, defaultDate, {});
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDefaultDateChange = (date: string) => {
+    setDefaultDate(date);
+    if (table && date) {
+      analyze(table, date, playerOverrides);
+    }
+  };
+
+  // Re-analyzed so the picked player's stored entries are loaded for the duplicate check
+  const assignPlayer = (playerText: string, playerId: string) => {
+    const overrides = { ...playerOverrides, [playerText]: playerId };
+    setPlayerOverrides(overrides);
+    if (table) {
+      analyze(table, defaultDate, overrides);
+    }
+  };
+
+  const counts = rows.reduce(
+    (acc, row) => ({ ...acc, [getImportRowStatus(row)]: acc[getImportRowStatus(row)] + 1 }),
+    { new: 0, duplicate: 0, error: 0 } as Record<ImportRowStatus, number>
+  );
+
+  // Names that still need a player picked by hand, with their suggestions
+  const unmatched = [...new Map(
+    rows.filter(r => !r.playerId && r.playerText !== '').map(r => [r.playerText, r.suggestions])
+  ).entries()];
+
+  const playerName = (id: string | null) => {
+    const player = players.find(p => p.id === id);
+    return player ? `${player.first_name} ${player.last_name}` : null;
+  };
+
+  const canImport = counts.new > 0 && (counts.error === 0 || skipInvalid);
+
+  const handleImport = async () => {
+    const entries = rows
+      .filter(row => getImportRowStatus(row) === 'new')
+      .map(row => ({
+        player_id: row.playerId!,
+        metric_type: row.metricKey!,
+        value: row.value!,
+        unit: metricMap.get(row.metricKey!)!.unit,
+        entry_date: row.entryDate!,
+        created_by: currentUserId,
+      }));
+
+    setIsLoading(true);
+
+    try {
+      // A single insert runs as one statement: either every row is stored or none
+      const { error } = await supabase
+        .from("performance_entries")
+        .insert(entries);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Imported ${entries.length} performance entries`,
+      });
+
+      resetForm();
+      onSuccess();
+      onOpenChange(false);
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import entries",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <ResponsiveDialog
+      open={open}
+      onOpenChange={(isOpen) => { onOpenChange(isOpen); if (!isOpen) resetForm(); }}
+      title="Import Results"
+      description="Upload a CSV or Excel sheet with one row per result, or one column per drill"
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.txt,.xlsx"
+              onChange={handleFileChange}
+              disabled={isParsing || isLoading}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-default-date">Date for rows without one</Label>
+            <Input
+              id="import-default-date"
+              type="date"
+              value={defaultDate}
+              max={new Date().toISOString().split('T')[0]}
+              onChange={(e) => handleDefaultDateChange(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Players are matched by username or name. Drills are matched by key or name; a unit in brackets is ignored.
+          Rows with the same player, drill, date and value as an existing entry are skipped as duplicates.
+        </p>
+
+        {isParsing && <p className="text-sm text-muted-foreground">Reading {fileName}...</p>}
+
+        {!isParsing && format && (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">
+                {fileName} · {format === 'long' ? "one row per result" : "one column per drill"}
+              </span>
+              <Badge variant="default">{counts.new} new</Badge>
+              <Badge variant="secondary">{counts.duplicate} duplicate</Badge>
+              <Badge variant="destructive">{counts.error} with errors</Badge>
+            </div>
+
+            {unmatched.length > 0 && (
+              <div className="space-y-2">
+                <Label>Unmatched players</Label>
+                {unmatched.map(([playerText, suggestions]) => {
+                  const suggestedIds = new Set(suggestions.map(s => s.id));
+                  return (
+                    <div key={playerText} className="flex items-center gap-2">
+                      <span className="text-sm flex-1 min-w-0 truncate">"{playerText}"</span>
+                      <Select onValueChange={(v) => assignPlayer(playerText, v)}>
+                        <SelectTrigger className="bg-background w-48">
+                          <SelectValue placeholder={suggestions.length > 0 ? "Did you mean..." : "Select player"} />
+                        </SelectTrigger>
+                        <SelectContent className="bg-popover z-50">
+                          {[...suggestions, ...players.filter(p => !suggestedIds.has(p.id))].map((player) => (
+                            <SelectItem key={player.id} value={player.id}>
+                              {player.first_name} {player.last_name}
+                              {suggestedIds.has(player.id) ? " (suggested)" : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {rows.map((row, index) => {
+                const status = getImportRowStatus(row);
+                const metric = row.metricKey ? metricMap.get(row.metricKey) : undefined;
+                return (
+                  <div key={`${row.rowNumber}-${index}`} className="p-3 rounded-lg bg-secondary/50 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium truncate">
+                        <span className="text-muted-foreground mr-2">#{row.rowNumber}</span>
+                        {playerName(row.playerId) ?? (row.playerText || "—")}
+                      </span>
+                      <Badge variant={STATUS_VARIANTS[status]} className="text-xs shrink-0">
+                        {STATUS_LABELS[status]}
+                      </Badge>
+                    </div>
+                    <p className="text-muted-foreground">
+                      {metric?.label ?? row.metricText} · {row.valueText}{metric ? ` ${metric.unit}` : ""} · {row.entryDate ?? row.dateText}
+                    </p>
+                    {row.errors.length > 0 && (
+                      <p className="text-destructive text-xs mt-1">{row.errors.join(", ")}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {counts.error > 0 && (
+              <div className="flex items-center gap-2">
+                <Switch id="import-skip-invalid" checked={skipInvalid} onCheckedChange={setSkipInvalid} />
+                <Label htmlFor="import-skip-invalid">Skip rows with errors</Label>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => {
+              resetForm();
+              onOpenChange(false);
+            }}
+            className="flex-1"
+          >
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleImport} disabled={isLoading || isParsing || !canImport} className="flex-1">
+            {isLoading ? "Importing..." : `Import ${counts.new} Entries`}
+          </Button>
+        </div>
+      </div>
+    </ResponsiveDialog>
+  );
+}
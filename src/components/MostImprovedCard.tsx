@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { PlayerLink } from "@/components/PlayerLink";
+import { supabase } from "@/integrations/supabase/client";
+import { useMetrics } from "@/hooks/useMetrics";
+import { TrendingUp } from "lucide-react";
+
+interface ImprovementRow {
+  rank: number;
+  player_id: string;
+  player_name: string;
+  improvement_per_month: number;
+  slope_per_month: number;
+}
+
+interface MostImprovedCardProps {
+  // Staff can open player profiles from the list
+  isStaff: boolean;
+}
+
+const PERIOD_MONTHS = [3, 6, 12];
+const LIST_LENGTH = 5;
+
+/**
+ * Players of the active roster whose trend improved fastest in a metric over the chosen period
+ */
+export function MostImprovedCard({ isStaff }: MostImprovedCardProps) {
+  const { metrics } = useMetrics();
+  const [metricKey, setMetricKey] = useState("");
+  const [months, setMonths] = useState(6);
+  const [rows, setRows] = useState<ImprovementRow[]>([]);
+  const [namesVisible, setNamesVisible] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const metric = metrics.find(m => m.key === metricKey);
+
+  useEffect(() => {
+    if (!metricKey && metrics.length > 0) {
+      setMetricKey(metrics[0].key);
+    }
+  }, [metrics, metricKey]);
+
+  useEffect(() => {
+    if (metricKey) {
+      fetchMostImproved();
+    }
+  }, [metricKey, months]);
+
+  async function fetchMostImproved() {
+    setIsLoading(true);
+
+    const since = new Date();
+    since.setMonth(since.getMonth() - months);
+
+    const { data, error } = await supabase.functions.invoke('get-performance-trends', {
+      body: {
+        metric_types: [metricKey],
+        since: since.toISOString().split('T')[0],
+        active_only: true,
+        most_improved_limit: LIST_LENGTH,
+      },
+    });
+
+    if (error) {
+      console.error('Error fetching most improved players:', error);
+    }
+
+    setRows(data?.metrics?.[0]?.most_improved || []);
+    setNamesVisible(data?.names_visible ?? true);
+    setIsLoading(false);
+  }
+
+  return (
+    <Card className="border-border/50 shadow-card">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5 text-primary" />
+          <CardTitle>Most Improved</CardTitle>
+        </div>
+        <CardDescription>Fastest improvement per month along each player's trend line</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <Select value={metricKey} onValueChange={setMetricKey}>
+            <SelectTrigger className="bg-background" aria-label="Metric">
+              <SelectValue placeholder="Select metric" />
+            </SelectTrigger>
+            <SelectContent className="bg-popover z-50">
+              {metrics.map(m => (
+                <SelectItem key={m.key} value={m.key}>
+                  {m.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={String(months)} onValueChange={(v) => setMonths(Number(v))}>
+            <SelectTrigger className="bg-background" aria-label="Period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover z-50">
+              {PERIOD_MONTHS.map(m => (
+                <SelectItem key={m} value={String(m)}>
+                  Last {m} months
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {namesVisible ? "No improvement trends in this period yet." : "You are not among the most improved in this period."}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {rows.map(row => (
+              <div key={row.player_id} className="flex justify-between items-center gap-3 p-3 rounded-lg bg-muted/50">
+                <span className="text-sm font-medium truncate">
+                  {row.rank}.{" "}
+                  {isStaff ? <PlayerLink playerId={row.player_id}>{row.player_name}</PlayerLink> : row.player_name}
+                </span>
+                <span className="text-sm font-bold text-primary shrink-0">
+                  {row.slope_per_month > 0 ? "+" : ""}{row.slope_per_month}{" "}
+                  <span className="text-xs text-muted-foreground">{metric?.unit}/month</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { TrendingUp, Award, HelpCircle } from "lucide-react";
+import type { AggregationScope } from "@/lib/seasonUtils";
 
 interface MetricNeighborhood {
   metric_type: string;
@@ -19,16 +20,17 @@ interface MetricNeighborhood {
 
 interface PerformanceNeighborhoodProps {
   playerId: string;
+  scope?: AggregationScope;
 }
 
-export function PerformanceNeighborhood({ playerId }: PerformanceNeighborhoodProps) {
+export function PerformanceNeighborhood({ playerId, scope = {} }: PerformanceNeighborhoodProps) {
   const [data, setData] = useState<MetricNeighborhood[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchNeighborhoodData();
-  }, [playerId]);
+  }, [playerId, scope.season_id, scope.active_only, scope.exclude_flagged]);
 
   async function fetchNeighborhoodData() {
     if (!playerId) return;
@@ -40,7 +42,7 @@ export function PerformanceNeighborhood({ playerId }: PerformanceNeighborhoodPro
       const { data: result, error: fetchError } = await supabase.functions.invoke(
         'get-player-neighborhood',
         {
-          body: { player_id: playerId }
+          body: { player_id: playerId, ...scope }
         }
       );
 
@@ -9,10 +9,14 @@ import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Skeleton } from "@/components/ui/skeleton";
 import { POSITION_OPTIONS, POSITION_LABELS, type FootballPosition, getPositionUnit } from "@/lib/positionUtils";
+import type { AggregationScope } from "@/lib/seasonUtils";
+import { NORMALIZATION_DESCRIPTIONS, NORMALIZATION_LABELS } from "@/lib/performanceUtils";
+import { NORMALIZATION_STRATEGIES, type NormalizationStrategy } from "@/lib/normalization";
 
 interface PerformanceRadarChartProps {
   currentUserId: string;
   userRole: string;
+  scope?: AggregationScope;
 }
 
 const PLAYER_COLOR = 'hsl(var(--primary))'; // Gold color for current player
@@ -42,7 +46,7 @@ function getStrokeWidth(key: string): number {
 }
 
 
-export function PerformanceRadarChart({ currentUserId, userRole }: PerformanceRadarChartProps) {
+export function PerformanceRadarChart({ currentUserId, userRole, scope }: PerformanceRadarChartProps) {
   const [mode, setMode] = useState<ComparisonMode>('best');
   const [selectedPosition, setSelectedPosition] = useState<string>('');
   const [playerUnit, setPlayerUnit] = useState<'offense' | 'defense' | null>(null);
@@ -55,6 +59,7 @@ export function PerformanceRadarChart({ currentUserId, userRole }: PerformanceRa
   const [compareBaseline, setCompareBaseline] = useState<'best' | 'offense' | 'defense'>('best');
   const [comparePlayer1, setComparePlayer1] = useState<string>('');
   const [comparePlayer2, setComparePlayer2] = useState<string>('');
+  const [normalization, setNormalization] = useState<NormalizationStrategy>('relative_to_best');
 
   const { data: comparisonData, isLoading, error, refetch, positionLabel, comparePlayerNames } = usePerformanceComparison({
     mode,
@@ -63,7 +68,9 @@ export function PerformanceRadarChart({ currentUserId, userRole }: PerformanceRa
     userRole,
     comparePlayer1Id: comparePlayer1,
     comparePlayer2Id: comparePlayer2,
-    compareBaseline
+    compareBaseline,
+    scope,
+    normalization
   });
 
   useEffect(() => {
@@ -97,6 +104,8 @@ export function PerformanceRadarChart({ currentUserId, userRole }: PerformanceRa
       .from('player_positions')
       .select('position')
       .eq('player_id', targetId)
+      .eq('is_primary', true)
+      .is('ended_on', null)
       .maybeSingle();
     
     if (data) {
@@ -111,10 +120,12 @@ export function PerformanceRadarChart({ currentUserId, userRole }: PerformanceRa
   }
 
   async function fetchAllPlayers() {
-    // Fetch all players with positions
+    // Fetch all players with a current primary position
     const { data: playerData } = await supabase
       .from('player_positions')
-      .select('player_id, position');
+      .select('player_id, position')
+      .eq('is_primary', true)
+      .is('ended_on', null);
     
     if (!playerData) return;
 
@@ -191,7 +202,7 @@ export function PerformanceRadarChart({ currentUserId, userRole }: PerformanceRa
       <CardHeader>
         <CardTitle>Performance Comparison</CardTitle>
         <CardDescription>
-          Compare your latest performance against reference benchmarks within your comparison group. All metrics are scaled 0-100 where 100 = best performance in the group. For time-based metrics, 0 = 1.4× the group's best time; for distance, 0 = half the group's best; for push-ups, 0 = 1/5 the group's best.
+          Compare your latest performance against reference benchmarks within your comparison group. All metrics are scaled 0-100 where 100 is always the better end; the scoring model below decides what the scale means.
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -213,6 +224,22 @@ export function PerformanceRadarChart({ currentUserId, userRole }: PerformanceRa
           </div>
         )}
 
+        <div className="mb-4 space-y-2">
+          <Label htmlFor="normalization-select">Scoring Model</Label>
+          <Select value={normalization} onValueChange={(v) => setNormalization(v as NormalizationStrategy)}>
+            <SelectTrigger id="normalization-select" className="bg-background">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover z-50">
+              {NORMALIZATION_STRATEGIES.map(strategy => (
+                <SelectItem key={strategy} value={strategy}>
+                  {NORMALIZATION_LABELS[strategy]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         <Tabs value={mode} onValueChange={(v) => setMode(v as ComparisonMode)} className="w-full">
           <TabsList className={`grid w-full ${
             isCoach && !isCoachAndPlayer 
@@ -389,13 +416,19 @@ export function PerformanceRadarChart({ currentUserId, userRole }: PerformanceRa
           {/* Explanation of scaling */}
           <div className="mt-4 p-4 bg-muted/50 rounded-lg space-y-2 text-sm">
             <h4 className="font-semibold text-foreground">How the 0-100 Scale Works</h4>
-            <ul className="list-disc list-inside text-muted-foreground space-y-1">
-              <li><strong>100 = Best in comparison group</strong> (fastest time or highest distance/reps within the selected comparison)</li>
-              <li><strong>0 = Baseline:</strong> 1.4× the group's best time for speed; 1/2 group's best for jumps; 1/5 group's best for push-ups</li>
-              <li><strong>Time metrics:</strong> If group best is 5s, then 5s=100, 7s=0</li>
-              <li><strong>Jumps:</strong> If group best is 200cm, then 200cm=100, 100cm=0</li>
-              <li><strong>Push-ups:</strong> If group best is 100 reps, then 100=100, 20=0</li>
-            </ul>
+            {normalization !== 'relative_to_best' ? (
+              <p className="text-muted-foreground">
+                <strong>{NORMALIZATION_LABELS[normalization]}:</strong> {NORMALIZATION_DESCRIPTIONS[normalization]}
+              </p>
+            ) : (
+              <ul className="list-disc list-inside text-muted-foreground space-y-1">
+                <li><strong>100 = Best in comparison group</strong> (fastest time or highest distance/reps within the selected comparison)</li>
+                <li><strong>0 = Baseline:</strong> the group's best scaled by the metric's baseline factor (defaults: 1.4× for speed; 1/2 for jumps; 1/5 for push-ups)</li>
+                <li><strong>Time metrics:</strong> If group best is 5s, then 5s=100, 7s=0</li>
+                <li><strong>Jumps:</strong> If group best is 200cm, then 200cm=100, 100cm=0</li>
+                <li><strong>Push-ups:</strong> If group best is 100 reps, then 100=100, 20=0</li>
+              </ul>
+            )}
           </div>
         </div>
       </CardContent>
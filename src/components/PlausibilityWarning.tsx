@@ -0,0 +1,20 @@
+import type { PlausibilityIssue } from "@/lib/plausibility";
+import { AlertTriangle } from "lucide-react";
+
+interface PlausibilityWarningProps {
+  issue: PlausibilityIssue | null;
+}
+
+/**
+ * Inline warning under a value input. Saving stays possible; the entry is flagged for coach review.
+ */
+export function PlausibilityWarning({ issue }: PlausibilityWarningProps) {
+  if (!issue) return null;
+
+  return (
+    <p className="flex items-start gap-1 text-xs text-yellow-600 dark:text-yellow-400">
+      <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+      <span>{issue.message}. It will be flagged for coach review.</span>
+    </p>
+  );
+}
@@ -0,0 +1,20 @@
+import type { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { cn } from "@/lib/utils";
+
+interface PlayerLinkProps {
+  playerId: string;
+  children: ReactNode;
+  className?: string;
+}
+
+/**
+ * A player's name that opens their profile page
+ */
+export function PlayerLink({ playerId, children, className }: PlayerLinkProps) {
+  return (
+    <Link to={`/players/${playerId}`} className={cn("hover:text-primary hover:underline", className)}>
+      {children}
+    </Link>
+  );
+}
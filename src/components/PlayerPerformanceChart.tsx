@@ -2,11 +2,26 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine, ReferenceArea } from 'recharts';
 import { supabase } from "@/integrations/supabase/client";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useMetrics } from "@/hooks/useMetrics";
+import { buildMetricMap, isLowerBetter, type MetricType } from "@/lib/performanceUtils";
+import { periodOf, toTScore, type BandPeriod } from "@/lib/bands";
+import { withCalculatedEntries, withInputMetrics } from "@/lib/composites";
+import { MOVING_AVERAGE_DAYS, RECENT_WINDOW_DAYS, TREND_STATUS_LABELS, type TrendAnalysis } from "@/lib/trends";
+import { useGoals } from "@/hooks/useGoals";
+import { useToast } from "@/hooks/use-toast";
+import { GoalDialog } from "@/components/GoalDialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { formatGoalTarget, getGoalStatus, GOAL_STATUS_LABELS } from "@/lib/goalUtils";
+import { ChevronDown, Flag, Trash2 } from "lucide-react";
 
 interface PlayerPerformanceChartProps {
   currentUserId: string;
@@ -15,7 +30,6 @@ interface PlayerPerformanceChartProps {
 }
 
 type ZoomLevel = '1m' | '3m' | '6m' | '12m' | '18m' | '3y';
-type MetricType = 'vertical_jump' | 'jump_gather' | '30yd_dash' | '3_cone_drill' | 'shuttle_5_10_5' | 'pushups_1min';
 
 const ZOOM_LEVELS: Record<ZoomLevel, { label: string; months: number }> = {
   '1m': { label: '1 Month', months: 1 },
@@ -26,29 +40,148 @@ const ZOOM_LEVELS: Record<ZoomLevel, { label: string; months: number }> = {
   '3y': { label: '3 Years', months: 36 },
 };
 
-const METRICS: Record<MetricType, { label: string; unit: string }> = {
-  vertical_jump: { label: 'Vertical Jump', unit: 'cm' },
-  jump_gather: { label: 'Jump w. Gather Step', unit: 'cm' },
-  '30yd_dash': { label: '30-Yard Dash', unit: 's' },
-  '3_cone_drill': { label: '3-Cone Drill', unit: 's' },
-  shuttle_5_10_5: { label: '5-10-5 Shuttle', unit: 's' },
-  pushups_1min: { label: 'Push-Ups (1 Min AMRAP)', unit: 'reps' },
-};
-
 interface Player {
   id: string;
   first_name: string;
   last_name: string;
 }
 
+// 'players': one metric, overlaid players in raw units; 'metrics': one player, several metrics as T-scores
+type ChartView = 'players' | 'metrics';
+
+interface DailyResult {
+  player_id: string;
+  metric_type: string;
+  entry_date: string;
+  value: number;
+}
+
+interface ChartSeries {
+  key: string;
+  name: string;
+  color: string;
+  unit: string;
+}
+
+type ChartRow = { ts: number } & Record<string, number | [number, number]>;
+
+interface PlayerTrend extends TrendAnalysis {
+  player_id: string;
+}
+
+// One colour per overlaid line; the first is the selected player or metric
+const SERIES_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--chart-2))',
+  'hsl(var(--chart-3))',
+  'hsl(var(--chart-5))',
+  '#C0C0C0',
+];
+const MAX_SERIES = SERIES_COLORS.length;
+const TEAM_BAND_COLOR = 'hsl(var(--muted-foreground))';
+const POSITION_BAND_COLOR = 'hsl(var(--chart-4))';
+
+// Bands are plotted mid-month
+const periodTimestamp = (period: string) => new Date(`${period}-15`).getTime();
+
+interface ChecklistPopoverProps {
+  id: string;
+  options: Array<{ value: string; label: string }>;
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  placeholder: string;
+  max: number;
+}
+
+/**
+ * Select-like trigger opening a checkbox list, for picking several options
+ */
+function ChecklistPopover({ id, options, selected, onChange, placeholder, max }: ChecklistPopoverProps) {
+  const toggle = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button id={id} variant="outline" className="w-full justify-between bg-background font-normal">
+          <span className="truncate">
+            {selected.length === 0
+              ? placeholder
+              : options.filter(o => selected.includes(o.value)).map(o => o.label).join(', ')}
+          </span>
+          <ChevronDown className="h-4 w-4 opacity-50 shrink-0" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="bg-popover z-50 w-64 p-2" align="start">
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {options.map(option => {
+            const checked = selected.includes(option.value);
+            return (
+              <div key={option.value} className="flex items-center gap-2 rounded-sm px-2 py-1.5 hover:bg-accent">
+                <Checkbox
+                  id={`${id}-${option.value}`}
+                  checked={checked}
+                  disabled={!checked && selected.length >= max}
+                  onCheckedChange={() => toggle(option.value)}
+                />
+                <Label htmlFor={`${id}-${option.value}`} className="flex-1 cursor-pointer font-normal">
+                  {option.label}
+                </Label>
+              </div>
+            );
+          })}
+        </div>
+        <p className="text-xs text-muted-foreground px-2 pt-2">Up to {max}</p>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 export function PlayerPerformanceChart({ currentUserId, userRole, selectedPlayerId }: PlayerPerformanceChartProps) {
   const [zoomLevel, setZoomLevel] = useState<ZoomLevel>('3m');
-  const [selectedMetric, setSelectedMetric] = useState<MetricType>('vertical_jump');
-  const [chartData, setChartData] = useState<any[]>([]);
+  const [view, setView] = useState<ChartView>('players');
+  const [selectedMetric, setSelectedMetric] = useState<MetricType>('');
+  const [selectedMetrics, setSelectedMetrics] = useState<MetricType[]>([]);
+  const [results, setResults] = useState<DailyResult[]>([]);
+  const [bands, setBands] = useState<Map<string, BandPeriod[]>>(new Map());
+  const [bandPosition, setBandPosition] = useState<string | null>(null);
+  const [showTeamBand, setShowTeamBand] = useState(false);
+  const [showPositionBand, setShowPositionBand] = useState(false);
+  const [showTrends, setShowTrends] = useState(false);
+  const [trends, setTrends] = useState<Map<string, PlayerTrend>>(new Map());
   const [players, setPlayers] = useState<Player[]>([]);
   const [activePlayerId, setActivePlayerId] = useState<string>(currentUserId);
+  const [comparePlayerIds, setComparePlayerIds] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isGoalDialogOpen, setIsGoalDialogOpen] = useState(false);
   const isMobile = useIsMobile();
+  const { toast } = useToast();
+  const { metrics, allMetrics, components } = useMetrics();
+  const metricMap = buildMetricMap(metrics);
+  const activeMetric = metricMap.get(selectedMetric);
+  const { goals, refetch: refetchGoals } = useGoals(activePlayerId);
+  const isCoach = userRole === 'coach' || userRole === 'admin';
+  // Players manage their own goals, coaches and admins anyone's
+  const canManageGoals = isCoach || activePlayerId === currentUserId;
+  const today = new Date().toISOString().split('T')[0];
+  const metricGoals = goals.filter(g => g.metric_type === selectedMetric);
+  const chartPlayerIds = view === 'players' ? [activePlayerId, ...comparePlayerIds.filter(id => id !== activePlayerId)] : [activePlayerId];
+  const chartMetrics = view === 'players' ? [selectedMetric].filter(Boolean) : selectedMetrics;
+  const chartPlayerKey = chartPlayerIds.join(',');
+  const chartMetricKey = chartMetrics.join(',');
+  // Metrics on normalized axes are placed against the team band, so it is always needed there
+  const needsBands = view === 'metrics' || showTeamBand || showPositionBand;
+  // Trends are in raw units, so only for the single metric view
+  const needsTrends = view === 'players' && showTrends && !!selectedMetric;
+
+  useEffect(() => {
+    // Default to the first metric of the registry once it is loaded
+    if (!selectedMetric && metrics.length > 0) {
+      setSelectedMetric(metrics[0].key);
+      setSelectedMetrics(metrics.slice(0, 3).map(m => m.key));
+    }
+  }, [metrics, selectedMetric]);
 
   useEffect(() => {
     // Set initial player ID
@@ -66,10 +199,26 @@ export function PlayerPerformanceChart({ currentUserId, userRole, selectedPlayer
   }, [userRole]);
 
   useEffect(() => {
-    if (activePlayerId) {
+    if (activePlayerId && chartMetrics.length > 0) {
       fetchChartData();
+    } else {
+      setResults([]);
+    }
+  }, [zoomLevel, view, activePlayerId, chartPlayerKey, chartMetricKey]);
+
+  useEffect(() => {
+    if (activePlayerId && chartMetrics.length > 0 && needsBands) {
+      fetchBands();
     }
-  }, [zoomLevel, selectedMetric, activePlayerId]);
+  }, [zoomLevel, activePlayerId, chartMetricKey, needsBands]);
+
+  useEffect(() => {
+    if (activePlayerId && needsTrends) {
+      fetchTrends();
+    } else {
+      setTrends(new Map());
+    }
+  }, [zoomLevel, activePlayerId, chartPlayerKey, selectedMetric, needsTrends]);
 
   async function fetchPlayers() {
     const { data: playerRoles } = await supabase
@@ -91,34 +240,38 @@ export function PlayerPerformanceChart({ currentUserId, userRole, selectedPlayer
     }
   }
 
+  function getRangeStart(): string {
+    const startDate = new Date();
+    startDate.setMonth(startDate.getMonth() - ZOOM_LEVELS[zoomLevel].months);
+    return startDate.toISOString().split('T')[0];
+  }
+
   async function fetchChartData() {
     setIsLoading(true);
     try {
-      const months = ZOOM_LEVELS[zoomLevel].months;
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setMonth(startDate.getMonth() - months);
+      // One point per day: the daily result under the metric's attempt aggregation.
+      // Derived and composite metrics are calculated from the daily results they depend on.
+      const [{ data }, { data: measurements }] = await Promise.all([
+        supabase
+          .from('best_daily_entries')
+          .select('player_id, metric_type, entry_date, value')
+          .in('player_id', chartPlayerIds)
+          .in('metric_type', withInputMetrics(chartMetrics, allMetrics, components))
+          .gte('entry_date', getRangeStart())
+          .lte('entry_date', today)
+          .order('entry_date', { ascending: true }),
+        supabase
+          .from('body_measurements')
+          .select('player_id, measured_on, weight_kg')
+          .in('player_id', chartPlayerIds),
+      ]);
 
-      const { data } = await supabase
-        .from('performance_entries')
-        .select('entry_date, value')
-        .eq('player_id', activePlayerId)
-        .eq('metric_type', selectedMetric)
-        .gte('entry_date', startDate.toISOString().split('T')[0])
-        .lte('entry_date', endDate.toISOString().split('T')[0])
-        .order('entry_date', { ascending: true });
-
-      const dbData = data || [];
-      
-      // Only include dates where we have actual data, but maintain time scale
-      const formattedData = dbData.map((entry: any) => ({
-        ts: new Date(entry.entry_date).getTime(),
-        value: entry.value,
-        isoDate: entry.entry_date,
-        dateLabel: new Date(entry.entry_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' }),
-      }));
-      
-      setChartData(formattedData);
+      const daily = (data || []).map(r => ({ ...r, value: Number(r.value) }));
+      setResults(
+        withCalculatedEntries(daily, allMetrics, measurements || [], components)
+          .filter(r => chartMetrics.includes(r.metric_type))
+          .sort((a, b) => a.entry_date.localeCompare(b.entry_date))
+      );
     } catch (error) {
       if (import.meta.env.DEV) {
         console.error('Error fetching chart data:', error);
@@ -128,7 +281,47 @@ export function PlayerPerformanceChart({ currentUserId, userRole, selectedPlayer
     }
   }
 
-  const chartHeight = isMobile ? 250 : 400;
+  async function fetchBands() {
+    const { data, error } = await supabase.functions.invoke('get-performance-bands', {
+      body: { metric_types: chartMetrics, player_id: activePlayerId, since: getRangeStart() },
+    });
+
+    if (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error fetching reference bands:', error);
+      }
+      return;
+    }
+
+    setBandPosition(data?.position ?? null);
+    setBands(new Map(
+      ((data?.metrics || []) as Array<{ metric_type: string; periods: BandPeriod[] }>)
+        .map(m => [m.metric_type, m.periods])
+    ));
+  }
+
+  async function fetchTrends() {
+    const { data, error } = await supabase.functions.invoke('get-performance-trends', {
+      body: { metric_types: [selectedMetric], player_ids: chartPlayerIds, since: getRangeStart(), most_improved_limit: 0 },
+    });
+
+    if (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error fetching trends:', error);
+      }
+      return;
+    }
+
+    setTrends(new Map(
+      ((data?.metrics?.[0]?.players || []) as PlayerTrend[]).map(t => [t.player_id, t])
+    ));
+  }
+
+  const playerName = (playerId: string) => {
+    if (playerId === currentUserId && !isCoach) return 'You';
+    const player = players.find(p => p.id === playerId);
+    return player ? `${player.first_name} ${player.last_name}` : '';
+  };
 
   // Compute fixed timeframe boundaries (start and end at midnight) for X-axis domain
   const endDateAxis = new Date();
@@ -138,6 +331,119 @@ export function PlayerPerformanceChart({ currentUserId, userRole, selectedPlayer
   const startTs = startDateAxis.getTime();
   const endTs = endDateAxis.getTime();
 
+  const teamBandFor = (metricKey: string, date: string) =>
+    bands.get(metricKey)?.find(b => b.period === periodOf(date))?.team ?? null;
+
+  // Merge every line and band into one row per timestamp so the tooltip shows them together
+  const rowMap = new Map<number, ChartRow>();
+  const put = (ts: number, key: string, value: number | [number, number]) => {
+    if (!rowMap.has(ts)) {
+      rowMap.set(ts, { ts } as ChartRow);
+    }
+    rowMap.get(ts)![key] = value;
+  };
+
+  const series: ChartSeries[] = view === 'players'
+    ? chartPlayerIds.map((playerId, index) => ({
+        key: `player_${index}`,
+        name: chartPlayerIds.length > 1 ? playerName(playerId) : activeMetric?.label ?? '',
+        color: SERIES_COLORS[index],
+        unit: activeMetric?.unit ?? '',
+      }))
+    : selectedMetrics.map((key, index) => ({
+        key: `metric_${index}`,
+        name: metricMap.get(key)?.label ?? key,
+        color: SERIES_COLORS[index],
+        unit: metricMap.get(key)?.unit ?? '',
+      }));
+
+  results.forEach(result => {
+    const ts = new Date(result.entry_date).getTime();
+    if (view === 'players') {
+      const index = chartPlayerIds.indexOf(result.player_id);
+      if (index >= 0 && result.metric_type === selectedMetric) {
+        put(ts, `player_${index}`, result.value);
+      }
+      return;
+    }
+
+    const index = selectedMetrics.indexOf(result.metric_type);
+    const team = teamBandFor(result.metric_type, result.entry_date);
+    if (index < 0 || !team) return;
+    put(ts, `metric_${index}`, toTScore(result.value, team, isLowerBetter(metricMap.get(result.metric_type))));
+    put(ts, `metric_${index}_raw`, result.value);
+  });
+
+  if (needsTrends) {
+    chartPlayerIds.forEach((playerId, index) => {
+      const trend = trends.get(playerId);
+      trend?.trend_line.forEach(point => put(new Date(point.date).getTime(), `player_${index}_trend`, point.value));
+      trend?.moving_average.forEach(point => put(new Date(point.date).getTime(), `player_${index}_avg`, point.value));
+    });
+  }
+
+  if (view === 'players' && activeMetric) {
+    (bands.get(selectedMetric) || []).forEach(({ period, team, position }) => {
+      const ts = Math.min(Math.max(periodTimestamp(period), startTs), endTs);
+      if (showTeamBand && team) {
+        put(ts, 'team_band', [team.mean - team.sd, team.mean + team.sd]);
+        put(ts, 'team_mean', team.mean);
+      }
+      if (showPositionBand && position) {
+        put(ts, 'position_band', [position.mean - position.sd, position.mean + position.sd]);
+        put(ts, 'position_mean', position.mean);
+      }
+    });
+  }
+
+  if (view === 'metrics' && showPositionBand) {
+    // The position band is averaged over the selected metrics, in T-scores against the team band
+    const byPeriod = new Map<string, { centre: number; halfWidth: number }[]>();
+    selectedMetrics.forEach(key => {
+      const lowerIsBetter = isLowerBetter(metricMap.get(key));
+      (bands.get(key) || []).forEach(({ period, team, position }) => {
+        if (!team || !position || team.sd === 0) return;
+        if (!byPeriod.has(period)) {
+          byPeriod.set(period, []);
+        }
+        byPeriod.get(period)!.push({
+          centre: toTScore(position.mean, team, lowerIsBetter),
+          halfWidth: 10 * position.sd / team.sd,
+        });
+      });
+    });
+    byPeriod.forEach((values, period) => {
+      const ts = Math.min(Math.max(periodTimestamp(period), startTs), endTs);
+      const centre = values.reduce((sum, v) => sum + v.centre, 0) / values.length;
+      const halfWidth = values.reduce((sum, v) => sum + v.halfWidth, 0) / values.length;
+      put(ts, 'position_band', [centre - halfWidth, centre + halfWidth]);
+      put(ts, 'position_mean', centre);
+    });
+  }
+
+  const chartData = [...rowMap.values()].sort((a, b) => a.ts - b.ts);
+  const hasResults = series.some(s => chartData.some(row => row[s.key] !== undefined));
+
+  async function deleteGoal(goalId: string) {
+    const { error } = await supabase
+      .from('goals')
+      .delete()
+      .eq('id', goalId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    refetchGoals();
+  }
+
+  const chartHeight = isMobile ? 250 : 400;
+
   const formatXAxisTick = (ts: number) => {
     const months = ZOOM_LEVELS[zoomLevel].months;
     const options: Intl.DateTimeFormatOptions =
@@ -149,17 +455,32 @@ export function PlayerPerformanceChart({ currentUserId, userRole, selectedPlayer
     return new Date(ts).toLocaleDateString('en-US', options);
   };
 
+  const tooltipFormatter = (value: number | [number, number], name: string, item: { dataKey?: unknown; payload?: ChartRow }) => {
+    const key = String(item.dataKey);
+    if (Array.isArray(value)) {
+      return [`${value[0].toFixed(2)} – ${value[1].toFixed(2)}`, name];
+    }
+    const line = series.find(s => s.key === key);
+    if (view === 'metrics' && line) {
+      return [`${item.payload?.[`${key}_raw`]} ${line.unit} (T ${value.toFixed(0)})`, name];
+    }
+    if (view === 'metrics') {
+      return [`T ${value.toFixed(0)}`, name];
+    }
+    return [`${Number(value.toFixed(2))} ${activeMetric?.unit ?? ''}`, name];
+  };
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>Performance History</CardTitle>
         <CardDescription>
-          Track your progress over time across different metrics. Select a metric and timeframe to view your performance trend.
+          Track progress over time. Overlay several players on one metric, or several metrics on a normalized axis, against team and position averages.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {(userRole === 'coach' || userRole === 'admin') && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {isCoach && (
             <div className="space-y-2">
               <Label htmlFor="player-select">Select Player</Label>
               <Select value={activePlayerId} onValueChange={setActivePlayerId}>
@@ -177,20 +498,80 @@ export function PlayerPerformanceChart({ currentUserId, userRole, selectedPlayer
             </div>
           )}
           <div className="space-y-2">
-            <Label htmlFor="metric-select">Select Metric</Label>
-            <Select value={selectedMetric} onValueChange={(v) => setSelectedMetric(v as MetricType)}>
-              <SelectTrigger id="metric-select" className="bg-background">
+            <Label htmlFor="view-select">View</Label>
+            <Select value={view} onValueChange={(v) => setView(v as ChartView)}>
+              <SelectTrigger id="view-select" className="bg-background">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent className="bg-popover z-50">
-                {Object.entries(METRICS).map(([key, { label, unit }]) => (
-                  <SelectItem key={key} value={key}>
-                    {label} [{unit}]
-                  </SelectItem>
-                ))}
+                <SelectItem value="players">{isCoach ? 'One metric, several players' : 'One metric'}</SelectItem>
+                <SelectItem value="metrics">Several metrics (normalized)</SelectItem>
               </SelectContent>
             </Select>
           </div>
+          {view === 'players' ? (
+            <div className="space-y-2">
+              <Label htmlFor="metric-select">Select Metric</Label>
+              <Select value={selectedMetric} onValueChange={(v) => setSelectedMetric(v as MetricType)}>
+                <SelectTrigger id="metric-select" className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover z-50">
+                  {metrics.map(({ key, label, unit }) => (
+                    <SelectItem key={key} value={key}>
+                      {label} [{unit}]
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="metrics-select">Select Metrics</Label>
+              <ChecklistPopover
+                id="metrics-select"
+                options={metrics.map(({ key, label, unit }) => ({ value: key, label: `${label} [${unit}]` }))}
+                selected={selectedMetrics}
+                onChange={setSelectedMetrics}
+                placeholder="Select metrics"
+                max={MAX_SERIES}
+              />
+            </div>
+          )}
+          {isCoach && view === 'players' && (
+            <div className="space-y-2">
+              <Label htmlFor="compare-players">Compare With</Label>
+              <ChecklistPopover
+                id="compare-players"
+                options={players
+                  .filter(p => p.id !== activePlayerId)
+                  .map(p => ({ value: p.id, label: `${p.first_name} ${p.last_name}` }))}
+                selected={comparePlayerIds.filter(id => id !== activePlayerId)}
+                onChange={setComparePlayerIds}
+                placeholder="No other players"
+                max={MAX_SERIES - 1}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-x-6 gap-y-2">
+          <div className="flex items-center gap-2">
+            <Switch id="team-band" checked={showTeamBand} onCheckedChange={setShowTeamBand} />
+            <Label htmlFor="team-band" className="cursor-pointer">Team average</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="position-band" checked={showPositionBand} onCheckedChange={setShowPositionBand} />
+            <Label htmlFor="position-band" className="cursor-pointer">
+              Position average{bandPosition && needsBands ? ` (${bandPosition})` : ''}
+            </Label>
+          </div>
+          {view === 'players' && (
+            <div className="flex items-center gap-2">
+              <Switch id="trend-lines" checked={showTrends} onCheckedChange={setShowTrends} />
+              <Label htmlFor="trend-lines" className="cursor-pointer">Trend lines</Label>
+            </div>
+          )}
         </div>
 
         <Tabs value={zoomLevel} onValueChange={(v) => setZoomLevel(v as ZoomLevel)} className="w-full">
@@ -211,10 +592,10 @@ export function PlayerPerformanceChart({ currentUserId, userRole, selectedPlayer
               {/* Show date range */}
               <div className="mb-2 text-sm text-muted-foreground text-center">
                 Showing: {startDateAxis.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })} — {endDateAxis.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
-                {chartData.length === 0 && <span className="text-orange-500 ml-2">(No data in this range)</span>}
+                {!hasResults && <span className="text-orange-500 ml-2">(No data in this range)</span>}
               </div>
               <ResponsiveContainer width="100%" height={chartHeight}>
-              <LineChart data={chartData} margin={{ bottom: isMobile ? 20 : 10 }}>
+              <ComposedChart data={chartData} margin={{ bottom: isMobile ? 20 : 10 }}>
                 <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
                 <XAxis
                   dataKey="ts"
@@ -229,8 +610,13 @@ export function PlayerPerformanceChart({ currentUserId, userRole, selectedPlayer
                 />
                 <YAxis 
                   tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: isMobile ? 10 : 12 }}
+                  domain={view === 'metrics'
+                    ? [(min: number) => Math.min(20, Math.floor(min)), (max: number) => Math.max(80, Math.ceil(max))]
+                    : ['auto', 'auto']}
                   label={{ 
-                    value: `${METRICS[selectedMetric].label} [${METRICS[selectedMetric].unit}]`, 
+                    value: view === 'metrics'
+                      ? 'T-score (50 = team average)'
+                      : activeMetric ? `${activeMetric.label} [${activeMetric.unit}]` : '', 
                     angle: -90, 
                     position: 'insideLeft',
                     style: { fill: 'hsl(var(--foreground))', fontSize: isMobile ? 10 : 12 }
@@ -243,7 +629,7 @@ export function PlayerPerformanceChart({ currentUserId, userRole, selectedPlayer
                     borderRadius: '6px',
                     color: 'hsl(var(--popover-foreground))'
                   }}
-                  formatter={(value: any) => [`${value} ${METRICS[selectedMetric].unit}`, METRICS[selectedMetric].label]}
+                  formatter={tooltipFormatter}
                   labelFormatter={(label: any) =>
                     new Date(label as number).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' })
                   }
@@ -251,21 +637,215 @@ export function PlayerPerformanceChart({ currentUserId, userRole, selectedPlayer
                 <Legend 
                   wrapperStyle={{ paddingTop: isMobile ? '10px' : '20px', fontSize: isMobile ? '10px' : '12px' }}
                 />
-                <Line 
-                  type="monotone" 
-                  dataKey="value" 
-                  stroke="hsl(var(--primary))" 
-                  strokeWidth={2}
-                  dot={{ fill: 'hsl(var(--primary))', r: isMobile ? 4 : 5, strokeWidth: 2 }}
-                  activeDot={{ r: isMobile ? 6 : 8, strokeWidth: 0 }}
-                  name={METRICS[selectedMetric].label}
-                  isAnimationActive={false}
-                />
-              </LineChart>
+                {/* On normalized axes the team band is 50 ± 10 by definition */}
+                {view === 'metrics' && showTeamBand && (
+                  <ReferenceArea y1={40} y2={60} fill={TEAM_BAND_COLOR} fillOpacity={0.12} stroke="none" />
+                )}
+                {view === 'metrics' && showTeamBand && (
+                  <ReferenceLine y={50} stroke={TEAM_BAND_COLOR} strokeDasharray="4 4" />
+                )}
+                {view === 'players' && showTeamBand && (
+                  <Area
+                    type="monotone"
+                    dataKey="team_band"
+                    name="Team ±1 SD"
+                    stroke="none"
+                    fill={TEAM_BAND_COLOR}
+                    fillOpacity={0.12}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                )}
+                {view === 'players' && showTeamBand && (
+                  <Line
+                    type="monotone"
+                    dataKey="team_mean"
+                    name="Team average"
+                    stroke={TEAM_BAND_COLOR}
+                    strokeDasharray="4 4"
+                    dot={false}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                )}
+                {showPositionBand && (
+                  <Area
+                    type="monotone"
+                    dataKey="position_band"
+                    name={`${bandPosition ?? 'Position'} ±1 SD`}
+                    stroke="none"
+                    fill={POSITION_BAND_COLOR}
+                    fillOpacity={0.12}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                )}
+                {showPositionBand && (
+                  <Line
+                    type="monotone"
+                    dataKey="position_mean"
+                    name={`${bandPosition ?? 'Position'} average`}
+                    stroke={POSITION_BAND_COLOR}
+                    strokeDasharray="4 4"
+                    dot={false}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                )}
+                {series.map(line => (
+                  <Line
+                    key={line.key}
+                    type="monotone"
+                    dataKey={line.key}
+                    stroke={line.color}
+                    strokeWidth={2}
+                    dot={{ fill: line.color, r: isMobile ? 4 : 5, strokeWidth: 2 }}
+                    activeDot={{ r: isMobile ? 6 : 8, strokeWidth: 0 }}
+                    name={line.name}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                ))}
+                {needsTrends && series.map(line => (
+                  <Line
+                    key={`${line.key}_trend`}
+                    type="linear"
+                    dataKey={`${line.key}_trend`}
+                    name={`${line.name} trend`}
+                    stroke={line.color}
+                    strokeDasharray="8 4"
+                    dot={false}
+                    legendType="none"
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                ))}
+                {needsTrends && series.map(line => (
+                  <Line
+                    key={`${line.key}_avg`}
+                    type="monotone"
+                    dataKey={`${line.key}_avg`}
+                    name={`${line.name} ${MOVING_AVERAGE_DAYS}-day average`}
+                    stroke={line.color}
+                    strokeOpacity={0.5}
+                    strokeWidth={3}
+                    dot={false}
+                    legendType="none"
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                ))}
+                {view === 'players' && metricGoals.map(goal => {
+                  const status = getGoalStatus(goal, today);
+                  return (
+                    <ReferenceLine
+                      key={goal.id}
+                      y={Number(goal.target_value)}
+                      ifOverflow="extendDomain"
+                      stroke={status === 'active' ? 'hsl(var(--primary))' : 'hsl(var(--muted-foreground))'}
+                      strokeDasharray="6 4"
+                      label={{
+                        value: `Goal ${Number(goal.target_value)}${status === 'achieved' ? ' ✓' : ''}`,
+                        position: 'insideTopRight',
+                        fill: 'hsl(var(--muted-foreground))',
+                        fontSize: isMobile ? 10 : 12,
+                      }}
+                    />
+                  );
+                })}
+              </ComposedChart>
               </ResponsiveContainer>
+              {needsTrends && (
+                <div className="space-y-2 mt-2">
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {chartPlayerIds.map((playerId, index) => {
+                      const trend = trends.get(playerId);
+                      if (!trend) return null;
+                      return (
+                        <Badge
+                          key={playerId}
+                          variant={trend.status === 'regressing' ? 'destructive' : trend.status === 'improving' ? 'default' : 'outline'}
+                          className="text-xs"
+                        >
+                          {chartPlayerIds.length > 1 && `${series[index]?.name}: `}
+                          {TREND_STATUS_LABELS[trend.status]}
+                          {trend.slope_per_month !== null &&
+                            ` · ${trend.slope_per_month > 0 ? '+' : ''}${trend.slope_per_month} ${activeMetric?.unit ?? ''}/month`}
+                        </Badge>
+                      );
+                    })}
+                  </div>
+                  <p className="text-xs text-muted-foreground text-center">
+                    Dashed: linear trend over the period. Faded: {MOVING_AVERAGE_DAYS}-day moving average.
+                    The status compares the change over the last {RECENT_WINDOW_DAYS / 7} weeks with the scatter of the results.
+                  </p>
+                </div>
+              )}
+              {view === 'metrics' && (
+                <p className="text-xs text-muted-foreground text-center mt-2">
+                  Each result is placed against the team's results that month: 50 is the team average, every 10 points is one standard deviation, higher is always better.
+                </p>
+              )}
             </>
           )}
         </div>
+
+        {view === 'players' && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <h4 className="text-sm font-semibold flex items-center gap-2">
+                <Flag className="h-4 w-4 text-primary" />
+                Goals
+              </h4>
+              {canManageGoals && activeMetric?.kind === 'measured' && (
+                <Button variant="outline" size="sm" onClick={() => setIsGoalDialogOpen(true)}>
+                  Set Goal
+                </Button>
+              )}
+            </div>
+            {metricGoals.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No goals for this metric yet.</p>
+            ) : (
+              metricGoals.map(goal => {
+                const status = getGoalStatus(goal, today);
+                return (
+                  <div key={goal.id} className="flex items-center justify-between p-3 rounded-lg bg-secondary/50 gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm">{formatGoalTarget(goal, activeMetric)}</p>
+                      {goal.notes && <p className="text-xs text-muted-foreground truncate">{goal.notes}</p>}
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant={status === 'achieved' ? 'default' : status === 'missed' ? 'destructive' : 'outline'} className="text-xs">
+                        {GOAL_STATUS_LABELS[status]}
+                      </Badge>
+                      {canManageGoals && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteGoal(goal.id)}
+                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
+
+        {activeMetric && (
+          <GoalDialog
+            open={isGoalDialogOpen}
+            onOpenChange={setIsGoalDialogOpen}
+            playerId={activePlayerId}
+            metric={activeMetric}
+            currentUserId={currentUserId}
+            onSuccess={refetchGoals}
+          />
+        )}
       </CardContent>
     </Card>
   );
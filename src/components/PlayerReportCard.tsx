@@ -0,0 +1,319 @@
+import { forwardRef, useEffect, useState } from "react";
+import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Legend, LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { supabase } from "@/integrations/supabase/client";
+import { useMetrics } from "@/hooks/useMetrics";
+import { usePerformanceComparison } from "@/hooks/usePerformanceComparison";
+import { isLowerBetter, type MetricDefinition } from "@/lib/performanceUtils";
+import { withCalculatedEntries } from "@/lib/composites";
+import type { BodyMeasurement } from "@/lib/derived";
+import { POSITION_LABELS, type FootballPosition } from "@/lib/positionUtils";
+import type { AggregationScope } from "@/lib/seasonUtils";
+
+interface PlayerReportCardProps {
+  playerId: string;
+  scope?: AggregationScope;
+  // Reports whether every section has finished loading, so the PDF is not captured half-drawn
+  onReadyChange?: (ready: boolean) => void;
+}
+
+interface DailyResult {
+  player_id: string;
+  metric_type: string;
+  entry_date: string;
+  value: number;
+}
+
+interface MetricStanding {
+  team_percentile: number | null;
+  position_percentile: number | null;
+  z_score: number | null;
+  next_best_player: string | null;
+  next_best_value: number | null;
+}
+
+// Subsets of the get-performance-analytics and get-player-neighborhood responses
+interface AnalyticsMetric {
+  metric_type: string;
+  cohorts: Array<{ cohort: string; key: string; players: Array<{ percentile: number; z_score: number }> }>;
+}
+
+interface NeighborhoodMetric {
+  metric_type: string;
+  next_best_player: string | null;
+  next_best_value: number | null;
+}
+
+// Trend charts cover the last year
+const TREND_MONTHS = 12;
+const PLAYER_COLOR = 'hsl(var(--primary))';
+const COMPARISON_COLOR = 'hsl(var(--muted-foreground))';
+
+function bestResult(results: DailyResult[], metric: MetricDefinition): DailyResult | undefined {
+  const lowerIsBetter = isLowerBetter(metric);
+  return results.reduce<DailyResult | undefined>((best, r) => {
+    if (!best) return r;
+    return (lowerIsBetter ? r.value < best.value : r.value > best.value) ? r : best;
+  }, undefined);
+}
+
+/**
+ * Printable summary of one player: radar, trend lines, bests, percentiles and the next player to catch.
+ * Rendered with the light report palette; each `data-report-section` becomes one block in the PDF.
+ */
+export const PlayerReportCard = forwardRef<HTMLDivElement, PlayerReportCardProps>(
+  ({ playerId, scope = {}, onReadyChange }, ref) => {
+    const { metrics, allMetrics, components } = useMetrics();
+    const [playerName, setPlayerName] = useState("");
+    const [position, setPosition] = useState<FootballPosition | null>(null);
+    const [results, setResults] = useState<DailyResult[]>([]);
+    const [measurements, setMeasurements] = useState<BodyMeasurement[]>([]);
+    const [standings, setStandings] = useState<Map<string, MetricStanding>>(new Map());
+    const [isLoading, setIsLoading] = useState(true);
+
+    const { data: comparisonData, isLoading: isRadarLoading } = usePerformanceComparison({
+      mode: 'best',
+      currentUserId: playerId,
+      userRole: '',
+      scope,
+      realtime: false,
+    });
+
+    useEffect(() => {
+      fetchReportData();
+    }, [playerId, scope.season_id, scope.active_only, scope.exclude_flagged]);
+
+    useEffect(() => {
+      onReadyChange?.(!isLoading && !isRadarLoading);
+    }, [isLoading, isRadarLoading, onReadyChange]);
+
+    async function fetchReportData() {
+      if (!playerId) return;
+      setIsLoading(true);
+
+      try {
+        const [profileResult, positionResult, resultsResult, measurementsResult, analyticsResult, neighborhoodResult] = await Promise.all([
+          supabase.from('profiles').select('first_name, last_name').eq('id', playerId).maybeSingle(),
+          supabase
+            .from('player_positions')
+            .select('position')
+            .eq('player_id', playerId)
+            .eq('is_primary', true)
+            .is('ended_on', null)
+            .maybeSingle(),
+          supabase
+            .from('best_daily_entries')
+            .select('player_id, metric_type, entry_date, value')
+            .eq('player_id', playerId)
+            .order('entry_date', { ascending: true }),
+          supabase
+            .from('body_measurements')
+            .select('player_id, measured_on, weight_kg')
+            .eq('player_id', playerId),
+          supabase.functions.invoke('get-performance-analytics', {
+            body: { cohorts: ['team', 'position'], player_id: playerId, ...scope }
+          }),
+          supabase.functions.invoke('get-player-neighborhood', {
+            body: { player_id: playerId, ...scope }
+          }),
+        ]);
+
+        if (resultsResult.error) throw resultsResult.error;
+        if (analyticsResult.error) throw analyticsResult.error;
+        if (neighborhoodResult.error) throw neighborhoodResult.error;
+
+        const profile = profileResult.data;
+        const primaryPosition = (positionResult.data?.position as FootballPosition | undefined) ?? null;
+        setPlayerName(profile ? `${profile.first_name} ${profile.last_name}` : '');
+        setPosition(primaryPosition);
+        setResults((resultsResult.data || []).map(r => ({ ...r, value: Number(r.value) })));
+        setMeasurements(measurementsResult.data || []);
+
+        const standingMap = new Map<string, MetricStanding>();
+        ((analyticsResult.data?.metrics || []) as AnalyticsMetric[]).forEach(metric => {
+          const team = metric.cohorts.find(c => c.cohort === 'team')?.players[0];
+          const pos = metric.cohorts.find(c => c.cohort === 'position' && c.key === primaryPosition)?.players[0];
+          standingMap.set(metric.metric_type, {
+            team_percentile: team?.percentile ?? null,
+            position_percentile: pos?.percentile ?? null,
+            z_score: team?.z_score ?? null,
+            next_best_player: null,
+            next_best_value: null,
+          });
+        });
+        ((neighborhoodResult.data || []) as NeighborhoodMetric[]).forEach(n => {
+          const standing = standingMap.get(n.metric_type);
+          if (standing) {
+            standing.next_best_player = n.next_best_player;
+            standing.next_best_value = n.next_best_value;
+          }
+        });
+        setStandings(standingMap);
+      } catch (error) {
+        console.error('Error fetching report card data:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    const today = new Date();
+    const trendStart = new Date(today);
+    trendStart.setMonth(trendStart.getMonth() - TREND_MONTHS);
+    const trendStartIso = trendStart.toISOString().split('T')[0];
+
+    // Derived and composite metrics are calculated from the daily results they depend on
+    const allResults = withCalculatedEntries(results, allMetrics, measurements, components)
+      .sort((a, b) => a.entry_date.localeCompare(b.entry_date));
+
+    const metricRows = metrics
+      .map(metric => {
+        const metricResults = allResults.filter(r => r.metric_type === metric.key);
+        return {
+          metric,
+          best: bestResult(metricResults, metric),
+          latest: metricResults[metricResults.length - 1],
+          trend: metricResults
+            .filter(r => r.entry_date >= trendStartIso)
+            .map(r => ({ ts: new Date(r.entry_date).getTime(), value: r.value })),
+          standing: standings.get(metric.key),
+        };
+      })
+      .filter(row => row.latest);
+
+    const radarKeys = Object.keys(comparisonData);
+    const radarData = radarKeys.length > 0
+      ? comparisonData[radarKeys[0]].map(point => {
+          const dataPoint: Record<string, string | number> = { metric: point.metric };
+          radarKeys.forEach(key => {
+            dataPoint[key] = comparisonData[key].find(m => m.metric === point.metric)?.value || 0;
+          });
+          return dataPoint;
+        })
+      : [];
+    // Reference layers first so the player's shape is drawn on top
+    const orderedRadarKeys = [...radarKeys.filter(k => k !== 'You'), ...radarKeys.filter(k => k === 'You')];
+
+    const formatValue = (value: number | null | undefined) => (value === null || value === undefined ? '—' : Number(value).toFixed(2));
+    const formatDate = (date: string) =>
+      new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+    return (
+      <div ref={ref} className="report-sheet bg-background text-foreground w-[760px] p-6 space-y-6">
+        <div data-report-section className="flex items-end justify-between border-b border-border pb-4">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-muted-foreground">Player Report Card</p>
+            <h2 className="text-2xl font-bold">{playerName || '—'}</h2>
+            <p className="text-sm text-muted-foreground">
+              {position ? POSITION_LABELS[position] : 'No position assigned'}
+            </p>
+          </div>
+          <p className="text-sm text-muted-foreground">{formatDate(today.toISOString().split('T')[0])}</p>
+        </div>
+
+        {radarData.length > 0 && (
+          <div data-report-section className="space-y-2">
+            <h3 className="font-semibold">Profile vs. Team</h3>
+            <div className="flex justify-center">
+              <RadarChart width={520} height={360} data={radarData}>
+                <PolarGrid stroke="hsl(var(--border))" />
+                <PolarAngleAxis dataKey="metric" tick={{ fill: 'hsl(var(--foreground))', fontSize: 11 }} />
+                <PolarRadiusAxis angle={90} domain={[0, 100]} tick={false} axisLine={false} />
+                {orderedRadarKeys.map(key => (
+                  <Radar
+                    key={key}
+                    name={key === 'You' ? playerName : key}
+                    dataKey={key}
+                    stroke={key === 'You' ? PLAYER_COLOR : COMPARISON_COLOR}
+                    fill={key === 'You' ? PLAYER_COLOR : COMPARISON_COLOR}
+                    fillOpacity={key === 'You' ? 0.3 : 0.1}
+                    strokeWidth={key === 'You' ? 3 : 2}
+                    isAnimationActive={false}
+                  />
+                ))}
+                <Legend wrapperStyle={{ fontSize: '12px' }} />
+              </RadarChart>
+            </div>
+          </div>
+        )}
+
+        <div data-report-section className="space-y-2">
+          <h3 className="font-semibold">Bests & Standing</h3>
+          {metricRows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No results recorded yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-border">
+                  <th className="py-1 pr-2 font-medium">Metric</th>
+                  <th className="py-1 pr-2 font-medium">Best</th>
+                  <th className="py-1 pr-2 font-medium">Latest</th>
+                  <th className="py-1 pr-2 font-medium">Team %</th>
+                  <th className="py-1 pr-2 font-medium">{position ?? 'Position'} %</th>
+                  <th className="py-1 pr-2 font-medium">z</th>
+                  <th className="py-1 font-medium">Next Up</th>
+                </tr>
+              </thead>
+              <tbody>
+                {metricRows.map(({ metric, best, latest, standing }) => (
+                  <tr key={metric.key} className="border-b border-border/50">
+                    <td className="py-1 pr-2">{metric.label} <span className="text-muted-foreground">[{metric.unit}]</span></td>
+                    <td className="py-1 pr-2">
+                      <span className="font-medium">{formatValue(best?.value)}</span>
+                      {best && <span className="block text-xs text-muted-foreground">{formatDate(best.entry_date)}</span>}
+                    </td>
+                    <td className="py-1 pr-2">{formatValue(latest?.value)}</td>
+                    <td className="py-1 pr-2">{standing?.team_percentile ?? '—'}</td>
+                    <td className="py-1 pr-2">{standing?.position_percentile ?? '—'}</td>
+                    <td className="py-1 pr-2">{standing?.z_score ?? '—'}</td>
+                    <td className="py-1">
+                      {standing?.next_best_value !== null && standing?.next_best_value !== undefined
+                        ? <>{formatValue(standing.next_best_value)}{standing.next_best_player && <span className="block text-xs text-muted-foreground">{standing.next_best_player}</span>}</>
+                        : standing?.team_percentile === 100 ? 'Team leader' : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Percentiles and z-scores compare the latest result with each teammate's latest result; higher is always better.
+          </p>
+        </div>
+
+        {metricRows.some(row => row.trend.length > 0) && (
+          <div data-report-section className="space-y-2">
+            <h3 className="font-semibold">Trends (last {TREND_MONTHS} months)</h3>
+            <div className="grid grid-cols-2 gap-4">
+              {metricRows.filter(row => row.trend.length > 0).map(({ metric, trend }) => (
+                <div key={metric.key}>
+                  <p className="text-xs font-medium mb-1">{metric.label} [{metric.unit}]</p>
+                  <LineChart width={340} height={140} data={trend} margin={{ top: 5, right: 10, bottom: 0, left: -10 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis
+                      dataKey="ts"
+                      type="number"
+                      scale="time"
+                      domain={[trendStart.getTime(), today.getTime()]}
+                      tickFormatter={(ts) => new Date(ts as number).toLocaleDateString('en-US', { month: 'short' })}
+                      tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+                    />
+                    <YAxis domain={['auto', 'auto']} tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }} />
+                    <Line
+                      type="monotone"
+                      dataKey="value"
+                      stroke={PLAYER_COLOR}
+                      strokeWidth={2}
+                      dot={{ fill: PLAYER_COLOR, r: 3 }}
+                      isAnimationActive={false}
+                    />
+                  </LineChart>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+PlayerReportCard.displayName = "PlayerReportCard";
@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ResponsiveDialog } from "@/components/ResponsiveDialog";
+import { PlayerReportCard } from "@/components/PlayerReportCard";
+import { useToast } from "@/hooks/use-toast";
+import { exportElementToPdf } from "@/lib/exportUtils";
+import type { AggregationScope } from "@/lib/seasonUtils";
+import { FileDown } from "lucide-react";
+
+interface ReportCardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Players to choose from; players without coach rights only get their own card
+  players: Array<{ id: string; first_name: string; last_name: string }>;
+  defaultPlayerId: string;
+  scope?: AggregationScope;
+}
+
+export function ReportCardDialog({ open, onOpenChange, players, defaultPlayerId, scope }: ReportCardDialogProps) {
+  const { toast } = useToast();
+  const reportRef = useRef<HTMLDivElement>(null);
+  const [playerId, setPlayerId] = useState(defaultPlayerId);
+  const [isReady, setIsReady] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setPlayerId(defaultPlayerId || players[0]?.id || "");
+    }
+  }, [open, defaultPlayerId]);
+
+  const handleDownload = async () => {
+    if (!reportRef.current) return;
+    setIsExporting(true);
+
+    try {
+      const player = players.find(p => p.id === playerId);
+      const name = player ? `${player.first_name}_${player.last_name}`.toLowerCase() : "player";
+      await exportElementToPdf(reportRef.current, `report_card_${name}_${new Date().toISOString().split("T")[0]}.pdf`);
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <ResponsiveDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Report Card"
+      description="Preview and download a printable PDF summary"
+      className="sm:max-w-[840px]"
+    >
+      <div className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          {players.length > 1 && (
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="report-player">Player</Label>
+              <Select value={playerId} onValueChange={setPlayerId}>
+                <SelectTrigger id="report-player" className="bg-background">
+                  <SelectValue placeholder="Select player" />
+                </SelectTrigger>
+                <SelectContent className="bg-popover z-50">
+                  {players.map((player) => (
+                    <SelectItem key={player.id} value={player.id}>
+                      {player.first_name} {player.last_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <Button onClick={handleDownload} disabled={!playerId || !isReady || isExporting}>
+            <FileDown className="h-4 w-4 mr-2" />
+            {isExporting ? "Creating PDF..." : isReady ? "Download PDF" : "Loading..."}
+          </Button>
+        </div>
+
+        <div className="max-h-[60vh] overflow-auto rounded-lg border border-border">
+          {playerId && open && (
+            <PlayerReportCard ref={reportRef} playerId={playerId} scope={scope} onReadyChange={setIsReady} />
+          )}
+        </div>
+      </div>
+    </ResponsiveDialog>
+  );
+}
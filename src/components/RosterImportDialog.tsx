@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ResponsiveDialog } from "@/components/ResponsiveDialog";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { downloadCsv } from "@/lib/csv";
+import { readSpreadsheet } from "@/lib/importUtils";
+import { parseRosterSheet, toRosterUser, type RosterResult, type RosterRow } from "@/lib/rosterImportUtils";
+import { Download } from "lucide-react";
+
+interface RosterImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  existingUsernames: string[];
+  onSuccess: () => void;
+}
+
+export function RosterImportDialog({ open, onOpenChange, existingUsernames, onSuccess }: RosterImportDialogProps) {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<RosterRow[]>([]);
+  const [results, setResults] = useState<RosterResult[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const resetForm = () => {
+    setFileName("");
+    setRows([]);
+    setResults(null);
+  };
+
+  const validRows = rows.filter(row => row.errors.length === 0);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const table = await readSpreadsheet(file);
+      setRows(parseRosterSheet(table, new Set(existingUsernames)));
+      setFileName(file.name);
+      setResults(null);
+    } catch (error: unknown) {
+      setRows([]);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsLoading(true);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/batch-create-users`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`,
+        },
+        body: JSON.stringify({ users: validRows.map(toRosterUser) }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to create users');
+      }
+
+      // The function numbers the rows it received; map them back to spreadsheet lines
+      const created: RosterResult[] = result.results.map((r: RosterResult) => ({
+        ...r,
+        row: validRows[r.row - 1]?.rowNumber ?? r.row,
+      }));
+      const successCount = created.filter(r => r.success).length;
+      setResults(created);
+
+      toast({
+        title: successCount === created.length ? "Success" : "Error",
+        description: `Created ${successCount} of ${created.length} users`,
+        variant: successCount === created.length ? undefined : "destructive",
+      });
+
+      if (successCount > 0) onSuccess();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create users",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDownloadCredentials = () => {
+    const rowsByUsername = new Map(rows.map(r => [r.username, r]));
+    downloadCsv(`credentials_${new Date().toISOString().split("T")[0]}.csv`, [
+      ["Username", "First Name", "Last Name", "Initial Password"],
+      ...(results || [])
+        .filter(r => r.success && r.username)
+        .map(r => {
+          const row = rowsByUsername.get(r.username!);
+          return [r.username, row?.firstName ?? "", row?.lastName ?? "", r.password];
+        }),
+    ]);
+  };
+
+  return (
+    <ResponsiveDialog
+      open={open}
+      onOpenChange={(isOpen) => { onOpenChange(isOpen); if (!isOpen) resetForm(); }}
+      title="Import Roster"
+      description="Create accounts from a CSV or Excel file with first name, last name and optionally username, roles and position"
+    >
+      <div className="space-y-4">
+        {!results && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="roster-file">File</Label>
+              <Input
+                id="roster-file"
+                type="file"
+                accept=".csv,.txt,.xlsx"
+                onChange={handleFileChange}
+                disabled={isLoading}
+              />
+              <p className="text-xs text-muted-foreground">
+                Missing usernames are built as firstname.lastname. Rows without roles become players.
+                Initial passwords are generated for every account.
+              </p>
+            </div>
+
+            {rows.length > 0 && (
+              <>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">{fileName}</span>
+                  <Badge variant="default">{validRows.length} ready</Badge>
+                  <Badge variant="destructive">{rows.length - validRows.length} with errors</Badge>
+                </div>
+
+                <div className="space-y-2 max-h-72 overflow-y-auto">
+                  {rows.map((row) => (
+                    <div key={row.rowNumber} className="p-3 rounded-lg bg-secondary/50 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium truncate">
+                          <span className="text-muted-foreground mr-2">#{row.rowNumber}</span>
+                          {row.firstName} {row.lastName}
+                        </span>
+                        <Badge variant={row.errors.length > 0 ? "destructive" : "outline"} className="text-xs shrink-0">
+                          {row.errors.length > 0 ? "Error" : "Ready"}
+                        </Badge>
+                      </div>
+                      <p className="text-muted-foreground">
+                        {row.username} · <span className="capitalize">{row.roles.join(", ")}</span>
+                        {row.position ? ` · ${row.position}` : ""}
+                      </p>
+                      {row.errors.length > 0 && (
+                        <p className="text-destructive text-xs mt-1">{row.errors.join(", ")}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {rows.length > validRows.length && (
+                  <p className="text-xs text-muted-foreground">Rows with errors are skipped.</p>
+                )}
+              </>
+            )}
+
+            <Button
+              type="button"
+              className="w-full"
+              onClick={handleCreate}
+              disabled={isLoading || validRows.length === 0}
+            >
+              {isLoading ? "Creating..." : `Create ${validRows.length} Users`}
+            </Button>
+          </>
+        )}
+
+        {results && (
+          <>
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {results.map((result) => (
+                <div key={result.row} className="p-3 rounded-lg bg-secondary/50 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium truncate">
+                      <span className="text-muted-foreground mr-2">#{result.row}</span>
+                      {result.username ?? "—"}
+                    </span>
+                    <Badge variant={result.success ? "default" : "destructive"} className="text-xs shrink-0">
+                      {result.success ? "Created" : "Failed"}
+                    </Badge>
+                  </div>
+                  {result.error && <p className="text-destructive text-xs mt-1">{result.error}</p>}
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Initial passwords are shown only now. Download the credentials sheet before closing this dialog.
+            </p>
+
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1"
+                onClick={handleDownloadCredentials}
+                disabled={!results.some(r => r.success)}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download Credentials
+              </Button>
+              <Button
+                type="button"
+                className="flex-1"
+                onClick={() => {
+                  resetForm();
+                  onOpenChange(false);
+                }}
+              >
+                Done
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </ResponsiveDialog>
+  );
+}
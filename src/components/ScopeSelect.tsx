@@ -0,0 +1,36 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSeasons } from "@/hooks/useSeasons";
+import { SCOPE_ACTIVE_ROSTER, SCOPE_ALL_PLAYERS } from "@/lib/seasonUtils";
+
+interface ScopeSelectProps {
+  value: string;
+  onValueChange: (value: string) => void;
+}
+
+/**
+ * Picks which players and dates team aggregates are computed over
+ */
+export function ScopeSelect({ value, onValueChange }: ScopeSelectProps) {
+  const { seasons } = useSeasons();
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="scope-select">Compare Against</Label>
+      <Select value={value} onValueChange={onValueChange}>
+        <SelectTrigger id="scope-select" className="bg-background">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-popover z-50">
+          <SelectItem value={SCOPE_ACTIVE_ROSTER}>Active roster</SelectItem>
+          <SelectItem value={SCOPE_ALL_PLAYERS}>All players (all time)</SelectItem>
+          {seasons.map(season => (
+            <SelectItem key={season.id} value={season.id}>
+              Season {season.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
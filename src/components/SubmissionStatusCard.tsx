@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useMetrics } from "@/hooks/useMetrics";
+import { buildMetricMap, formatMetricLabel } from "@/lib/performanceUtils";
+import type { Tables } from "@/integrations/supabase/types";
+import { ClipboardCheck } from "lucide-react";
+
+interface SubmissionStatusCardProps {
+  playerId: string;
+  // Bump to reload after the player recorded or edited a result
+  refreshKey?: number;
+}
+
+type Submission = Pick<
+  Tables<"performance_entries">,
+  "id" | "metric_type" | "value" | "unit" | "entry_date" | "status" | "review_comment" | "reviewed_at"
+>;
+
+// Rejections stay visible for this long after the review
+const REJECTED_VISIBLE_DAYS = 30;
+
+/**
+ * A player's own results that are waiting for approval or were recently rejected.
+ * Hidden when there are none.
+ */
+export function SubmissionStatusCard({ playerId, refreshKey }: SubmissionStatusCardProps) {
+  const { metrics } = useMetrics({ includeInactive: true });
+  const metricMap = buildMetricMap(metrics);
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+
+  useEffect(() => {
+    if (playerId) {
+      fetchSubmissions();
+    }
+  }, [playerId, refreshKey]);
+
+  const fetchSubmissions = async () => {
+    const since = new Date();
+    since.setDate(since.getDate() - REJECTED_VISIBLE_DAYS);
+
+    const { data, error } = await supabase
+      .from("performance_entries")
+      .select("id, metric_type, value, unit, entry_date, status, review_comment, reviewed_at")
+      .eq("player_id", playerId)
+      .is("deleted_at", null)
+      .or(`status.eq.pending,and(status.eq.rejected,reviewed_at.gte."${since.toISOString()}")`)
+      .order("entry_date", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching submissions:", error.message);
+    }
+
+    setSubmissions(data || []);
+  };
+
+  if (submissions.length === 0) return null;
+
+  return (
+    <Card className="border-border/50 shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5 text-primary" />
+          My Submissions
+        </CardTitle>
+        <CardDescription>Results you recorded count once a coach has approved them</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {submissions.map(submission => {
+            const metric = metricMap.get(submission.metric_type);
+            return (
+              <div key={submission.id} className="p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm truncate">
+                      {metric ? formatMetricLabel(metric) : submission.metric_type}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {submission.value} {submission.unit} · {new Date(submission.entry_date).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Badge variant={submission.status === "rejected" ? "destructive" : "secondary"} className="text-xs shrink-0">
+                    {submission.status === "rejected" ? "Rejected" : "Pending"}
+                  </Badge>
+                </div>
+                {submission.review_comment && (
+                  <p className="text-sm mt-2">
+                    <span className="text-muted-foreground">Coach:</span> {submission.review_comment}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
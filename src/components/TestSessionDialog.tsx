@@ -0,0 +1,247 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ResponsiveDialog } from "@/components/ResponsiveDialog";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { testSessionSchema } from "@/lib/validation";
+import {
+  SURFACE_LABELS,
+  SURFACE_OPTIONS,
+  TIMING_METHOD_LABELS,
+  TIMING_METHOD_OPTIONS,
+  type TestSession,
+} from "@/lib/sessionUtils";
+
+interface Coach {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+interface TestSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  session?: TestSession | null;
+  currentUserId: string;
+  onSuccess: (session: TestSession) => void;
+}
+
+// Select items cannot carry an empty value, so "not recorded" gets a sentinel
+const NONE = "none";
+
+export function TestSessionDialog({ open, onOpenChange, session, currentUserId, onSuccess }: TestSessionDialogProps) {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [coaches, setCoaches] = useState<Coach[]>([]);
+  const [surface, setSurface] = useState<string>(NONE);
+  const [timingMethod, setTimingMethod] = useState<string>(NONE);
+  const [conductedBy, setConductedBy] = useState<string>(NONE);
+
+  useEffect(() => {
+    if (!open) return;
+    setSurface(session?.surface ?? NONE);
+    setTimingMethod(session?.timing_method ?? NONE);
+    setConductedBy(session?.conducted_by ?? currentUserId ?? NONE);
+    fetchCoaches();
+  }, [open, session, currentUserId]);
+
+  const fetchCoaches = async () => {
+    const { data: coachRoles } = await supabase
+      .from("user_roles")
+      .select("user_id")
+      .in("role", ["coach", "admin"]);
+
+    const coachIds = Array.from(new Set((coachRoles || []).map(r => r.user_id)));
+    if (coachIds.length === 0) {
+      setCoaches([]);
+      return;
+    }
+
+    const { data: profiles } = await supabase
+      .from("profiles")
+      .select("id, first_name, last_name")
+      .in("id", coachIds)
+      .order("last_name", { ascending: true });
+
+    setCoaches(profiles || []);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    const formData = new FormData(e.currentTarget);
+    const optionalText = (name: string) => {
+      const value = (formData.get(name) as string || "").trim();
+      return value === "" ? null : value;
+    };
+
+    const validation = testSessionSchema.safeParse({
+      name: formData.get("name") as string,
+      session_date: formData.get("session_date") as string,
+      location: optionalText("location"),
+      surface: surface === NONE ? null : surface,
+      timing_method: timingMethod === NONE ? null : timingMethod,
+      conditions: optionalText("conditions"),
+      conducted_by: conductedBy === NONE ? null : conductedBy,
+    });
+
+    if (!validation.success) {
+      const errors = validation.error.errors.map(e => e.message).join(", ");
+      toast({
+        title: "Validation Error",
+        description: errors,
+        variant: "destructive",
+      });
+      setIsLoading(false);
+      return;
+    }
+
+    const values = {
+      name: validation.data.name,
+      session_date: validation.data.session_date,
+      location: validation.data.location,
+      surface: validation.data.surface,
+      timing_method: validation.data.timing_method,
+      conditions: validation.data.conditions,
+      conducted_by: validation.data.conducted_by,
+    };
+
+    try {
+      const { data, error } = session
+        ? await supabase
+            .from("test_sessions")
+            .update(values)
+            .eq("id", session.id)
+            .select()
+            .single()
+        : await supabase
+            .from("test_sessions")
+            .insert([{ ...values, created_by: currentUserId }])
+            .select()
+            .single();
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: session ? "Session updated successfully" : "Session created successfully",
+      });
+
+      onOpenChange(false);
+      onSuccess(data);
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save session",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <ResponsiveDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title={session ? "Edit Session" : "New Testing Session"}
+      description={session ? "Update the details of this testing session" : "Group a combine day or testing event"}
+    >
+      <form key={session?.id ?? "new"} onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="session-name">Name</Label>
+          <Input id="session-name" name="name" type="text" defaultValue={session?.name} placeholder="e.g. Spring Combine" required />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="session-date">Date</Label>
+            <Input
+              id="session-date"
+              name="session_date"
+              type="date"
+              defaultValue={session?.session_date ?? new Date().toISOString().split('T')[0]}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="session-location">Location</Label>
+            <Input id="session-location" name="location" type="text" defaultValue={session?.location ?? ""} placeholder="e.g. Main field" />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="session-surface">Surface</Label>
+            <Select value={surface} onValueChange={setSurface}>
+              <SelectTrigger id="session-surface" className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover z-50">
+                <SelectItem value={NONE}>Not recorded</SelectItem>
+                {SURFACE_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {SURFACE_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="session-timing">Timing Method</Label>
+            <Select value={timingMethod} onValueChange={setTimingMethod}>
+              <SelectTrigger id="session-timing" className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover z-50">
+                <SelectItem value={NONE}>Not recorded</SelectItem>
+                {TIMING_METHOD_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {TIMING_METHOD_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="session-coach">Conducted By</Label>
+          <Select value={conductedBy} onValueChange={setConductedBy}>
+            <SelectTrigger id="session-coach" className="bg-background">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover z-50">
+              <SelectItem value={NONE}>Not recorded</SelectItem>
+              {coaches.map((coach) => (
+                <SelectItem key={coach.id} value={coach.id}>
+                  {coach.first_name} {coach.last_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="session-conditions">Conditions</Label>
+          <Textarea
+            id="session-conditions"
+            name="conditions"
+            defaultValue={session?.conditions ?? ""}
+            placeholder="e.g. Wet field, strong headwind"
+            rows={2}
+          />
+        </div>
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? "Saving..." : session ? "Update Session" : "Create Session"}
+        </Button>
+      </form>
+    </ResponsiveDialog>
+  );
+}
@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ResponsiveDialog } from "@/components/ResponsiveDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMetrics } from "@/hooks/useMetrics";
+import { supabase } from "@/integrations/supabase/client";
+import { buildMetricMap, formatMetricLabel } from "@/lib/performanceUtils";
+import { TRASH_RETENTION_DAYS, getDaysUntilPurge, getTrashCutoff } from "@/lib/trashUtils";
+import type { Tables } from "@/integrations/supabase/types";
+import { RotateCcw } from "lucide-react";
+
+interface TrashDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: () => void;
+}
+
+type TrashedEntry = Pick<
+  Tables<"performance_entries">,
+  "id" | "player_id" | "metric_type" | "value" | "unit" | "entry_date" | "deleted_at" | "deleted_by"
+>;
+
+export function TrashDialog({ open, onOpenChange, onRestore }: TrashDialogProps) {
+  const { toast } = useToast();
+  const { metrics } = useMetrics({ includeInactive: true });
+  const metricMap = buildMetricMap(metrics);
+  const [entries, setEntries] = useState<TrashedEntry[]>([]);
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      fetchTrash();
+    }
+  }, [open]);
+
+  const fetchTrash = async () => {
+    setIsLoading(true);
+
+    try {
+      const { data, error } = await supabase
+        .from("performance_entries")
+        .select("id, player_id, metric_type, value, unit, entry_date, deleted_at, deleted_by")
+        .not("deleted_at", "is", null)
+        .gte("deleted_at", getTrashCutoff().toISOString())
+        .order("deleted_at", { ascending: false });
+
+      if (error) throw error;
+
+      const ids = [...new Set((data || []).flatMap(e => [e.player_id, e.deleted_by]).filter((id): id is string => !!id))];
+      const { data: profiles } = ids.length > 0
+        ? await supabase.from("profiles").select("id, first_name, last_name").in("id", ids)
+        : { data: [] };
+
+      setNames(new Map((profiles || []).map(p => [p.id, `${p.first_name} ${p.last_name}`])));
+      setEntries(data || []);
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load deleted entries",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestore = async (entryId: string) => {
+    setRestoringId(entryId);
+
+    try {
+      const { error } = await supabase
+        .from("performance_entries")
+        .update({ deleted_at: null })
+        .eq("id", entryId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Performance entry restored",
+      });
+
+      setEntries(entries.filter(e => e.id !== entryId));
+      onRestore();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore entry",
+        variant: "destructive",
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <ResponsiveDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Trash"
+      description={`Deleted entries can be restored for ${TRASH_RETENTION_DAYS} days, after which they are removed for good`}
+    >
+      <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">The trash is empty.</p>
+        ) : (
+          entries.map(entry => {
+            const metric = metricMap.get(entry.metric_type);
+            const daysLeft = getDaysUntilPurge(entry.deleted_at!);
+            return (
+              <div key={entry.id} className="p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{names.get(entry.player_id) ?? "Unknown player"}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {metric ? formatMetricLabel(metric) : entry.metric_type} · {entry.value} {entry.unit} · {new Date(entry.entry_date).toLocaleDateString()}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Deleted {new Date(entry.deleted_at!).toLocaleDateString()}
+                      {entry.deleted_by && names.has(entry.deleted_by) ? ` by ${names.get(entry.deleted_by)}` : ""}
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-end gap-2 shrink-0">
+                    <Badge variant={daysLeft <= 3 ? "destructive" : "secondary"} className="text-xs">
+                      {daysLeft === 1 ? "1 day left" : `${daysLeft} days left`}
+                    </Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(entry.id)}
+                      disabled={restoringId !== null}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      {restoringId === entry.id ? "Restoring..." : "Restore"}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </ResponsiveDialog>
+  );
+}
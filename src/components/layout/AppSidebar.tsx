@@ -1,4 +1,4 @@
-import { LayoutDashboard, TrendingUp, Users, LogOut, Key, FileText } from "lucide-react";
+import { LayoutDashboard, TrendingUp, Users, LogOut, Key, FileText, Ruler, CalendarDays, ClipboardList, History, AlertTriangle, Trophy, Crosshair, ListOrdered } from "lucide-react";
 import logo from "@/assets/logo.png";
 import { NavLink } from "@/components/NavLink";
 import { useLocation } from "react-router-dom";
@@ -57,7 +57,19 @@ export function AppSidebar({ userRole, onViewTerms }: AppSidebarProps) {
   const navItems = [
     { title: "Dashboard", url: "/", icon: LayoutDashboard },
     { title: "Performance", url: "/performance", icon: TrendingUp },
-    ...(userRole === "admin" ? [{ title: "Users", url: "/users", icon: Users }] : []),
+    { title: "Leaderboard", url: "/leaderboard", icon: Trophy },
+    ...(userRole === "coach" || userRole === "admin" ? [
+      { title: "Sessions", url: "/sessions", icon: CalendarDays },
+      { title: "Roster", url: "/roster", icon: ClipboardList },
+      { title: "Position Fit", url: "/position-fit", icon: Crosshair },
+      { title: "Depth Chart", url: "/depth-chart", icon: ListOrdered },
+      { title: "Metrics", url: "/metrics", icon: Ruler },
+      { title: "Review", url: "/review", icon: AlertTriangle },
+    ] : []),
+    ...(userRole === "admin" ? [
+      { title: "Users", url: "/users", icon: Users },
+      { title: "Activity", url: "/activity", icon: History },
+    ] : []),
   ];
 
   const isActive = (path: string) => location.pathname === path;
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Goal } from '@/lib/goalUtils';
+
+/**
+ * Goals of one player, soonest deadline first
+ */
+export function useGoals(playerId: string | undefined) {
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refetch = useCallback(async () => {
+    if (!playerId) {
+      setGoals([]);
+      return;
+    }
+
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from('goals')
+      .select('*')
+      .eq('player_id', playerId)
+      .order('deadline', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching goals:', error.message);
+    }
+
+    setGoals(data || []);
+    setIsLoading(false);
+  }, [playerId]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { goals, isLoading, refetch };
+}
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { MetricDefinition } from '@/lib/performanceUtils';
+import type { MetricComponent } from '@/lib/composites';
+
+interface MetricRegistry {
+  metrics: MetricDefinition[];
+  components: MetricComponent[];
+}
+
+// Shared across all components so the registry is only fetched once per page load
+let metricsRequest: Promise<MetricRegistry> | null = null;
+
+async function fetchMetricDefinitions(): Promise<MetricRegistry> {
+  const [{ data, error }, { data: components, error: componentsError }] = await Promise.all([
+    supabase
+      .from('metrics')
+      .select('*')
+      .order('display_order', { ascending: true })
+      .order('label', { ascending: true }),
+    supabase
+      .from('metric_components')
+      .select('composite_key, component_key, weight'),
+  ]);
+
+  if (error) {
+    throw error;
+  }
+  if (componentsError) {
+    throw componentsError;
+  }
+
+  return {
+    metrics: data || [],
+    components: (components || []).map(c => ({ ...c, weight: Number(c.weight) })),
+  };
+}
+
+function loadMetricDefinitions(): Promise<MetricRegistry> {
+  if (!metricsRequest) {
+    metricsRequest = fetchMetricDefinitions().catch((error) => {
+      // Allow a retry on the next call
+      metricsRequest = null;
+      throw error;
+    });
+  }
+  return metricsRequest;
+}
+
+/**
+ * Drop the cached registry, e.g. after a coach added or edited a metric
+ */
+export function invalidateMetrics() {
+  metricsRequest = null;
+}
+
+interface UseMetricsOptions {
+  includeInactive?: boolean;
+  // Derived and composite metrics are calculated, never recorded; leave them out of entry forms
+  measuredOnly?: boolean;
+}
+
+export function useMetrics({ includeInactive = false, measuredOnly = false }: UseMetricsOptions = {}) {
+  const [allMetrics, setAllMetrics] = useState<MetricDefinition[]>([]);
+  const [components, setComponents] = useState<MetricComponent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const registry = await loadMetricDefinitions();
+      setAllMetrics(registry.metrics);
+      setComponents(registry.components);
+      setError(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load metrics';
+      console.error('Error fetching metrics:', errorMessage);
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const refetch = useCallback(() => {
+    invalidateMetrics();
+    return load();
+  }, [load]);
+
+  const metrics = useMemo(
+    () => allMetrics.filter(m =>
+      (includeInactive || m.is_active) && (!measuredOnly || m.kind === 'measured')
+    ),
+    [allMetrics, includeInactive, measuredOnly]
+  );
+
+  // Composite definitions; calculations need every metric, active or not
+  return { metrics, allMetrics, components, isLoading, error, refetch };
+}
@@ -1,6 +1,11 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { normalizeMetrics, getAllMetricTypes, type MetricData, type NormalizedMetric } from '@/lib/performanceUtils';
+import { normalizeMetrics, type MetricData, type NormalizedMetric } from '@/lib/performanceUtils';
+import { useMetrics } from '@/hooks/useMetrics';
+import { selectLatestEntries, type AggregatableEntry } from '@/lib/aggregation';
+import { withCalculatedEntries } from '@/lib/composites';
+import { buildNormalizationContext, type NormalizationContext, type NormalizationStrategy } from '@/lib/normalization';
+import type { AggregationScope } from '@/lib/seasonUtils';
 
 export type ComparisonMode = 'best' | 'position' | 'offense' | 'defense' | 'compare';
 
@@ -29,6 +34,10 @@ interface UsePerformanceComparisonProps {
   comparePlayer1Id?: string;
   comparePlayer2Id?: string;
   compareBaseline?: 'best' | 'offense' | 'defense';
+  scope?: AggregationScope;
+  normalization?: NormalizationStrategy;
+  // Refetch when performance entries change; off for one-off snapshots such as the report card
+  realtime?: boolean;
 }
 
 export function usePerformanceComparison({
@@ -38,7 +47,10 @@ export function usePerformanceComparison({
   userRole,
   comparePlayer1Id,
   comparePlayer2Id,
-  compareBaseline
+  compareBaseline,
+  scope = {},
+  normalization = 'relative_to_best',
+  realtime = true
 }: UsePerformanceComparisonProps) {
   const [data, setData] = useState<ComparisonData>({});
   const [isLoading, setIsLoading] = useState(false);
@@ -46,13 +58,16 @@ export function usePerformanceComparison({
   const [allMetricsData, setAllMetricsData] = useState<MetricData[]>([]);
   const [positionLabel, setPositionLabel] = useState<string | undefined>();
   const [comparePlayerNames, setComparePlayerNames] = useState<{ player1: string; player2: string } | undefined>();
+  const { metrics, allMetrics, components } = useMetrics();
 
   useEffect(() => {
     fetchComparisonData();
-  }, [mode, selectedPosition, currentUserId, comparePlayer1Id, comparePlayer2Id, compareBaseline]);
+  }, [mode, selectedPosition, currentUserId, comparePlayer1Id, comparePlayer2Id, compareBaseline, metrics, scope.season_id, scope.active_only, scope.exclude_flagged, normalization]);
 
   // Set up realtime subscription for performance entries
   useEffect(() => {
+    if (!realtime) return;
+
     const channel = supabase
       .channel('performance-entries-changes')
       .on(
@@ -72,9 +87,12 @@ export function usePerformanceComparison({
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [mode, selectedPosition, currentUserId, comparePlayer1Id, comparePlayer2Id, compareBaseline]);
+  }, [mode, selectedPosition, currentUserId, comparePlayer1Id, comparePlayer2Id, compareBaseline, metrics, scope.season_id, scope.active_only, scope.exclude_flagged, normalization, realtime]);
 
   async function fetchComparisonData() {
+    // Normalization needs the metric registry
+    if (metrics.length === 0) return;
+
     setIsLoading(true);
     setError(null);
     try {
@@ -87,8 +105,8 @@ export function usePerformanceComparison({
         }
 
         // Fetch data for both players
-        const player1Data = await fetchLatestPlayerMetrics(comparePlayer1Id);
-        const player2Data = await fetchLatestPlayerMetrics(comparePlayer2Id);
+        const player1Data = await fetchLatestPlayerMetrics(comparePlayer1Id, scope);
+        const player2Data = await fetchLatestPlayerMetrics(comparePlayer2Id, scope);
 
         // Fetch benchmark based on compareBaseline
         const baselineMode = compareBaseline || 'best';
@@ -98,7 +116,8 @@ export function usePerformanceComparison({
             body: {
               mode: baselineMode,
               ...(selectedPosition && { position: selectedPosition }),
-              currentPlayerId: comparePlayer1Id
+              currentPlayerId: comparePlayer1Id,
+              ...scope
             }
           }
         );
@@ -119,6 +138,7 @@ export function usePerformanceComparison({
         }
 
         setAllMetricsData(allData as MetricData[]);
+        const context = buildContext(allData);
 
         const result: ComparisonData = {};
 
@@ -136,7 +156,7 @@ export function usePerformanceComparison({
               benchmarkLabel = 'Best Defense';
               break;
           }
-          result[benchmarkLabel] = normalizeMetrics(benchmarks, allData as MetricData[]);
+          result[benchmarkLabel] = normalizeMetrics(benchmarks, context, metrics, normalization);
         }
 
         // Fetch player names
@@ -162,12 +182,12 @@ export function usePerformanceComparison({
 
         // Add player 1 (Gold)
         if (player1Data.length > 0) {
-          result[player1Name] = normalizeMetrics(player1Data, allData as MetricData[]);
+          result[player1Name] = normalizeMetrics(player1Data, context, metrics, normalization);
         }
 
         // Add player 2 (Silver)
         if (player2Data.length > 0) {
-          result[player2Name] = normalizeMetrics(player2Data, allData as MetricData[]);
+          result[player2Name] = normalizeMetrics(player2Data, context, metrics, normalization);
         }
 
         setData(result);
@@ -185,7 +205,7 @@ export function usePerformanceComparison({
       }
 
       // Always try to show current user's data (regardless of role)
-      const currentData = await fetchLatestPlayerMetrics(currentUserId);
+      const currentData = await fetchLatestPlayerMetrics(currentUserId, scope);
       
       // Fetch benchmark data from backend endpoint
       const { data: benchmarkResponse, error: benchmarkError } = await supabase.functions.invoke(
@@ -194,7 +214,8 @@ export function usePerformanceComparison({
           body: {
             mode,
             ...(selectedPosition && { position: selectedPosition }),
-            currentPlayerId: currentUserId
+            currentPlayerId: currentUserId,
+            ...scope
           }
         }
       );
@@ -215,12 +236,13 @@ export function usePerformanceComparison({
       }
 
       setAllMetricsData(allData as MetricData[]);
+      const context = buildContext(allData);
 
       const result: ComparisonData = {};
 
       // Add current user's data
       if (currentData.length > 0) {
-        result['You'] = normalizeMetrics(currentData, allData as MetricData[]);
+        result['You'] = normalizeMetrics(currentData, context, metrics, normalization);
       }
 
       // Add comparison benchmark based on mode
@@ -243,7 +265,7 @@ export function usePerformanceComparison({
             benchmarkLabel = 'Best Defense';
             break;
         }
-        result[benchmarkLabel] = normalizeMetrics(benchmarks, allData as MetricData[]);
+        result[benchmarkLabel] = normalizeMetrics(benchmarks, context, metrics, normalization);
       }
 
       // Fetch and add average data for this mode
@@ -271,7 +293,8 @@ export function usePerformanceComparison({
           body: {
             player_id: currentUserId,
             position: positionParam,
-            unit: unitParam
+            unit: unitParam,
+            ...scope
           }
         }
       );
@@ -300,7 +323,7 @@ export function usePerformanceComparison({
             metric_type: avg.metric_type,
             value: avg.average_value
           }));
-          result[averageLabel] = normalizeMetrics(avgMetrics, allData as MetricData[]);
+          result[averageLabel] = normalizeMetrics(avgMetrics, context, metrics, normalization);
         }
       }
 
@@ -315,55 +338,73 @@ export function usePerformanceComparison({
     }
   }
 
-  return {
-    data,
-    isLoading,
-    error,
-    allMetricsData,
-    refetch: fetchComparisonData,
-    positionLabel,
-    comparePlayerNames
-  };
+  // Scores are relative to the benchmark group's daily results and each member's latest value
+  function buildContext(allData: AggregatableEntry[]): NormalizationContext {
+    return buildNormalizationContext(allData, selectLatestEntries(allData, metrics), metrics);
+  }
 
-  async function fetchLatestPlayerMetrics(playerId: string): Promise<MetricData[]> {
+  // Latest values from the same entries as the benchmarks they are compared against: within the season,
+  // and without unconfirmed implausible values when those are excluded
+  async function fetchLatestPlayerMetrics(playerId: string, scope: AggregationScope): Promise<MetricData[]> {
     try {
-      // Get best daily entries for this player
-      const { data: bestEntries, error } = await supabase
-        .rpc('get_best_daily_entries');
+      let entriesQuery = supabase
+        .from('performance_entries')
+        .select('id, player_id, metric_type, value, entry_date, created_at, attempt_number')
+        .is('deleted_at', null)
+        .eq('status', 'approved')
+        .eq('player_id', playerId);
+
+      if (scope.season_id) {
+        const { data: season, error: seasonError } = await supabase
+          .from('seasons')
+          .select('starts_on, ends_on')
+          .eq('id', scope.season_id)
+          .maybeSingle();
+
+        if (seasonError || !season) {
+          console.error('Error fetching season:', seasonError?.message ?? 'Season not found');
+          return [];
+        }
 
-      if (error) {
-        console.error('Error fetching player metrics:', error);
-        return [];
+        entriesQuery = entriesQuery.gte('entry_date', season.starts_on).lte('entry_date', season.ends_on);
+      }
+
+      if (scope.exclude_flagged) {
+        entriesQuery = entriesQuery.is('flag_reason', null);
       }
 
-      if (!bestEntries || bestEntries.length === 0) {
+      const [{ data: entries, error }, { data: measurements }] = await Promise.all([
+        entriesQuery,
+        supabase
+          .from('body_measurements')
+          .select('player_id, measured_on, weight_kg')
+          .eq('player_id', playerId),
+      ]);
+
+      if (error) {
+        console.error('Error fetching player metrics:', error);
         return [];
       }
 
-      // Filter for this player and get the most recent entry for each metric
-      const playerEntries = bestEntries.filter((e: any) => e.player_id === playerId);
-      const latestByMetric = new Map<string, MetricData>();
-      
-      playerEntries.forEach((entry: any) => {
-        const existing = latestByMetric.get(entry.metric_type);
-        const currentDate = entry.entry_date;
-        const existingDate = existing ? (existing as any).entry_date : null;
-        
-        if (!existing || currentDate > existingDate) {
-          latestByMetric.set(entry.metric_type, {
-            metric_type: entry.metric_type,
-            value: entry.value,
-          } as MetricData);
-        }
-      });
+      const allEntries = withCalculatedEntries(entries || [], allMetrics, measurements || [], components);
 
-      return Array.from(latestByMetric.values());
+      return selectLatestEntries(allEntries, metrics).map(entry => ({
+        metric_type: entry.metric_type,
+        value: Number(entry.value),
+      }));
     } catch (error) {
       console.error('Error fetching player metrics:', error);
       return [];
     }
   }
 
-
-  return { data, isLoading, error, allMetricsData, refetch: fetchComparisonData };
+  return {
+    data,
+    isLoading,
+    error,
+    allMetricsData,
+    refetch: fetchComparisonData,
+    positionLabel,
+    comparePlayerNames
+  };
 }
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { checkPlausibility, type PlausibilityIssue } from '@/lib/plausibility';
+import type { MetricDefinition } from '@/lib/performanceUtils';
+
+interface HistoryEntry {
+  id: string;
+  player_id: string;
+  metric_type: string;
+  value: number;
+}
+
+/**
+ * Warns about implausible values while results are entered for the given players.
+ * Uses the same history as the database check: approved, unflagged entries outside the trash, most recent first.
+ */
+export function usePlausibilityCheck(playerIds: string[]) {
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const playerKey = [...new Set(playerIds.filter(Boolean))].sort().join(',');
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      if (!playerKey) {
+        setHistory([]);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('performance_entries')
+        .select('id, player_id, metric_type, value')
+        .in('player_id', playerKey.split(','))
+        .is('deleted_at', null)
+        .eq('status', 'approved')
+        .is('flag_reason', null)
+        .order('entry_date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching entry history:', error.message);
+      }
+
+      setHistory(data || []);
+    };
+
+    fetchHistory();
+  }, [playerKey]);
+
+  // `excludeEntryId` leaves out the entry being edited
+  const check = useCallback((
+    playerId: string,
+    metric: MetricDefinition | undefined,
+    value: number,
+    excludeEntryId?: string
+  ): PlausibilityIssue | null => {
+    if (!playerId || !metric || !Number.isFinite(value) || value <= 0) return null;
+
+    const values = history
+      .filter(e => e.player_id === playerId && e.metric_type === metric.key && e.id !== excludeEntryId)
+      .map(e => Number(e.value));
+
+    return checkPlausibility(value, metric, values);
+  }, [history]);
+
+  return { check };
+}
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Season } from '@/lib/seasonUtils';
+
+export function useSeasons() {
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from('seasons')
+      .select('*')
+      .order('starts_on', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching seasons:', error.message);
+    }
+
+    setSeasons(data || []);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  const currentSeason = useMemo(() => seasons.find(s => s.is_current) ?? null, [seasons]);
+
+  return { seasons, currentSeason, isLoading, refetch };
+}
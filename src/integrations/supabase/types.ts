@@ -14,60 +14,437 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          operation: string
+          row_id: string | null
+          table_name: string
+          target_user_id: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          operation: string
+          row_id?: string | null
+          table_name: string
+          target_user_id?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          operation?: string
+          row_id?: string | null
+          table_name?: string
+          target_user_id?: string | null
+        }
+        Relationships: []
+      }
+      body_measurements: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          height_cm: number | null
+          id: string
+          measured_on: string
+          notes: string | null
+          player_id: string
+          weight_kg: number | null
+          wingspan_cm: number | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          height_cm?: number | null
+          id?: string
+          measured_on?: string
+          notes?: string | null
+          player_id: string
+          weight_kg?: number | null
+          wingspan_cm?: number | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          height_cm?: number | null
+          id?: string
+          measured_on?: string
+          notes?: string | null
+          player_id?: string
+          weight_kg?: number | null
+          wingspan_cm?: number | null
+        }
+        Relationships: []
+      }
+      depth_chart_slots: {
+        Row: {
+          depth: number
+          player_id: string | null
+          version_id: string
+        }
+        Insert: {
+          depth: number
+          player_id?: string | null
+          version_id: string
+        }
+        Update: {
+          depth?: number
+          player_id?: string | null
+          version_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "depth_chart_slots_version_id_fkey"
+            columns: ["version_id"]
+            isOneToOne: false
+            referencedRelation: "depth_chart_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      depth_chart_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          note: string | null
+          position: string
+          season_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          position: string
+          season_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          position?: string
+          season_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "depth_chart_versions_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goals: {
+        Row: {
+          achieved_at: string | null
+          achieved_entry_id: string | null
+          created_at: string
+          created_by: string | null
+          deadline: string
+          id: string
+          metric_type: string
+          notes: string | null
+          player_id: string
+          target_value: number
+        }
+        Insert: {
+          achieved_at?: string | null
+          achieved_entry_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          deadline: string
+          id?: string
+          metric_type: string
+          notes?: string | null
+          player_id: string
+          target_value: number
+        }
+        Update: {
+          achieved_at?: string | null
+          achieved_entry_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          deadline?: string
+          id?: string
+          metric_type?: string
+          notes?: string | null
+          player_id?: string
+          target_value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goals_achieved_entry_id_fkey"
+            columns: ["achieved_entry_id"]
+            isOneToOne: false
+            referencedRelation: "performance_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goals_metric_type_fkey"
+            columns: ["metric_type"]
+            isOneToOne: false
+            referencedRelation: "metrics"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      metric_components: {
+        Row: {
+          component_key: string
+          composite_key: string
+          weight: number
+        }
+        Insert: {
+          component_key: string
+          composite_key: string
+          weight?: number
+        }
+        Update: {
+          component_key?: string
+          composite_key?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "metric_components_component_key_fkey"
+            columns: ["component_key"]
+            isOneToOne: false
+            referencedRelation: "metrics"
+            referencedColumns: ["key"]
+          },
+          {
+            foreignKeyName: "metric_components_composite_key_fkey"
+            columns: ["composite_key"]
+            isOneToOne: false
+            referencedRelation: "metrics"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      metrics: {
+        Row: {
+          aggregation: Database["public"]["Enums"]["metric_aggregation"]
+          baseline_factor: number
+          created_at: string | null
+          direction: Database["public"]["Enums"]["metric_direction"]
+          display_order: number
+          formula: string | null
+          formula_param: number | null
+          input_step: number
+          is_active: boolean
+          key: string
+          kind: Database["public"]["Enums"]["metric_kind"]
+          label: string
+          plausible_max: number | null
+          plausible_min: number | null
+          reference_max: number | null
+          reference_min: number | null
+          source_metric: string | null
+          unit: string
+        }
+        Insert: {
+          aggregation?: Database["public"]["Enums"]["metric_aggregation"]
+          baseline_factor: number
+          created_at?: string | null
+          direction?: Database["public"]["Enums"]["metric_direction"]
+          display_order?: number
+          formula?: string | null
+          formula_param?: number | null
+          input_step?: number
+          is_active?: boolean
+          key: string
+          kind?: Database["public"]["Enums"]["metric_kind"]
+          label: string
+          plausible_max?: number | null
+          plausible_min?: number | null
+          reference_max?: number | null
+          reference_min?: number | null
+          source_metric?: string | null
+          unit: string
+        }
+        Update: {
+          aggregation?: Database["public"]["Enums"]["metric_aggregation"]
+          baseline_factor?: number
+          created_at?: string | null
+          direction?: Database["public"]["Enums"]["metric_direction"]
+          display_order?: number
+          formula?: string | null
+          formula_param?: number | null
+          input_step?: number
+          is_active?: boolean
+          key?: string
+          kind?: Database["public"]["Enums"]["metric_kind"]
+          label?: string
+          plausible_max?: number | null
+          plausible_min?: number | null
+          reference_max?: number | null
+          reference_min?: number | null
+          source_metric?: string | null
+          unit?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "metrics_source_metric_fkey"
+            columns: ["source_metric"]
+            isOneToOne: false
+            referencedRelation: "metrics"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
       performance_entries: {
         Row: {
+          attempt_number: number
           created_at: string | null
           created_by: string
+          deleted_at: string | null
+          deleted_by: string | null
           entry_date: string
+          flag_reason: string | null
+          flagged_at: string | null
           id: string
-          metric_type: Database["public"]["Enums"]["metric_type"]
+          metric_type: string
           player_id: string
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          session_id: string | null
+          status: Database["public"]["Enums"]["entry_status"]
           unit: string
           value: number
         }
         Insert: {
+          attempt_number?: number
           created_at?: string | null
           created_by: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           entry_date: string
+          flag_reason?: string | null
+          flagged_at?: string | null
           id?: string
-          metric_type: Database["public"]["Enums"]["metric_type"]
+          metric_type: string
           player_id: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          session_id?: string | null
+          status?: Database["public"]["Enums"]["entry_status"]
           unit: string
           value: number
         }
         Update: {
+          attempt_number?: number
           created_at?: string | null
           created_by?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           entry_date?: string
+          flag_reason?: string | null
+          flagged_at?: string | null
           id?: string
-          metric_type?: Database["public"]["Enums"]["metric_type"]
+          metric_type?: string
           player_id?: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          session_id?: string | null
+          status?: Database["public"]["Enums"]["entry_status"]
           unit?: string
           value?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "performance_entries_metric_type_fkey"
+            columns: ["metric_type"]
+            isOneToOne: false
+            referencedRelation: "metrics"
+            referencedColumns: ["key"]
+          },
+          {
+            foreignKeyName: "performance_entries_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "test_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       player_positions: {
         Row: {
           created_at: string | null
+          ended_on: string | null
           id: string
+          is_primary: boolean
           player_id: string
           position: Database["public"]["Enums"]["football_position"]
+          started_on: string
         }
         Insert: {
           created_at?: string | null
+          ended_on?: string | null
           id?: string
+          is_primary?: boolean
           player_id: string
           position?: Database["public"]["Enums"]["football_position"]
+          started_on?: string
         }
         Update: {
           created_at?: string | null
+          ended_on?: string | null
           id?: string
+          is_primary?: boolean
           player_id?: string
           position?: Database["public"]["Enums"]["football_position"]
+          started_on?: string
         }
         Relationships: []
       }
+      position_metric_weights: {
+        Row: {
+          metric_key: string
+          position: string
+          updated_at: string
+          updated_by: string | null
+          weight: number
+        }
+        Insert: {
+          metric_key: string
+          position: string
+          updated_at?: string
+          updated_by?: string | null
+          weight: number
+        }
+        Update: {
+          metric_key?: string
+          position?: string
+          updated_at?: string
+          updated_by?: string | null
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "position_metric_weights_metric_key_fkey"
+            columns: ["metric_key"]
+            isOneToOne: false
+            referencedRelation: "metrics"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string | null
@@ -95,6 +472,123 @@ export type Database = {
         }
         Relationships: []
       }
+      roster_memberships: {
+        Row: {
+          created_at: string | null
+          id: string
+          joined_on: string
+          left_on: string | null
+          notes: string | null
+          player_id: string
+          status: Database["public"]["Enums"]["roster_status"]
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          joined_on?: string
+          left_on?: string | null
+          notes?: string | null
+          player_id: string
+          status?: Database["public"]["Enums"]["roster_status"]
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          joined_on?: string
+          left_on?: string | null
+          notes?: string | null
+          player_id?: string
+          status?: Database["public"]["Enums"]["roster_status"]
+        }
+        Relationships: []
+      }
+      seasons: {
+        Row: {
+          created_at: string | null
+          ends_on: string
+          id: string
+          is_current: boolean
+          name: string
+          starts_on: string
+        }
+        Insert: {
+          created_at?: string | null
+          ends_on: string
+          id?: string
+          is_current?: boolean
+          name: string
+          starts_on: string
+        }
+        Update: {
+          created_at?: string | null
+          ends_on?: string
+          id?: string
+          is_current?: boolean
+          name?: string
+          starts_on?: string
+        }
+        Relationships: []
+      }
+      team_settings: {
+        Row: {
+          id: boolean
+          leaderboard_show_names: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          leaderboard_show_names?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          leaderboard_show_names?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      test_sessions: {
+        Row: {
+          conditions: string | null
+          conducted_by: string | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          location: string | null
+          name: string
+          session_date: string
+          surface: Database["public"]["Enums"]["test_surface"] | null
+          timing_method: Database["public"]["Enums"]["timing_method"] | null
+        }
+        Insert: {
+          conditions?: string | null
+          conducted_by?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          location?: string | null
+          name: string
+          session_date: string
+          surface?: Database["public"]["Enums"]["test_surface"] | null
+          timing_method?: Database["public"]["Enums"]["timing_method"] | null
+        }
+        Update: {
+          conditions?: string | null
+          conducted_by?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          location?: string | null
+          name?: string
+          session_date?: string
+          surface?: Database["public"]["Enums"]["test_surface"] | null
+          timing_method?: Database["public"]["Enums"]["timing_method"] | null
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           id: string
@@ -115,17 +609,75 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      active_roster: {
+        Row: {
+          joined_on: string | null
+          player_id: string | null
+        }
+        Relationships: []
+      }
+      best_daily_entries: {
+        Row: {
+          attempt_count: number | null
+          attempt_number: number | null
+          created_at: string | null
+          created_by: string | null
+          entry_date: string | null
+          id: string | null
+          metric_type: string | null
+          player_id: string | null
+          unit: string | null
+          value: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "performance_entries_metric_type_fkey"
+            columns: ["metric_type"]
+            isOneToOne: false
+            referencedRelation: "metrics"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      latest_player_metrics: {
+        Row: {
+          attempt_count: number | null
+          attempt_number: number | null
+          created_at: string | null
+          created_by: string | null
+          entry_date: string | null
+          id: string | null
+          metric_type: string | null
+          player_id: string | null
+          unit: string | null
+          value: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "performance_entries_metric_type_fkey"
+            columns: ["metric_type"]
+            isOneToOne: false
+            referencedRelation: "metrics"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
     }
     Functions: {
+      evaluate_goals: {
+        Args: { _metric_type: string; _player_id: string }
+        Returns: undefined
+      }
       get_best_daily_entries: {
         Args: never
         Returns: {
+          attempt_count: number
+          attempt_number: number
           created_at: string
           created_by: string
           entry_date: string
           id: string
-          metric_type: Database["public"]["Enums"]["metric_type"]
+          metric_type: string
           player_id: string
           unit: string
           value: number
@@ -138,24 +690,39 @@ export type Database = {
         }
         Returns: boolean
       }
+      purge_deleted_entries: { Args: never; Returns: number }
+      save_depth_chart: {
+        Args: {
+          _note?: string
+          _player_ids: string[]
+          _position: string
+          _season_id: string
+        }
+        Returns: string
+      }
+      trash_retention: { Args: never; Returns: unknown }
     }
     Enums: {
       app_role: "admin" | "coach" | "player"
+      entry_status: "pending" | "approved" | "rejected"
       football_position: "QB" | "WR" | "C" | "DB" | "B" | "unassigned"
-      metric_type:
-        | "vertical_jump"
-        | "jump_gather"
-        | "40yd_dash"
-        | "shuttle_5_10_5"
-        | "pushups_1min"
-        | "30yd_dash"
-        | "3_cone_drill"
+      metric_aggregation: "best" | "mean_best_two" | "last"
+      metric_direction: "higher_is_better" | "lower_is_better"
+      metric_kind: "measured" | "derived" | "composite"
       position_type:
         | "quarterback"
         | "receiver"
         | "defensive_back"
         | "lineman"
         | "other"
+      roster_status: "active" | "inactive"
+      test_surface:
+        | "indoor"
+        | "turf"
+        | "grass"
+        | "track"
+        | "other"
+      timing_method: "hand" | "electronic" | "video"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -284,16 +851,11 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "coach", "player"],
+      entry_status: ["pending", "approved", "rejected"],
       football_position: ["QB", "WR", "C", "DB", "B", "unassigned"],
-      metric_type: [
-        "vertical_jump",
-        "jump_gather",
-        "40yd_dash",
-        "shuttle_5_10_5",
-        "pushups_1min",
-        "30yd_dash",
-        "3_cone_drill",
-      ],
+      metric_aggregation: ["best", "mean_best_two", "last"],
+      metric_direction: ["higher_is_better", "lower_is_better"],
+      metric_kind: ["measured", "derived", "composite"],
       position_type: [
         "quarterback",
         "receiver",
@@ -301,6 +863,9 @@ export const Constants = {
         "lineman",
         "other",
       ],
+      roster_status: ["active", "inactive"],
+      test_surface: ["indoor", "turf", "grass", "track", "other"],
+      timing_method: ["hand", "electronic", "video"],
     },
   },
 } as const
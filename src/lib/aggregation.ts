@@ -0,0 +1,2 @@
+// The aggregation rules live next to the edge functions so both runtimes share one implementation
+export * from "../../supabase/functions/_shared/aggregation.ts";
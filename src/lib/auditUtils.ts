@@ -0,0 +1,70 @@
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+export type AuditLogEntry = Tables<"audit_log">;
+export type AuditOperation = 'INSERT' | 'UPDATE' | 'DELETE' | 'PASSWORD_RESET';
+
+export const AUDIT_TABLE_LABELS: Record<string, string> = {
+  performance_entries: "Performance entry",
+  user_roles: "Role",
+  player_positions: "Position",
+  profiles: "Profile",
+  body_measurements: "Body measurement",
+  users: "Account",
+};
+
+export const AUDIT_OPERATION_LABELS: Record<AuditOperation, string> = {
+  INSERT: "Created",
+  UPDATE: "Updated",
+  DELETE: "Deleted",
+  PASSWORD_RESET: "Password reset",
+};
+
+export interface AuditChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+// Bookkeeping columns that change without anyone editing the row
+const IGNORED_FIELDS = new Set(['id', 'created_at', 'updated_at']);
+
+// The columns worth showing for a created or deleted row
+const SUMMARY_FIELDS: Record<string, string[]> = {
+  performance_entries: ['metric_type', 'value', 'unit', 'entry_date', 'attempt_number'],
+  user_roles: ['role'],
+  player_positions: ['position', 'is_primary', 'started_on', 'ended_on'],
+  profiles: ['username', 'first_name', 'last_name'],
+  body_measurements: ['measured_on', 'weight_kg', 'height_cm', 'wingspan_cm'],
+};
+
+const asRecord = (data: Json | null): Record<string, Json> =>
+  data && typeof data === 'object' && !Array.isArray(data) ? (data as Record<string, Json>) : {};
+
+const formatAuditValue = (value: Json | undefined) =>
+  value === null || value === undefined ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+/**
+ * Fields that differ between the old and new row of an update
+ */
+export function describeChanges(entry: Pick<AuditLogEntry, 'old_data' | 'new_data'>): AuditChange[] {
+  const oldData = asRecord(entry.old_data);
+  const newData = asRecord(entry.new_data);
+  const fields = new Set([...Object.keys(oldData), ...Object.keys(newData)]);
+
+  return [...fields]
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .filter(field => JSON.stringify(oldData[field] ?? null) !== JSON.stringify(newData[field] ?? null))
+    .map(field => ({ field, from: formatAuditValue(oldData[field]), to: formatAuditValue(newData[field]) }));
+}
+
+/**
+ * One-line description of a created or deleted row, e.g. "metric_type: dash_30, value: 4.2"
+ */
+export function summarizeRow(entry: Pick<AuditLogEntry, 'table_name' | 'old_data' | 'new_data'>): string {
+  const data = asRecord(entry.new_data ?? entry.old_data);
+  const fields = SUMMARY_FIELDS[entry.table_name] ?? Object.keys(data).filter(f => !IGNORED_FIELDS.has(f));
+  return fields
+    .filter(field => data[field] !== undefined && data[field] !== null)
+    .map(field => `${field}: ${formatAuditValue(data[field])}`)
+    .join(', ');
+}
@@ -0,0 +1,2 @@
+// Band statistics are shared with the edge functions so the chart matches server-side bands
+export * from "../../supabase/functions/_shared/bands.ts";
@@ -0,0 +1,2 @@
+// Composite metrics are calculated the same way in the browser and the edge functions
+export * from "../../supabase/functions/_shared/composites.ts";
@@ -0,0 +1,86 @@
+import type { Tables } from "@/integrations/supabase/types";
+import type { RosterMembership, Season } from "@/lib/seasonUtils";
+
+export type DepthChartVersion = Tables<"depth_chart_versions">;
+export type DepthChartSlot = Tables<"depth_chart_slots">;
+
+// Player per depth, starter first; null for an empty slot
+export type DepthChartLineup = (string | null)[];
+
+export const DEPTH_LABELS = ['Starter', 'Backup', 'Third String'];
+export const DEPTH_COUNT = DEPTH_LABELS.length;
+
+// Stands in for a player whose account was deleted: their slot in past versions stays filled
+export const DELETED_PLAYER = 'deleted';
+
+export interface DepthChartChange {
+  depth: number;
+  from: string | null;
+  to: string | null;
+}
+
+export function emptyLineup(): DepthChartLineup {
+  return Array(DEPTH_COUNT).fill(null);
+}
+
+/**
+ * The lineup stored in a version's slots
+ */
+export function lineupFromSlots(slots: Pick<DepthChartSlot, 'depth' | 'player_id'>[]): DepthChartLineup {
+  const lineup = emptyLineup();
+  slots.forEach(slot => {
+    lineup[slot.depth - 1] = slot.player_id ?? DELETED_PLAYER;
+  });
+  return lineup;
+}
+
+/**
+ * A saved lineup to continue editing from: slots of deleted players are empty
+ */
+export function editableLineup(lineup: DepthChartLineup): DepthChartLineup {
+  return lineup.map(id => (id === DELETED_PLAYER ? null : id));
+}
+
+/**
+ * Place a player at a depth (0-based). A player already on the chart swaps places with the
+ * one at the target depth; a new player replaces them.
+ */
+export function placePlayer(lineup: DepthChartLineup, playerId: string, depth: number): DepthChartLineup {
+  const next = [...lineup];
+  const currentDepth = next.indexOf(playerId);
+  if (currentDepth >= 0) {
+    next[currentDepth] = next[depth];
+  }
+  next[depth] = playerId;
+  return next;
+}
+
+export function removePlayer(lineup: DepthChartLineup, playerId: string): DepthChartLineup {
+  return lineup.map(id => (id === playerId ? null : id));
+}
+
+/**
+ * Filled slots close ranks, so a lineup can be saved as an ordered list
+ */
+export function compactLineup(lineup: DepthChartLineup): string[] {
+  return lineup.filter((id): id is string => id !== null);
+}
+
+/**
+ * Depths whose player differs between two lineups
+ */
+export function diffLineups(previous: DepthChartLineup, current: DepthChartLineup): DepthChartChange[] {
+  return current
+    .map((to, index) => ({ depth: index + 1, from: previous[index] ?? null, to }))
+    .filter(change => change.from !== change.to);
+}
+
+/**
+ * Whether a roster membership overlaps the season at all
+ */
+export function isMemberDuring(
+  membership: Pick<RosterMembership, 'joined_on' | 'left_on'>,
+  season: Pick<Season, 'starts_on' | 'ends_on'>
+): boolean {
+  return membership.joined_on <= season.ends_on && (membership.left_on === null || membership.left_on >= season.starts_on);
+}
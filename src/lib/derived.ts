@@ -0,0 +1,2 @@
+// Derived metrics are calculated the same way in the browser and the edge functions
+export * from "../../supabase/functions/_shared/derived.ts";
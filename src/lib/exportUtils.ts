@@ -0,0 +1,128 @@
+import { Workbook } from "exceljs";
+import html2canvas from "html2canvas";
+import { jsPDF } from "jspdf";
+import type { MetricDefinition } from "@/lib/performanceUtils";
+
+export interface WorkbookEntry {
+  player_id: string;
+  metric_type: string;
+  value: number;
+  entry_date: string;
+  attempt_number: number;
+}
+
+export interface WorkbookPlayer {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+// Excel limits sheet names to 31 characters and forbids a few symbols
+const MAX_SHEET_NAME = 31;
+
+function sheetName(label: string, used: Set<string>): string {
+  const base = label.replace(/[\\/?*:[\]]/g, ' ').trim().slice(0, MAX_SHEET_NAME) || 'Sheet';
+  let name = base;
+  for (let i = 2; used.has(name.toLowerCase()); i++) {
+    const suffix = ` (${i})`;
+    name = base.slice(0, MAX_SHEET_NAME - suffix.length) + suffix;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * Team workbook with one sheet per metric, newest results first.
+ * Metrics without any entries get no sheet.
+ */
+export function buildTeamWorkbook(
+  entries: WorkbookEntry[],
+  players: WorkbookPlayer[],
+  metrics: MetricDefinition[]
+): Workbook {
+  const workbook = new Workbook();
+  const playerMap = new Map(players.map(p => [p.id, p]));
+  const usedNames = new Set<string>();
+
+  metrics.forEach(metric => {
+    const metricEntries = entries
+      .filter(e => e.metric_type === metric.key)
+      .sort((a, b) => b.entry_date.localeCompare(a.entry_date) || a.attempt_number - b.attempt_number);
+    if (metricEntries.length === 0) return;
+
+    const sheet = workbook.addWorksheet(sheetName(metric.label, usedNames));
+    sheet.columns = [
+      { header: 'Date', width: 12, style: { numFmt: 'yyyy-mm-dd' } },
+      { header: 'First Name', width: 16 },
+      { header: 'Last Name', width: 18 },
+      { header: `${metric.label} [${metric.unit}]`, width: 18 },
+      { header: 'Attempt', width: 8 },
+    ];
+
+    sheet.addRows(metricEntries.map(e => {
+      const player = playerMap.get(e.player_id);
+      return [
+        new Date(`${e.entry_date}T00:00:00Z`),
+        player?.first_name ?? '',
+        player?.last_name ?? '',
+        Number(e.value),
+        e.attempt_number,
+      ];
+    }));
+  });
+
+  return workbook;
+}
+
+export async function downloadWorkbook(workbook: Workbook, fileName: string): Promise<void> {
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+const PAGE_MARGIN_MM = 10;
+
+/**
+ * Render an element to an A4 PDF and download it.
+ * Children marked with `data-report-section` are captured one by one and never split across pages;
+ * a section taller than a page is scaled down to fit.
+ */
+export async function exportElementToPdf(element: HTMLElement, fileName: string): Promise<void> {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth() - PAGE_MARGIN_MM * 2;
+  const pageHeight = pdf.internal.pageSize.getHeight() - PAGE_MARGIN_MM * 2;
+  const background = getComputedStyle(element).backgroundColor;
+
+  const marked = Array.from(element.querySelectorAll<HTMLElement>('[data-report-section]'));
+  const sections = marked.length > 0 ? marked : [element];
+
+  let y = PAGE_MARGIN_MM;
+  for (const section of sections) {
+    const canvas = await html2canvas(section, { scale: 2, backgroundColor: background, useCORS: true, logging: false });
+    let width = pageWidth;
+    let height = (canvas.height * width) / canvas.width;
+    if (height > pageHeight) {
+      width = (width * pageHeight) / height;
+      height = pageHeight;
+    }
+
+    if (y > PAGE_MARGIN_MM && y + height > PAGE_MARGIN_MM + pageHeight) {
+      pdf.addPage();
+      y = PAGE_MARGIN_MM;
+    }
+
+    pdf.addImage(canvas.toDataURL('image/png'), 'PNG', PAGE_MARGIN_MM, y, width, height);
+    y += height + 4;
+  }
+
+  pdf.save(fileName);
+}
@@ -0,0 +1,59 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { isLowerBetter, type MetricDefinition } from "@/lib/performanceUtils";
+
+export type Goal = Tables<"goals">;
+export type GoalStatus = 'achieved' | 'active' | 'missed';
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  'achieved': 'Achieved',
+  'active': 'In progress',
+  'missed': 'Missed',
+};
+
+/**
+ * Achieved goals stay achieved; open goals are missed once their deadline (YYYY-MM-DD) has passed
+ */
+export function getGoalStatus(goal: Pick<Goal, 'achieved_at' | 'deadline'>, today: string): GoalStatus {
+  if (goal.achieved_at) return 'achieved';
+  return goal.deadline < today ? 'missed' : 'active';
+}
+
+/**
+ * Distance from a value to the goal's target, in the metric's unit.
+ * Zero or less means the target is met.
+ */
+export function remainingToGoal(
+  goal: Pick<Goal, 'target_value'>,
+  value: number,
+  metric: Pick<MetricDefinition, 'direction'> | undefined
+): number {
+  const target = Number(goal.target_value);
+  return isLowerBetter(metric) ? value - target : target - value;
+}
+
+/**
+ * Short target description, e.g. "≤ 4.2 s by Mar 1, 2027"
+ */
+export function formatGoalTarget(
+  goal: Pick<Goal, 'target_value' | 'deadline'>,
+  metric: Pick<MetricDefinition, 'direction' | 'unit'> | undefined
+): string {
+  const comparator = isLowerBetter(metric) ? '≤' : '≥';
+  const deadline = new Date(goal.deadline).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  return `${comparator} ${Number(goal.target_value)} ${metric?.unit ?? ''} by ${deadline}`.replace(/\s+/g, ' ');
+}
+
+/**
+ * The goal to highlight for a metric: the open goal with the nearest deadline,
+ * otherwise the most recently achieved one.
+ */
+export function pickFeaturedGoal(goals: Goal[], today: string): Goal | undefined {
+  const active = goals
+    .filter(g => getGoalStatus(g, today) === 'active')
+    .sort((a, b) => a.deadline.localeCompare(b.deadline));
+  if (active.length > 0) return active[0];
+
+  return goals
+    .filter(g => g.achieved_at)
+    .sort((a, b) => (b.achieved_at ?? '').localeCompare(a.achieved_at ?? ''))[0];
+}
@@ -0,0 +1,311 @@
+import { Workbook, type CellValue } from "exceljs";
+import { levenshtein, parseCsv } from "@/lib/csv";
+import { performanceEntrySchema } from "@/lib/validation";
+import type { MetricDefinition } from "@/lib/performanceUtils";
+
+export interface ImportPlayer {
+  id: string;
+  username: string;
+  first_name: string;
+  last_name: string;
+}
+
+export type ImportFormat = 'long' | 'wide';
+export type ImportRowStatus = 'new' | 'duplicate' | 'error';
+
+export interface ImportRow {
+  // Line in the spreadsheet, counting the header as line 1
+  rowNumber: number;
+  playerText: string;
+  metricText: string;
+  dateText: string;
+  valueText: string;
+  playerId: string | null;
+  // Closest players when the name did not match exactly
+  suggestions: ImportPlayer[];
+  metricKey: string | null;
+  entryDate: string | null;
+  value: number | null;
+  errors: string[];
+  duplicate: boolean;
+}
+
+export interface ParsedImport {
+  format: ImportFormat;
+  rows: ImportRow[];
+}
+
+const MAX_SUGGESTIONS = 3;
+
+// Header aliases, compared after normalizeHeader
+const HEADER_ALIASES = {
+  username: ['username', 'user', 'login'],
+  name: ['player', 'name', 'playername', 'athlete', 'fullname'],
+  firstName: ['firstname', 'first', 'playerfirstname'],
+  lastName: ['lastname', 'last', 'playerlastname', 'surname'],
+  date: ['date', 'entrydate', 'testdate'],
+  metric: ['metric', 'metrictype', 'drill', 'exercise', 'test'],
+  value: ['value', 'result', 'score'],
+  ignored: ['unit', 'notes', 'attempt', 'attemptnumber'],
+};
+
+export const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/\[.*?\]/g, '').replace(/[^a-z0-9]/g, '');
+
+export const normalizeName = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9, ]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Dates come back as UTC midnight, formulas and rich text as objects
+function cellText(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if (typeof value !== 'object') return String(value);
+  if ('result' in value) return cellText(value.result as CellValue);
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('text' in value) return String(value.text);
+  return '';
+}
+
+/**
+ * Read the first sheet of a CSV or Excel (.xlsx) file as rows of text cells
+ */
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  if (/\.(csv|txt)$/i.test(file.name)) {
+    return parseCsv(await file.text());
+  }
+  if (!/\.xlsx$/i.test(file.name)) {
+    throw new Error('Unsupported file type: use a CSV or .xlsx file (save older .xls files as .xlsx first)');
+  }
+
+  const workbook = new Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow(row => {
+    const cells = Array.from({ length: row.cellCount }, (_, i) => cellText(row.getCell(i + 1).value));
+    if (cells.some(cell => cell.trim() !== '')) {
+      rows.push(cells);
+    }
+  });
+  return rows;
+}
+
+/**
+ * Accepts YYYY-MM-DD, D.M.YYYY and M/D/YYYY (as exported by US spreadsheets)
+ */
+export function parseImportDate(text: string): string | null {
+  const trimmed = text.trim();
+  let year: number, month: number, day: number;
+
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = trimmed.match(/^(\d{1,2})\.(\d{1,2})\.(\d{2,4})$/))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/))) {
+    [month, day, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    return null;
+  }
+
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split('T')[0];
+}
+
+function parseImportValue(text: string): number | null {
+  const trimmed = text.trim();
+  // Decimal commas are common in European spreadsheets
+  const normalized = trimmed.includes('.') ? trimmed : trimmed.replace(',', '.');
+  const value = Number(normalized);
+  return trimmed === '' || !Number.isFinite(value) ? null : value;
+}
+
+function findMetric(text: string, metrics: MetricDefinition[]): MetricDefinition | undefined {
+  const normalized = normalizeHeader(text);
+  if (normalized === '') return undefined;
+  return metrics.find(m => normalizeHeader(m.key) === normalized || normalizeHeader(m.label) === normalized);
+}
+
+/**
+ * Match a player by username or name; without an exact match, suggest the closest names
+ */
+export function matchPlayer(text: string, players: ImportPlayer[]): { playerId: string | null; suggestions: ImportPlayer[] } {
+  const query = normalizeName(text);
+  if (query === '') return { playerId: null, suggestions: [] };
+
+  const keysFor = (p: ImportPlayer) => {
+    const first = normalizeName(p.first_name);
+    const last = normalizeName(p.last_name);
+    return [normalizeName(p.username), `${first} ${last}`, `${last} ${first}`, `${last}, ${first}`];
+  };
+
+  const exact = players.filter(p => keysFor(p).includes(query));
+  if (exact.length === 1) {
+    return { playerId: exact[0].id, suggestions: [] };
+  }
+
+  // Ambiguous exact matches (e.g. two players with the same name) are offered as suggestions
+  if (exact.length > 1) {
+    return { playerId: null, suggestions: exact.slice(0, MAX_SUGGESTIONS) };
+  }
+
+  const threshold = Math.max(2, Math.floor(query.length * 0.3));
+  const suggestions = players
+    .map(player => ({ player, distance: Math.min(...keysFor(player).map(key => levenshtein(query, key))) }))
+    .filter(({ distance }) => distance <= threshold)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ player }) => player);
+
+  return { playerId: null, suggestions };
+}
+
+/**
+ * Turn a sheet into import rows.
+ * Long format: one row per player, metric, date and value.
+ * Wide format: one row per player (and date) with a column per drill; empty cells are skipped.
+ * Rows without a date use `defaultDate`.
+ */
+export function parseImportSheet(
+  table: string[][],
+  metrics: MetricDefinition[],
+  players: ImportPlayer[],
+  defaultDate: string
+): ParsedImport {
+  if (table.length < 2) {
+    throw new Error('The file needs a header row and at least one data row');
+  }
+
+  const headers = table[0].map(normalizeHeader);
+  const columnOf = (aliases: string[]) => headers.findIndex(h => aliases.includes(h));
+
+  const columns = {
+    username: columnOf(HEADER_ALIASES.username),
+    name: columnOf(HEADER_ALIASES.name),
+    firstName: columnOf(HEADER_ALIASES.firstName),
+    lastName: columnOf(HEADER_ALIASES.lastName),
+    date: columnOf(HEADER_ALIASES.date),
+    metric: columnOf(HEADER_ALIASES.metric),
+    value: columnOf(HEADER_ALIASES.value),
+  };
+
+  if (columns.username < 0 && columns.name < 0 && (columns.firstName < 0 || columns.lastName < 0)) {
+    throw new Error('No player column found: add a "Username", "Player" or "First Name" and "Last Name" column');
+  }
+
+  const isLong = columns.metric >= 0 && columns.value >= 0;
+  const knownColumns = new Set(Object.values(columns).filter(c => c >= 0));
+  const metricColumns = isLong
+    ? []
+    : table[0]
+        .map((header, index) => ({ index, header, metric: findMetric(header, metrics) }))
+        .filter(c => !knownColumns.has(c.index) && !HEADER_ALIASES.ignored.includes(headers[c.index]) && c.metric);
+
+  if (!isLong && metricColumns.length === 0) {
+    throw new Error('No metric columns found: use "Metric" and "Value" columns or one column per drill');
+  }
+
+  const cell = (row: string[], index: number) => (index >= 0 ? (row[index] ?? '').trim() : '');
+
+  const rows: ImportRow[] = [];
+  table.slice(1).forEach((row, i) => {
+    const rowNumber = i + 2;
+    const playerText = cell(row, columns.username)
+      || cell(row, columns.name)
+      || `${cell(row, columns.firstName)} ${cell(row, columns.lastName)}`.trim();
+    const dateText = cell(row, columns.date);
+    const { playerId, suggestions } = matchPlayer(playerText, players);
+
+    const pairs = isLong
+      ? [{ metricText: cell(row, columns.metric), valueText: cell(row, columns.value) }]
+      : metricColumns
+          .map(c => ({ metricText: c.header, valueText: cell(row, c.index) }))
+          .filter(p => p.valueText !== '');
+
+    pairs.forEach(({ metricText, valueText }) => {
+      rows.push(validateImportRow({
+        rowNumber,
+        playerText,
+        metricText,
+        dateText,
+        valueText,
+        playerId,
+        suggestions,
+        metricKey: findMetric(metricText, metrics)?.key ?? null,
+        entryDate: dateText === '' ? defaultDate : parseImportDate(dateText),
+        value: parseImportValue(valueText),
+        errors: [],
+        duplicate: false,
+      }));
+    });
+  });
+
+  return { format: isLong ? 'long' : 'wide', rows };
+}
+
+/**
+ * Recompute a row's errors, e.g. after the player was picked by hand
+ */
+export function validateImportRow(row: ImportRow): ImportRow {
+  const errors: string[] = [];
+
+  if (!row.playerId) {
+    errors.push(row.playerText === '' ? 'Player missing' : `Unknown player "${row.playerText}"`);
+  }
+  if (!row.metricKey) {
+    errors.push(`Unknown metric "${row.metricText}"`);
+  }
+  if (!row.entryDate) {
+    errors.push(`Invalid date "${row.dateText}"`);
+  }
+  if (row.value === null) {
+    errors.push(`Invalid value "${row.valueText}"`);
+  }
+
+  if (errors.length === 0) {
+    const validation = performanceEntrySchema.safeParse({
+      player_id: row.playerId,
+      metric_type: row.metricKey,
+      value: row.value,
+      entry_date: row.entryDate,
+    });
+    if (!validation.success) {
+      errors.push(...validation.error.errors.map(e => e.message));
+    }
+  }
+
+  return { ...row, errors };
+}
+
+export const entryKey = (playerId: string, metricType: string, entryDate: string, value: number) =>
+  `${playerId}|${metricType}|${entryDate}|${Number(value)}`;
+
+/**
+ * Flag rows that repeat an existing entry (same player, metric, date and value) or an earlier row of the file
+ */
+export function markDuplicates(rows: ImportRow[], existingKeys: Set<string>): ImportRow[] {
+  const seen = new Set<string>();
+  return rows.map(row => {
+    if (row.errors.length > 0) return { ...row, duplicate: false };
+
+    const key = entryKey(row.playerId!, row.metricKey!, row.entryDate!, row.value!);
+    const duplicate = existingKeys.has(key) || seen.has(key);
+    seen.add(key);
+    return { ...row, duplicate };
+  });
+}
+
+export function getImportRowStatus(row: ImportRow): ImportRowStatus {
+  if (row.errors.length > 0) return 'error';
+  return row.duplicate ? 'duplicate' : 'new';
+}
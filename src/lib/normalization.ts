@@ -0,0 +1,2 @@
+// Normalization strategies are shared with the edge functions so radar scores match server-side scores
+export * from "../../supabase/functions/_shared/normalization.ts";
@@ -1,4 +1,17 @@
-export type MetricType = 'vertical_jump' | 'jump_gather' | '30yd_dash' | '3_cone_drill' | 'shuttle_5_10_5' | 'pushups_1min';
+import type { Tables } from "@/integrations/supabase/types";
+import { normalizeValue, type NormalizationContext, type NormalizationStrategy } from "@/lib/normalization";
+
+// Metric keys come from the metrics registry table
+export type MetricType = string;
+
+export type MetricDefinition = Tables<"metrics">;
+export type MetricAggregation = MetricDefinition["aggregation"];
+
+export const AGGREGATION_LABELS: Record<MetricAggregation, string> = {
+  best: "Best attempt",
+  mean_best_two: "Mean of best two",
+  last: "Last attempt",
+};
 
 export interface MetricData {
   metric_type: MetricType;
@@ -12,117 +25,76 @@ export interface NormalizedMetric {
   unit: string;
 }
 
-// Metrics where lower is better (time-based)
-const LOWER_IS_BETTER: MetricType[] = ['30yd_dash', '3_cone_drill', 'shuttle_5_10_5'];
+/**
+ * Whether a lower value is the better result (e.g. sprint times)
+ */
+export function isLowerBetter(metric: Pick<MetricDefinition, 'direction'> | undefined): boolean {
+  return metric?.direction === 'lower_is_better';
+}
+
+/**
+ * Index metric definitions by key for quick lookups
+ */
+export function buildMetricMap(metrics: MetricDefinition[]): Map<MetricType, MetricDefinition> {
+  return new Map(metrics.map(m => [m.key, m]));
+}
 
-// User-friendly metric labels
-export const METRIC_LABELS: Record<MetricType, string> = {
-  'vertical_jump': 'Vertical Jump',
-  'jump_gather': 'Jump w. Gather Step',
-  '30yd_dash': '30-Yard Dash',
-  '3_cone_drill': '3-Cone Drill',
-  'shuttle_5_10_5': '5-10-5 Shuttle',
-  'pushups_1min': 'Push-Ups (1 Min AMRAP)'
+/**
+ * Label with unit, e.g. "30-Yard Dash [s]"
+ */
+export function formatMetricLabel(metric: Pick<MetricDefinition, 'label' | 'unit'>): string {
+  return `${metric.label} [${metric.unit}]`;
+}
+
+export const NORMALIZATION_LABELS: Record<NormalizationStrategy, string> = {
+  relative_to_best: "Relative to best",
+  reference_range: "Reference range",
+  percentile: "Team percentile",
+  t_score: "T-score",
 };
 
-export const METRIC_UNITS: Record<MetricType, string> = {
-  'vertical_jump': 'cm',
-  'jump_gather': 'cm',
-  '30yd_dash': 's',
-  '3_cone_drill': 's',
-  'shuttle_5_10_5': 's',
-  'pushups_1min': 'reps'
+export const NORMALIZATION_DESCRIPTIONS: Record<NormalizationStrategy, string> = {
+  relative_to_best: "0 is the group's best times the metric's baseline factor, 100 is the best",
+  reference_range: "Fixed range per metric; metrics without a range use relative to best",
+  percentile: "Share of teammates with a worse current value",
+  t_score: "50 is the team average, every 10 points is one standard deviation",
 };
 
 /**
- * Normalize metrics to 0-100 scale where 100 is always best
- * For time metrics: 0 = 1.4x best time, 100 = best time
- * For distance/reps: 0 = best / 2, 100 = best value
+ * Normalize metrics to 0-100 scale where 100 is always best, using the chosen strategy.
+ * Metrics without data in the context score 50.
  */
 export function normalizeMetrics(
   data: MetricData[],
-  allData: MetricData[]
+  context: NormalizationContext,
+  metrics: MetricDefinition[],
+  strategy: NormalizationStrategy = 'relative_to_best'
 ): NormalizedMetric[] {
-  // Find best performance for each metric
-  const bestValues = new Map<MetricType, number>();
-  
-  allData.forEach(item => {
-    const current = bestValues.get(item.metric_type);
-    const isLowerBetter = LOWER_IS_BETTER.includes(item.metric_type);
-    
-    if (current === undefined) {
-      bestValues.set(item.metric_type, item.value);
-    } else {
-      if (isLowerBetter) {
-        bestValues.set(item.metric_type, Math.min(current, item.value));
-      } else {
-        bestValues.set(item.metric_type, Math.max(current, item.value));
-      }
-    }
-  });
+  const metricMap = buildMetricMap(metrics);
+
+  return data
+    .filter(item => metricMap.has(item.metric_type))
+    .map(item => {
+      const definition = metricMap.get(item.metric_type)!;
+      const score = normalizeValue(item.value, definition, context, strategy);
 
-  return data.map(item => {
-    const bestValue = bestValues.get(item.metric_type);
-    if (bestValue === undefined) {
       return {
-        metric: METRIC_LABELS[item.metric_type],
-        value: 50,
+        metric: definition.label,
+        value: Math.round(score ?? 50),
         rawValue: item.value,
-        unit: METRIC_UNITS[item.metric_type]
+        unit: definition.unit
       };
-    }
-
-    let normalized: number;
-    const isLowerBetter = LOWER_IS_BETTER.includes(item.metric_type);
-
-    if (isLowerBetter) {
-      // For time metrics: baseline (0) = best * 1.4, best performance (100) = best
-      const baseline = bestValue * 1.4;
-      const range = baseline - bestValue;
-      
-      if (range === 0) {
-        normalized = 100;
-      } else {
-        normalized = Math.max(0, Math.min(100, ((baseline - item.value) / range) * 100));
-      }
-    } else {
-      // For distance/reps: baseline (0) = best / divisor
-      // Push-ups use /5, others use /2
-      const divisor = item.metric_type === 'pushups_1min' ? 5 : 2;
-      const baseline = bestValue / divisor;
-      const range = bestValue - baseline;
-      
-      if (range === 0) {
-        normalized = 100;
-      } else {
-        normalized = Math.max(0, Math.min(100, ((item.value - baseline) / range) * 100));
-      }
-    }
-
-    return {
-      metric: METRIC_LABELS[item.metric_type],
-      value: Math.round(normalized),
-      rawValue: item.value,
-      unit: METRIC_UNITS[item.metric_type]
-    };
-  });
-}
-
-/**
- * Get all metric types as array
- */
-export function getAllMetricTypes(): MetricType[] {
-  return Object.keys(METRIC_LABELS) as MetricType[];
+    });
 }
 
 /**
  * Create empty metric set with all metrics at 0
  */
-export function createEmptyMetricSet(): NormalizedMetric[] {
-  return getAllMetricTypes().map(type => ({
-    metric: METRIC_LABELS[type],
+export function createEmptyMetricSet(metrics: MetricDefinition[]): NormalizedMetric[] {
+  return metrics.map(metric => ({
+    metric: metric.label,
     value: 0,
     rawValue: 0,
-    unit: METRIC_UNITS[type]
+    unit: metric.unit
   }));
 }
@@ -0,0 +1,2 @@
+// The checks live next to the edge functions so warnings match what the database flags
+export * from "../../supabase/functions/_shared/plausibility.ts";
@@ -0,0 +1,2 @@
+// Position fit scoring is shared with the edge functions so the page explains the same numbers
+export * from "../../supabase/functions/_shared/positionFit.ts";
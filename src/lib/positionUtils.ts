@@ -42,4 +42,50 @@ export interface PlayerPosition {
   player_id: string;
   position: FootballPosition;
   is_primary: boolean;
+  started_on: string;
+  ended_on: string | null;
+}
+
+export interface PositionAssignment {
+  position: FootballPosition;
+  is_primary: boolean;
+}
+
+export interface PositionChangePlan {
+  // Spells that end the day before the effective date
+  close: PlayerPosition[];
+  // Spells that started on or after the effective date, so they are replaced rather than closed
+  remove: PlayerPosition[];
+  // Assignments that start on the effective date
+  open: PositionAssignment[];
+}
+
+/**
+ * The calendar day before a YYYY-MM-DD date
+ */
+export function dayBefore(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * Works out how to move a player's current position spells to the desired assignments.
+ * Unchanged assignments keep their spell; anything else ends and a new spell starts on the effective date.
+ */
+export function planPositionChanges(
+  current: PlayerPosition[],
+  desired: PositionAssignment[],
+  effectiveDate: string
+): PositionChangePlan {
+  const isKept = (spell: PlayerPosition) =>
+    desired.some(a => a.position === spell.position && a.is_primary === spell.is_primary);
+
+  const ending = current.filter(spell => !isKept(spell));
+
+  return {
+    close: ending.filter(spell => spell.started_on < effectiveDate),
+    remove: ending.filter(spell => spell.started_on >= effectiveDate),
+    open: desired.filter(a => !current.some(spell => spell.position === a.position && spell.is_primary === a.is_primary)),
+  };
 }
@@ -0,0 +1,112 @@
+import { normalizeHeader, normalizeName } from "@/lib/importUtils";
+import { rosterUserSchema } from "@/lib/validation";
+
+export interface RosterRow {
+  // Line in the spreadsheet, counting the header as line 1
+  rowNumber: number;
+  username: string;
+  firstName: string;
+  lastName: string;
+  roles: string[];
+  position?: string;
+  errors: string[];
+}
+
+// Payload row of the batch-create-users function
+export interface RosterUser {
+  username: string;
+  firstName: string;
+  lastName: string;
+  roles: string[];
+  position?: string;
+}
+
+export interface RosterResult {
+  row: number;
+  username: string | null;
+  success: boolean;
+  user_id?: string;
+  password?: string;
+  error?: string;
+}
+
+const HEADER_ALIASES = {
+  username: ['username', 'user', 'login'],
+  firstName: ['firstname', 'first', 'givenname'],
+  lastName: ['lastname', 'last', 'surname', 'familyname'],
+  roles: ['roles', 'role'],
+  position: ['position', 'pos', 'primaryposition'],
+};
+
+/**
+ * Username in the firstname.lastname format the sign-in expects, e.g. "José María" "Núñez" -> "josemaria.nunez"
+ */
+export function suggestUsername(firstName: string, lastName: string): string {
+  const part = (name: string) => normalizeName(name).replace(/[^a-z]/g, '');
+  return `${part(firstName)}.${part(lastName)}`;
+}
+
+/**
+ * Turn a roster sheet into rows for the batch-create-users function.
+ * A missing username is derived from the names, missing roles default to player,
+ * and several roles can be listed in one cell ("coach; admin").
+ */
+export function parseRosterSheet(table: string[][], existingUsernames: Set<string>): RosterRow[] {
+  if (table.length < 2) {
+    throw new Error('The file needs a header row and at least one data row');
+  }
+
+  const headers = table[0].map(normalizeHeader);
+  const columnOf = (aliases: string[]) => headers.findIndex(h => aliases.includes(h));
+  const columns = {
+    username: columnOf(HEADER_ALIASES.username),
+    firstName: columnOf(HEADER_ALIASES.firstName),
+    lastName: columnOf(HEADER_ALIASES.lastName),
+    roles: columnOf(HEADER_ALIASES.roles),
+    position: columnOf(HEADER_ALIASES.position),
+  };
+
+  if (columns.firstName < 0 || columns.lastName < 0) {
+    throw new Error('The file needs "First Name" and "Last Name" columns');
+  }
+
+  const cell = (row: string[], index: number) => (index >= 0 ? (row[index] ?? '').trim() : '');
+  const seen = new Set<string>();
+
+  return table.slice(1).map((row, i) => {
+    const firstName = cell(row, columns.firstName);
+    const lastName = cell(row, columns.lastName);
+    const username = cell(row, columns.username).toLowerCase() || suggestUsername(firstName, lastName);
+    const rolesText = cell(row, columns.roles).toLowerCase();
+    const roles = rolesText === '' ? ['player'] : rolesText.split(/[\s,;|/]+/).filter(Boolean);
+    const positionText = cell(row, columns.position).toUpperCase();
+    const position = positionText === '' || positionText === 'UNASSIGNED' ? undefined : positionText;
+
+    const errors: string[] = [];
+    const validation = rosterUserSchema.safeParse({ username, first_name: firstName, last_name: lastName, roles, position });
+    if (!validation.success) {
+      errors.push(...validation.error.errors.map(e => e.message));
+    }
+    if (position && !roles.includes('player')) {
+      errors.push('Only players can have a position');
+    }
+    if (existingUsernames.has(username)) {
+      errors.push('Username already exists');
+    } else if (seen.has(username)) {
+      errors.push('Username appears twice in the file');
+    }
+    seen.add(username);
+
+    return { rowNumber: i + 2, username, firstName, lastName, roles, position, errors };
+  });
+}
+
+export function toRosterUser(row: RosterRow): RosterUser {
+  return {
+    username: row.username,
+    firstName: row.firstName,
+    lastName: row.lastName,
+    roles: row.roles,
+    position: row.position,
+  };
+}
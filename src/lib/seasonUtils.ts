@@ -0,0 +1,36 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Season = Tables<"seasons">;
+export type RosterMembership = Tables<"roster_memberships">;
+export type RosterStatus = RosterMembership["status"];
+
+export const ROSTER_STATUS_LABELS: Record<RosterStatus, string> = {
+  'active': 'Active',
+  'inactive': 'Inactive',
+};
+
+/**
+ * Scope accepted by the aggregation edge functions
+ */
+export interface AggregationScope {
+  season_id?: string;
+  active_only?: boolean;
+  exclude_flagged?: boolean;
+}
+
+// Scope selections that are not a season id
+export const SCOPE_ACTIVE_ROSTER = 'active';
+export const SCOPE_ALL_PLAYERS = 'all';
+
+export function scopeFromSelection(selection: string): AggregationScope {
+  if (selection === SCOPE_ACTIVE_ROSTER) return { active_only: true };
+  if (selection === SCOPE_ALL_PLAYERS) return {};
+  return { season_id: selection };
+}
+
+/**
+ * Whether a membership counts as being on the roster on the given day (YYYY-MM-DD)
+ */
+export function isMemberOn(membership: Pick<RosterMembership, 'joined_on' | 'left_on'>, day: string): boolean {
+  return membership.joined_on <= day && (membership.left_on === null || membership.left_on >= day);
+}
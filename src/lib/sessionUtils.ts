@@ -0,0 +1,44 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { isMemberOn, type RosterMembership } from "@/lib/seasonUtils";
+
+export type TestSession = Tables<"test_sessions">;
+export type TestSurface = NonNullable<TestSession["surface"]>;
+export type TimingMethod = NonNullable<TestSession["timing_method"]>;
+
+export const SURFACE_LABELS: Record<TestSurface, string> = {
+  'indoor': 'Indoor',
+  'turf': 'Turf',
+  'grass': 'Grass',
+  'track': 'Track',
+  'other': 'Other',
+};
+
+export const TIMING_METHOD_LABELS: Record<TimingMethod, string> = {
+  'hand': 'Hand-timed',
+  'electronic': 'Electronic',
+  'video': 'Video',
+};
+
+export const SURFACE_OPTIONS = Object.keys(SURFACE_LABELS) as TestSurface[];
+export const TIMING_METHOD_OPTIONS = Object.keys(TIMING_METHOD_LABELS) as TimingMethod[];
+
+export interface SessionAttendance {
+  session: Pick<TestSession, 'id' | 'name' | 'session_date'>;
+  attended: boolean;
+}
+
+/**
+ * Sessions a player was expected at (on the roster that day) or recorded results in, most recent first
+ */
+export function buildAttendance(
+  sessions: Pick<TestSession, 'id' | 'name' | 'session_date'>[],
+  memberships: Pick<RosterMembership, 'joined_on' | 'left_on'>[],
+  attendedSessionIds: Set<string>
+): SessionAttendance[] {
+  return sessions
+    .filter(session =>
+      attendedSessionIds.has(session.id) || memberships.some(m => isMemberOn(m, session.session_date))
+    )
+    .map(session => ({ session, attended: attendedSessionIds.has(session.id) }))
+    .sort((a, b) => b.session.session_date.localeCompare(a.session.session_date));
+}
@@ -0,0 +1,19 @@
+// Keep in sync with trash_retention() in the database
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Oldest deletion time that can still be restored
+ */
+export function getTrashCutoff(now = new Date()): Date {
+  return new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * Whole days left before a deleted entry is purged, never below 0
+ */
+export function getDaysUntilPurge(deletedAt: string, now = new Date()): number {
+  const purgeAt = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS));
+}
@@ -0,0 +1,2 @@
+// Trend analysis is shared with the edge functions so chart summaries match the server's numbers
+export * from "../../supabase/functions/_shared/trends.ts";
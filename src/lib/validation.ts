@@ -3,14 +3,8 @@ import { z } from 'zod';
 // Performance entry validation
 export const performanceEntrySchema = z.object({
   player_id: z.string().uuid({ message: "Invalid player ID" }),
-  metric_type: z.enum([
-    'vertical_jump',
-    'jump_gather', 
-    '30yd_dash',
-    '3_cone_drill',
-    'shuttle_5_10_5',
-    'pushups_1min'
-  ], { message: "Invalid metric type" }),
+  metric_type: z.string()
+    .regex(/^[a-z0-9_]+$/, { message: "Invalid metric type" }),
   value: z.number()
     .positive({ message: "Value must be positive" })
     .max(1000, { message: "Value must be less than 1000" })
@@ -18,6 +12,177 @@ export const performanceEntrySchema = z.object({
   entry_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Invalid date format" }),
 });
 
+// Metric registry validation
+export const metricDefinitionSchema = z.object({
+  key: z.string()
+    .trim()
+    .min(1, { message: "Key is required" })
+    .max(50, { message: "Key must be less than 50 characters" })
+    .regex(/^[a-z0-9_]+$/, { message: "Key may only contain lowercase letters, digits and underscores" }),
+  label: z.string()
+    .trim()
+    .min(1, { message: "Label is required" })
+    .max(100, { message: "Label must be less than 100 characters" }),
+  unit: z.string()
+    .trim()
+    .min(1, { message: "Unit is required" })
+    .max(20, { message: "Unit must be less than 20 characters" }),
+  direction: z.enum(['higher_is_better', 'lower_is_better'], { message: "Invalid direction" }),
+  aggregation: z.enum(['best', 'mean_best_two', 'last'], { message: "Invalid aggregation" }),
+  baseline_factor: z.number()
+    .positive({ message: "Baseline factor must be positive" })
+    .finite({ message: "Baseline factor must be a valid number" }),
+  input_step: z.number()
+    .positive({ message: "Input step must be positive" })
+    .finite({ message: "Input step must be a valid number" }),
+  display_order: z.number().int({ message: "Display order must be a whole number" }),
+  is_active: z.boolean(),
+  reference_min: z.number().finite({ message: "Reference minimum must be a valid number" }).nullable(),
+  reference_max: z.number().finite({ message: "Reference maximum must be a valid number" }).nullable(),
+  plausible_min: z.number().finite({ message: "Plausible minimum must be a valid number" }).nullable(),
+  plausible_max: z.number().finite({ message: "Plausible maximum must be a valid number" }).nullable(),
+}).refine((data) => data.direction === 'lower_is_better'
+  ? data.baseline_factor > 1
+  : data.baseline_factor < 1, {
+  message: "Baseline factor must be above 1 for lower-is-better metrics and below 1 otherwise",
+  path: ["baseline_factor"],
+}).refine((data) => (data.reference_min === null) === (data.reference_max === null), {
+  message: "Set both ends of the reference range or neither",
+  path: ["reference_max"],
+}).refine((data) => data.reference_min === null || data.reference_max === null || data.reference_max > data.reference_min, {
+  message: "Reference maximum must be above the reference minimum",
+  path: ["reference_max"],
+}).refine((data) => data.plausible_min === null || data.plausible_max === null || data.plausible_max > data.plausible_min, {
+  message: "Plausible maximum must be above the plausible minimum",
+  path: ["plausible_max"],
+});
+
+// Composite metric validation
+export const compositeMetricSchema = z.object({
+  key: z.string()
+    .trim()
+    .min(1, { message: "Key is required" })
+    .max(50, { message: "Key must be less than 50 characters" })
+    .regex(/^[a-z0-9_]+$/, { message: "Key may only contain lowercase letters, digits and underscores" }),
+  label: z.string()
+    .trim()
+    .min(1, { message: "Label is required" })
+    .max(100, { message: "Label must be less than 100 characters" }),
+  display_order: z.number().int({ message: "Display order must be a whole number" }),
+  is_active: z.boolean(),
+  components: z.array(z.object({
+    component_key: z.string().regex(/^[a-z0-9_]+$/, { message: "Invalid metric" }),
+    weight: z.number()
+      .positive({ message: "Weights must be positive" })
+      .max(10, { message: "Weights must be at most 10" }),
+  })).min(2, { message: "Select at least two metrics" }),
+});
+
+// Testing session validation
+export const testSessionSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, { message: "Name is required" })
+    .max(100, { message: "Name must be less than 100 characters" }),
+  session_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Invalid date format" }),
+  location: z.string()
+    .trim()
+    .max(200, { message: "Location must be less than 200 characters" })
+    .nullable(),
+  surface: z.enum(['indoor', 'turf', 'grass', 'track', 'other']).nullable(),
+  timing_method: z.enum(['hand', 'electronic', 'video']).nullable(),
+  conditions: z.string()
+    .trim()
+    .max(500, { message: "Conditions must be less than 500 characters" })
+    .nullable(),
+  conducted_by: z.string().uuid({ message: "Invalid coach" }).nullable(),
+});
+
+// Goal validation
+export const goalSchema = z.object({
+  player_id: z.string().uuid({ message: "Invalid player ID" }),
+  metric_type: z.string()
+    .regex(/^[a-z0-9_]+$/, { message: "Invalid metric type" }),
+  target_value: z.number()
+    .positive({ message: "Target must be positive" })
+    .max(1000, { message: "Target must be less than 1000" })
+    .finite({ message: "Target must be a valid number" }),
+  deadline: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Invalid deadline" })
+    .refine((date) => date >= new Date().toISOString().split('T')[0], { message: "Deadline cannot be in the past" }),
+  notes: z.string()
+    .trim()
+    .max(500, { message: "Notes must be less than 500 characters" })
+    .nullable(),
+});
+
+// Body measurement validation
+const optionalMeasurement = (label: string, min: number, max: number) => z.number()
+  .min(min, { message: `${label} must be at least ${min}` })
+  .max(max, { message: `${label} must be at most ${max}` })
+  .nullable();
+
+export const bodyMeasurementSchema = z.object({
+  player_id: z.string().uuid({ message: "Invalid player ID" }),
+  measured_on: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Invalid date" })
+    .refine((date) => date <= new Date().toISOString().split('T')[0], { message: "Date cannot be in the future" }),
+  height_cm: optionalMeasurement("Height", 100, 250),
+  weight_kg: optionalMeasurement("Weight", 30, 250),
+  wingspan_cm: optionalMeasurement("Wingspan", 100, 280),
+  notes: z.string()
+    .trim()
+    .max(500, { message: "Notes must be less than 500 characters" })
+    .nullable(),
+}).refine(
+  (data) => data.height_cm !== null || data.weight_kg !== null || data.wingspan_cm !== null,
+  { message: "Enter at least one measurement" }
+);
+
+// Season validation
+export const seasonSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, { message: "Name is required" })
+    .max(50, { message: "Name must be less than 50 characters" }),
+  starts_on: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Invalid start date" }),
+  ends_on: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Invalid end date" }),
+  is_current: z.boolean(),
+}).refine((data) => data.ends_on >= data.starts_on, {
+  message: "Season must end on or after its start date",
+  path: ["ends_on"],
+});
+
+// Roster membership validation
+export const rosterMembershipSchema = z.object({
+  joined_on: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Invalid join date" }),
+  left_on: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Invalid leave date" }).nullable(),
+  status: z.enum(['active', 'inactive']),
+  notes: z.string()
+    .trim()
+    .max(500, { message: "Notes must be less than 500 characters" })
+    .nullable(),
+}).refine((data) => data.left_on === null || data.left_on >= data.joined_on, {
+  message: "Leave date must be on or after the join date",
+  path: ["left_on"],
+});
+
+// Player position assignment validation
+export const playerPositionsSchema = z.object({
+  primary: z.enum(['QB', 'WR', 'C', 'DB', 'B', 'unassigned']),
+  secondary: z.array(z.enum(['QB', 'WR', 'C', 'DB', 'B'])),
+  effective_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Invalid effective date" }),
+}).refine((data) => data.primary !== 'unassigned' || data.secondary.length === 0, {
+  message: "Choose a primary position before adding secondary positions",
+  path: ["primary"],
+}).refine((data) => !(data.secondary as string[]).includes(data.primary), {
+  message: "The primary position cannot also be a secondary position",
+  path: ["secondary"],
+}).refine((data) => data.effective_date <= new Date().toISOString().split('T')[0], {
+  message: "Position changes cannot take effect in the future",
+  path: ["effective_date"],
+});
+
 // User profile validation
 export const userProfileSchema = z.object({
   username: z.string()
@@ -38,6 +203,24 @@ export const userProfileSchema = z.object({
     .optional(),
 });
 
+// Roster file row validation, mirrors the batch-create-users function
+export const rosterUserSchema = z.object({
+  username: z.string()
+    .regex(/^[a-z]+\.[a-z]+$/, { message: "Username must follow firstname.lastname format (lowercase)" }),
+  first_name: z.string()
+    .trim()
+    .min(1, { message: "First name is required" })
+    .max(100, { message: "First name must be less than 100 characters" }),
+  last_name: z.string()
+    .trim()
+    .min(1, { message: "Last name is required" })
+    .max(100, { message: "Last name must be less than 100 characters" }),
+  roles: z.array(z.enum(['admin', 'coach', 'player'], { errorMap: () => ({ message: "Roles must be admin, coach or player" }) }))
+    .min(1, { message: "At least one role is required" }),
+  position: z.enum(['QB', 'WR', 'C', 'DB', 'B'], { errorMap: () => ({ message: "Position must be QB, WR, C, DB or B" }) })
+    .optional(),
+});
+
 // Auth validation
 export const signInSchema = z.object({
   username: z.string()
@@ -0,0 +1,250 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AUDIT_OPERATION_LABELS,
+  AUDIT_TABLE_LABELS,
+  describeChanges,
+  summarizeRow,
+  type AuditLogEntry,
+  type AuditOperation,
+} from "@/lib/auditUtils";
+import { History } from "lucide-react";
+
+interface Person {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+const PAGE_SIZE = 100;
+
+const OPERATION_VARIANTS: Record<AuditOperation, "default" | "secondary" | "destructive" | "outline"> = {
+  INSERT: "default",
+  UPDATE: "secondary",
+  DELETE: "destructive",
+  PASSWORD_RESET: "outline",
+};
+
+const Activity = () => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [people, setPeople] = useState<Person[]>([]);
+  const [filterActor, setFilterActor] = useState<string>("all");
+  const [filterTarget, setFilterTarget] = useState<string>("all");
+  const [filterTable, setFilterTable] = useState<string>("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    fetchPeople();
+  }, []);
+
+  useEffect(() => {
+    fetchEntries(false);
+  }, [filterActor, filterTarget, filterTable, fromDate, toDate]);
+
+  const fetchPeople = async () => {
+    const { data } = await supabase
+      .from("profiles")
+      .select("id, first_name, last_name")
+      .order("last_name", { ascending: true })
+      .order("first_name", { ascending: true });
+
+    setPeople(data || []);
+  };
+
+  const fetchEntries = async (append: boolean) => {
+    setIsLoading(true);
+
+    try {
+      let query = supabase
+        .from("audit_log")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .range(append ? entries.length : 0, (append ? entries.length : 0) + PAGE_SIZE - 1);
+
+      if (filterActor !== "all") query = query.eq("actor_id", filterActor);
+      if (filterTarget !== "all") query = query.eq("target_user_id", filterTarget);
+      if (filterTable !== "all") query = query.eq("table_name", filterTable);
+      if (fromDate) query = query.gte("created_at", `${fromDate}T00:00:00`);
+      // Inclusive end date: everything before the start of the next day
+      if (toDate) {
+        const end = new Date(`${toDate}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        query = query.lt("created_at", end.toISOString());
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setEntries(append ? [...entries, ...(data || [])] : data || []);
+      setHasMore((data || []).length === PAGE_SIZE);
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load activity",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const peopleMap = new Map(people.map(p => [p.id, `${p.first_name} ${p.last_name}`]));
+
+  // Deleted users are no longer in profiles; fall back to the names captured in the log
+  const personName = (id: string | null, entry?: AuditLogEntry) => {
+    if (!id) return "System";
+    const known = peopleMap.get(id);
+    if (known) return known;
+    const snapshot = (entry?.table_name === "profiles" ? entry.old_data : null) as { first_name?: string; last_name?: string } | null;
+    return snapshot?.first_name ? `${snapshot.first_name} ${snapshot.last_name ?? ""}`.trim() : `Unknown user (${id.slice(0, 8)})`;
+  };
+
+  const resetFilters = () => {
+    setFilterActor("all");
+    setFilterTarget("all");
+    setFilterTable("all");
+    setFromDate("");
+    setToDate("");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold mb-2">Activity</h1>
+        <p className="text-sm md:text-base text-muted-foreground">Who changed entries, roles, positions and profiles, and when</p>
+      </div>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            Audit Log
+          </CardTitle>
+          <CardDescription>Every create, update and delete is recorded automatically</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="activity-actor">Changed by</Label>
+              <Select value={filterActor} onValueChange={setFilterActor}>
+                <SelectTrigger id="activity-actor" className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover z-50">
+                  <SelectItem value="all">Anyone</SelectItem>
+                  {people.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.first_name} {p.last_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="activity-target">Affected user</Label>
+              <Select value={filterTarget} onValueChange={setFilterTarget}>
+                <SelectTrigger id="activity-target" className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover z-50">
+                  <SelectItem value="all">Anyone</SelectItem>
+                  {people.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.first_name} {p.last_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="activity-table">Type</Label>
+              <Select value={filterTable} onValueChange={setFilterTable}>
+                <SelectTrigger id="activity-table" className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover z-50">
+                  <SelectItem value="all">All types</SelectItem>
+                  {Object.entries(AUDIT_TABLE_LABELS).map(([table, label]) => (
+                    <SelectItem key={table} value={table}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="activity-from">From</Label>
+              <Input id="activity-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="activity-to">To</Label>
+              <Input id="activity-to" type="date" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button variant="ghost" size="sm" onClick={resetFilters}>Clear filters</Button>
+          </div>
+
+          {entries.length === 0 && !isLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No activity matches these filters.</p>
+          ) : (
+            <div className="space-y-2">
+              {entries.map(entry => {
+                const operation = entry.operation as AuditOperation;
+                const changes = operation === "UPDATE" ? describeChanges(entry) : [];
+                const summary = operation === "INSERT" || operation === "DELETE" ? summarizeRow(entry) : "";
+                return (
+                  <div key={entry.id} className="p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant={OPERATION_VARIANTS[operation] ?? "outline"} className="text-xs">
+                        {AUDIT_OPERATION_LABELS[operation] ?? entry.operation}
+                      </Badge>
+                      <span className="text-sm font-medium">
+                        {AUDIT_TABLE_LABELS[entry.table_name] ?? entry.table_name}
+                      </span>
+                      {entry.target_user_id && (
+                        <span className="text-sm text-muted-foreground">
+                          for {personName(entry.target_user_id, entry)}
+                        </span>
+                      )}
+                      <span className="text-xs text-muted-foreground ml-auto">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">by {personName(entry.actor_id)}</p>
+                    {summary && <p className="text-sm break-words">{summary}</p>}
+                    {changes.length > 0 && (
+                      <ul className="text-sm space-y-0.5">
+                        {changes.map(change => (
+                          <li key={change.field} className="break-words">
+                            <span className="text-muted-foreground">{change.field}:</span> {change.from} → {change.to}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {hasMore && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => fetchEntries(true)} disabled={isLoading}>
+                {isLoading ? "Loading..." : "Load more"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Activity;
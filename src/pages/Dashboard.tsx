@@ -4,14 +4,20 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { TrendingUp, Users, Target, AlertCircle, Clock, Trophy } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
-import { METRIC_LABELS, METRIC_UNITS, type MetricType, getAllMetricTypes } from "@/lib/performanceUtils";
+import { buildMetricMap, type MetricType } from "@/lib/performanceUtils";
+import { selectLatestEntries, selectPersonalBests } from "@/lib/aggregation";
+import { useMetrics } from "@/hooks/useMetrics";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { MostImprovedCard } from "@/components/MostImprovedCard";
+import { formatGoalTarget, getGoalStatus, pickFeaturedGoal, remainingToGoal, type Goal } from "@/lib/goalUtils";
 
 interface MetricStatus {
   metric: MetricType;
   status: 'missing' | 'outdated' | 'current';
   lastEntry?: Date;
   bestValue?: number;
+  latestValue?: number;
+  goal?: Goal;
 }
 
 interface TeamBestMetric {
@@ -33,16 +39,19 @@ const Dashboard = () => {
   const [metricStatuses, setMetricStatuses] = useState<MetricStatus[]>([]);
   const [teamBestAllTime, setTeamBestAllTime] = useState<TeamBestMetric[]>([]);
   const [teamBestSixMonths, setTeamBestSixMonths] = useState<TeamBestMetric[]>([]);
+  const { metrics } = useMetrics({ measuredOnly: true });
+  const { metrics: allMetrics } = useMetrics({ includeInactive: true });
+  const metricMap = buildMetricMap(allMetrics);
 
   useEffect(() => {
     fetchDashboardData();
   }, []);
 
   useEffect(() => {
-    if (stats.userId) {
+    if (stats.userId && metrics.length > 0) {
       fetchMetricStatuses();
     }
-  }, [stats.userId]);
+  }, [stats.userId, metrics]);
 
   const fetchDashboardData = async () => {
     const { data: { user } } = await supabase.auth.getUser();
@@ -63,6 +72,8 @@ const Dashboard = () => {
         .from("player_positions")
         .select("position")
         .eq("player_id", user.id)
+        .eq("is_primary", true)
+        .is("ended_on", null)
         .maybeSingle()
     ]);
 
@@ -105,49 +116,81 @@ const Dashboard = () => {
 
 
   const fetchMetricStatuses = async () => {
-    const allMetrics = getAllMetricTypes();
+    const metricKeys = metrics.map(m => m.key);
     const threeMonthsAgo = new Date();
     threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
 
     // Batch query: Fetch all player entries at once
-    const { data: allPlayerEntries } = await supabase
-      .from('performance_entries')
-      .select('entry_date, value, metric_type')
-      .eq('player_id', stats.userId)
-      .in('metric_type', allMetrics)
-      .order('entry_date', { ascending: false });
-
-    const statuses: MetricStatus[] = [];
-
-    allMetrics.forEach(metric => {
-      const metricEntries = allPlayerEntries?.filter(e => e.metric_type === metric) || [];
-      
-      if (metricEntries.length === 0) {
-        statuses.push({ metric, status: 'missing' });
-      } else {
-        // Latest entry is first due to order by
-        const latestEntry = metricEntries[0];
-        const lastEntryDate = new Date(latestEntry.entry_date);
-        const isOutdated = lastEntryDate < threeMonthsAgo;
-        
-        // Calculate best value
-        const isLowerBetter = ['30yd_dash', '3_cone_drill', 'shuttle_5_10_5'].includes(metric);
-        const bestValue = isLowerBetter
-          ? Math.min(...metricEntries.map(e => e.value))
-          : Math.max(...metricEntries.map(e => e.value));
-
-        statuses.push({
-          metric,
-          status: isOutdated ? 'outdated' : 'current',
-          lastEntry: lastEntryDate,
-          bestValue,
-        });
+    const [{ data: allPlayerEntries }, { data: goals }] = await Promise.all([
+      supabase
+        .from('performance_entries')
+        .select('id, player_id, entry_date, value, metric_type, created_at, attempt_number')
+        .is('deleted_at', null)
+        .eq('status', 'approved')
+        .eq('player_id', stats.userId)
+        .in('metric_type', metricKeys),
+      supabase
+        .from('goals')
+        .select('*')
+        .eq('player_id', stats.userId)
+        .in('metric_type', metricKeys),
+    ]);
+    const today = new Date().toISOString().split('T')[0];
+
+    const latestByMetric = new Map(
+      selectLatestEntries(allPlayerEntries || [], metrics).map(e => [e.metric_type, e])
+    );
+    const bestByMetric = new Map(
+      selectPersonalBests(allPlayerEntries || [], metrics).map(e => [e.metric_type, Number(e.value)])
+    );
+
+    const statuses: MetricStatus[] = metrics.map(({ key: metric }) => {
+      const latestEntry = latestByMetric.get(metric);
+      const goal = pickFeaturedGoal((goals || []).filter(g => g.metric_type === metric), today);
+
+      if (!latestEntry) {
+        return { metric, status: 'missing', goal };
       }
+
+      const lastEntryDate = new Date(latestEntry.entry_date);
+      const isOutdated = lastEntryDate < threeMonthsAgo;
+
+      return {
+        metric,
+        status: isOutdated ? 'outdated' : 'current',
+        lastEntry: lastEntryDate,
+        bestValue: bestByMetric.get(metric),
+        latestValue: Number(latestEntry.value),
+        goal,
+      };
     });
 
     setMetricStatuses(statuses);
   };
 
+  const renderGoalBadge = (status: MetricStatus) => {
+    const goal = status.goal!;
+    const metric = metricMap.get(status.metric);
+    const goalStatus = getGoalStatus(goal, new Date().toISOString().split('T')[0]);
+
+    if (goalStatus === 'achieved') {
+      return (
+        <Badge className="text-xs" title={formatGoalTarget(goal, metric)}>
+          Goal achieved
+        </Badge>
+      );
+    }
+
+    const remaining = status.latestValue !== undefined ? remainingToGoal(goal, status.latestValue, metric) : undefined;
+    return (
+      <Badge variant={goalStatus === 'missed' ? 'destructive' : 'secondary'} className="text-xs">
+        Goal {formatGoalTarget(goal, metric)}
+        {goalStatus === 'active' && remaining !== undefined && remaining > 0 && ` · ${remaining.toFixed(2)} to go`}
+        {goalStatus === 'missed' && ' · missed'}
+      </Badge>
+    );
+  };
+
   const roleDisplayNames = {
     admin: "Administrator",
     coach: "Coach",
@@ -232,9 +275,9 @@ const Dashboard = () => {
               <div className="grid grid-cols-1 gap-3">
                 {teamBestAllTime.map(m => (
                   <div key={m.metric} className="flex justify-between items-center p-3 rounded-lg bg-muted/50">
-                    <span className="text-sm font-medium">{METRIC_LABELS[m.metric]}</span>
+                    <span className="text-sm font-medium">{metricMap.get(m.metric)?.label ?? m.metric}</span>
                     <span className="text-lg font-bold text-primary">
-                      {m.value.toFixed(2)} <span className="text-sm text-muted-foreground">[{METRIC_UNITS[m.metric]}]</span>
+                      {m.value.toFixed(2)} <span className="text-sm text-muted-foreground">[{metricMap.get(m.metric)?.unit}]</span>
                     </span>
                   </div>
                 ))}
@@ -256,9 +299,9 @@ const Dashboard = () => {
               <div className="grid grid-cols-1 gap-3">
                 {teamBestSixMonths.map(m => (
                   <div key={m.metric} className="flex justify-between items-center p-3 rounded-lg bg-muted/50">
-                    <span className="text-sm font-medium">{METRIC_LABELS[m.metric]}</span>
+                    <span className="text-sm font-medium">{metricMap.get(m.metric)?.label ?? m.metric}</span>
                     <span className="text-lg font-bold text-primary">
-                      {m.value.toFixed(2)} <span className="text-sm text-muted-foreground">[{METRIC_UNITS[m.metric]}]</span>
+                      {m.value.toFixed(2)} <span className="text-sm text-muted-foreground">[{metricMap.get(m.metric)?.unit}]</span>
                     </span>
                   </div>
                 ))}
@@ -268,6 +311,8 @@ const Dashboard = () => {
         )}
       </div>
 
+      <MostImprovedCard isStaff={primaryRole === "coach" || primaryRole === "admin"} />
+
       {/* Metric Status Alerts */}
       {metricStatuses.length > 0 && (
         <div className="space-y-4">
@@ -279,7 +324,7 @@ const Dashboard = () => {
                 <strong>Missing entries:</strong>{' '}
                 {metricStatuses
                   .filter(m => m.status === 'missing')
-                  .map(m => METRIC_LABELS[m.metric])
+                  .map(m => metricMap.get(m.metric)?.label ?? m.metric)
                   .join(', ')}
               </AlertDescription>
             </Alert>
@@ -293,7 +338,7 @@ const Dashboard = () => {
                 <strong>Outdated entries ({">"} 3 months):</strong>{' '}
                 {metricStatuses
                   .filter(m => m.status === 'outdated')
-                  .map(m => METRIC_LABELS[m.metric])
+                  .map(m => metricMap.get(m.metric)?.label ?? m.metric)
                   .join(', ')}
               </AlertDescription>
             </Alert>
@@ -316,16 +361,17 @@ const Dashboard = () => {
                     .map(m => (
                       <div key={m.metric} className="p-3 rounded-lg bg-muted/50 space-y-1">
                         <div className="text-sm font-medium text-muted-foreground">
-                          {METRIC_LABELS[m.metric]}
+                          {metricMap.get(m.metric)?.label ?? m.metric}
                         </div>
                         <div className="text-xl font-bold text-primary">
-                          {m.bestValue?.toFixed(2)} <span className="text-sm text-muted-foreground">[{METRIC_UNITS[m.metric]}]</span>
+                          {m.bestValue?.toFixed(2)} <span className="text-sm text-muted-foreground">[{metricMap.get(m.metric)?.unit}]</span>
                         </div>
                         {m.status === 'outdated' && (
                           <Badge variant="outline" className="text-xs">
                             Outdated
                           </Badge>
                         )}
+                        {m.goal && renderGoalBadge(m)}
                       </div>
                     ))}
                 </div>
@@ -0,0 +1,505 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PlayerLink } from "@/components/PlayerLink";
+import { useToast } from "@/hooks/use-toast";
+import { useMetrics } from "@/hooks/useMetrics";
+import { useSeasons } from "@/hooks/useSeasons";
+import { buildMetricMap } from "@/lib/performanceUtils";
+import { POSITION_LABELS, POSITION_OPTIONS, type FootballPosition } from "@/lib/positionUtils";
+import type { RosterMembership } from "@/lib/seasonUtils";
+import type { PositionFit, PositionWeight } from "@/lib/positionFit";
+import {
+  compactLineup,
+  DELETED_PLAYER,
+  DEPTH_LABELS,
+  diffLineups,
+  editableLineup,
+  emptyLineup,
+  isMemberDuring,
+  lineupFromSlots,
+  placePlayer,
+  removePlayer,
+  type DepthChartLineup,
+  type DepthChartVersion,
+} from "@/lib/depthChartUtils";
+import { GripVertical, History, ListOrdered, X } from "lucide-react";
+
+interface Player {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+interface MetricStanding {
+  value: number;
+  percentile: number;
+}
+
+// Subset of the get-performance-analytics response
+interface AnalyticsMetric {
+  metric_type: string;
+  cohorts: Array<{ cohort: string; players: Array<{ player_id: string; value: number; percentile: number }> }>;
+}
+
+interface VersionWithLineup extends DepthChartVersion {
+  lineup: DepthChartLineup;
+}
+
+const CHART_POSITIONS = POSITION_OPTIONS.filter(pos => pos !== "unassigned");
+
+// Slots show the metrics that weigh most in the position's profile
+const KEY_METRIC_COUNT = 3;
+
+const DepthChart = () => {
+  const { toast } = useToast();
+  const { allMetrics } = useMetrics();
+  const metricMap = buildMetricMap(allMetrics);
+  const { seasons, currentSeason } = useSeasons();
+  const [seasonId, setSeasonId] = useState("");
+  const [position, setPosition] = useState<FootballPosition>("QB");
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [memberships, setMemberships] = useState<RosterMembership[]>([]);
+  const [primaryPositions, setPrimaryPositions] = useState<Map<string, FootballPosition>>(new Map());
+  const [weights, setWeights] = useState<PositionWeight[]>([]);
+  const [standings, setStandings] = useState<Map<string, Map<string, MetricStanding>>>(new Map());
+  const [fits, setFits] = useState<Map<string, PositionFit[]>>(new Map());
+  const [versions, setVersions] = useState<VersionWithLineup[]>([]);
+  const [lineup, setLineup] = useState<DepthChartLineup>(emptyLineup());
+  const [note, setNote] = useState("");
+  const [profileNames, setProfileNames] = useState<Map<string, string>>(new Map());
+  const [dragOverDepth, setDragOverDepth] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchPlayers();
+  }, []);
+
+  useEffect(() => {
+    if (seasons.length > 0) {
+      setSeasonId(selected => selected || (currentSeason ?? seasons[0]).id);
+    }
+  }, [seasons, currentSeason]);
+
+  useEffect(() => {
+    if (seasonId) {
+      fetchPerformance();
+    }
+  }, [seasonId]);
+
+  useEffect(() => {
+    if (seasonId) {
+      fetchVersions();
+    }
+  }, [seasonId, position]);
+
+  const fetchPlayers = async () => {
+    const { data: playerRoles } = await supabase
+      .from("user_roles")
+      .select("user_id")
+      .eq("role", "player");
+
+    const playerIds = (playerRoles || []).map(r => r.user_id);
+
+    const [profilesResult, membershipsResult, positionsResult, weightsResult] = await Promise.all([
+      supabase
+        .from("profiles")
+        .select("id, first_name, last_name")
+        .order("last_name", { ascending: true })
+        .order("first_name", { ascending: true }),
+      supabase.from("roster_memberships").select("*"),
+      supabase
+        .from("player_positions")
+        .select("player_id, position")
+        .eq("is_primary", true)
+        .is("ended_on", null),
+      supabase.from("position_metric_weights").select("position, metric_key, weight"),
+    ]);
+
+    if (profilesResult.error || membershipsResult.error) {
+      toast({
+        title: "Error",
+        description: "Failed to load players",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const profiles = profilesResult.data || [];
+    setProfileNames(new Map(profiles.map(p => [p.id, `${p.first_name} ${p.last_name}`])));
+    setPlayers(profiles.filter(p => playerIds.includes(p.id)));
+    setMemberships(membershipsResult.data || []);
+    setPrimaryPositions(new Map(
+      (positionsResult.data || []).map(p => [p.player_id, p.position as FootballPosition])
+    ));
+    setWeights((weightsResult.data || []).map(w => ({ ...w, weight: Number(w.weight) })));
+  };
+
+  // Latest results within the season, ranked against the season's roster
+  const fetchPerformance = async () => {
+    const [analyticsResult, fitResult] = await Promise.all([
+      supabase.functions.invoke("get-performance-analytics", {
+        body: { cohorts: ["team"], season_id: seasonId },
+      }),
+      supabase.functions.invoke("get-position-fit", {
+        body: { season_id: seasonId },
+      }),
+    ]);
+
+    if (analyticsResult.error || fitResult.error) {
+      console.error("Error fetching depth chart performance data:", (analyticsResult.error ?? fitResult.error)?.message);
+    }
+
+    const standingMap = new Map<string, Map<string, MetricStanding>>();
+    ((analyticsResult.data?.metrics || []) as AnalyticsMetric[]).forEach(metric => {
+      metric.cohorts
+        .find(c => c.cohort === "team")
+        ?.players.forEach(p => {
+          if (!standingMap.has(p.player_id)) {
+            standingMap.set(p.player_id, new Map());
+          }
+          standingMap.get(p.player_id)!.set(metric.metric_type, { value: p.value, percentile: p.percentile });
+        });
+    });
+    setStandings(standingMap);
+
+    setFits(new Map(
+      ((fitResult.data?.players || []) as Array<{ player_id: string; fits: PositionFit[] }>)
+        .map(p => [p.player_id, p.fits])
+    ));
+  };
+
+  const fetchVersions = async () => {
+    const { data, error } = await supabase
+      .from("depth_chart_versions")
+      .select("*, depth_chart_slots(depth, player_id)")
+      .eq("season_id", seasonId)
+      .eq("position", position)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const loaded = (data || []).map(({ depth_chart_slots, ...version }) => ({
+      ...version,
+      lineup: lineupFromSlots(depth_chart_slots || []),
+    }));
+    setVersions(loaded);
+    setLineup(editableLineup(loaded[0]?.lineup ?? emptyLineup()));
+    setNote("");
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      const { error } = await supabase.rpc("save_depth_chart", {
+        _season_id: seasonId,
+        _position: position,
+        _player_ids: compactLineup(lineup),
+        _note: note.trim(),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${POSITION_LABELS[position]} depth chart saved`,
+      });
+
+      fetchVersions();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save depth chart",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const season = seasons.find(s => s.id === seasonId);
+
+  // Players on the roster during the season who are not on the chart, those playing the position first
+  const pool = useMemo(() => {
+    if (!season) return [];
+    const memberIds = new Set(memberships.filter(m => isMemberDuring(m, season)).map(m => m.player_id));
+    return players
+      .filter(p => memberIds.has(p.id) && !lineup.includes(p.id))
+      .sort((a, b) => Number(primaryPositions.get(b.id) === position) - Number(primaryPositions.get(a.id) === position));
+  }, [season, memberships, players, lineup, primaryPositions, position]);
+
+  const keyMetrics = weights
+    .filter(w => w.position === position)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, KEY_METRIC_COUNT)
+    .map(w => w.metric_key);
+
+  const savedLineup = editableLineup(versions[0]?.lineup ?? emptyLineup());
+  const isDirty = diffLineups(savedLineup, lineup).length > 0 || note.trim() !== "";
+  const nameOf = (playerId: string | null) => {
+    if (!playerId) return "Empty";
+    if (playerId === DELETED_PLAYER) return "Deleted player";
+    return profileNames.get(playerId) ?? "Unknown";
+  };
+
+  const handleDrop = (e: React.DragEvent, depth: number | null) => {
+    e.preventDefault();
+    setDragOverDepth(null);
+    const playerId = e.dataTransfer.getData("text/plain");
+    if (!playerId) return;
+
+    setLineup(current => depth === null ? removePlayer(current, playerId) : placePlayer(current, playerId, depth));
+  };
+
+  const startDrag = (e: React.DragEvent, playerId: string) => {
+    e.dataTransfer.setData("text/plain", playerId);
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  const renderPlayerCard = (playerId: string) => {
+    const fit = fits.get(playerId)?.find(f => f.position === position);
+    const primary = primaryPositions.get(playerId);
+    return (
+      <div className="flex items-start gap-2 min-w-0">
+        <GripVertical className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+        <div className="min-w-0 flex-1 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <PlayerLink playerId={playerId} className="font-medium text-sm truncate">{nameOf(playerId)}</PlayerLink>
+            {primary && <Badge variant="outline" className="text-xs">{primary}</Badge>}
+            {fit?.score != null && <Badge variant="secondary" className="text-xs">Fit {fit.score}</Badge>}
+          </div>
+          {keyMetrics.length > 0 && (
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+              {keyMetrics.map(key => {
+                const standing = standings.get(playerId)?.get(key);
+                const metric = metricMap.get(key);
+                return (
+                  <span key={key}>
+                    {metric?.label ?? key}: {standing ? `${standing.value} ${metric?.unit ?? ""} · P${standing.percentile}` : "—"}
+                  </span>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold mb-2">Depth Chart</h1>
+          <p className="text-sm md:text-base text-muted-foreground">Drag players into the starter, backup and third string slots</p>
+        </div>
+        <div className="grid grid-cols-2 gap-4 w-full sm:w-auto">
+          <div className="space-y-2">
+            <Label htmlFor="depth-season">Season</Label>
+            <Select value={seasonId} onValueChange={setSeasonId}>
+              <SelectTrigger id="depth-season" className="bg-background sm:w-44">
+                <SelectValue placeholder="Select season" />
+              </SelectTrigger>
+              <SelectContent className="bg-popover z-50">
+                {seasons.map(s => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="depth-position">Position</Label>
+            <Select value={position} onValueChange={(v) => setPosition(v as FootballPosition)}>
+              <SelectTrigger id="depth-position" className="bg-background sm:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover z-50">
+                {CHART_POSITIONS.map(pos => (
+                  <SelectItem key={pos} value={pos}>
+                    {POSITION_LABELS[pos]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {seasons.length === 0 ? (
+        <Card className="border-border/50 shadow-card">
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Create a season on the Roster page to build a depth chart.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="border-border/50 shadow-card">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ListOrdered className="h-5 w-5 text-primary" />
+                {POSITION_LABELS[position]}
+              </CardTitle>
+              <CardDescription>
+                {keyMetrics.length > 0
+                  ? "Key metrics from the position profile with percentiles within the season"
+                  : "Set up a position profile on the Position Fit page to see key metrics"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {lineup.map((playerId, depth) => (
+                <div
+                  key={depth}
+                  onDragOver={(e) => { e.preventDefault(); setDragOverDepth(depth); }}
+                  onDragLeave={() => setDragOverDepth(null)}
+                  onDrop={(e) => handleDrop(e, depth)}
+                  className={`p-4 rounded-lg border-2 border-dashed transition-colors ${
+                    dragOverDepth === depth ? "border-primary bg-primary/10" : "border-border bg-secondary/50"
+                  }`}
+                >
+                  <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">{DEPTH_LABELS[depth]}</p>
+                  {playerId ? (
+                    <div draggable onDragStart={(e) => startDrag(e, playerId)} className="flex items-start justify-between gap-2 cursor-grab">
+                      {renderPlayerCard(playerId)}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setLineup(removePlayer(lineup, playerId))}
+                        aria-label={`Remove ${nameOf(playerId)}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <Select value="" onValueChange={(id) => setLineup(placePlayer(lineup, id, depth))}>
+                      <SelectTrigger className="bg-background" aria-label={`Choose ${DEPTH_LABELS[depth].toLowerCase()}`}>
+                        <SelectValue placeholder="Drop a player here or choose one" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-popover z-50">
+                        {pool.map(p => (
+                          <SelectItem key={p.id} value={p.id}>
+                            {p.first_name} {p.last_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <Label htmlFor="depth-note">Note</Label>
+                <Input
+                  id="depth-note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  maxLength={500}
+                  placeholder="Optional, e.g. reason for the change"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleSave} disabled={!isDirty || isSaving}>
+                  {isSaving ? "Saving..." : "Save Depth Chart"}
+                </Button>
+                {isDirty && (
+                  <Button variant="outline" onClick={() => { setLineup(savedLineup); setNote(""); }}>
+                    Discard
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card
+            className="border-border/50 shadow-card"
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => handleDrop(e, null)}
+          >
+            <CardHeader>
+              <CardTitle>Available Players</CardTitle>
+              <CardDescription>
+                On the roster during {season?.name ?? "the season"}; {POSITION_LABELS[position]}s first. Drop a player here to take them off the chart.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {pool.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No more players available.</p>
+              ) : (
+                <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+                  {pool.map(p => (
+                    <div
+                      key={p.id}
+                      draggable
+                      onDragStart={(e) => startDrag(e, p.id)}
+                      className="p-3 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors cursor-grab"
+                    >
+                      {renderPlayerCard(p.id)}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            History
+          </CardTitle>
+          <CardDescription>Every saved {POSITION_LABELS[position]} depth chart this season, newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No depth chart saved yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {versions.map((version, index) => {
+                const previous = versions[index + 1]?.lineup ?? emptyLineup();
+                const changes = diffLineups(previous, version.lineup);
+                return (
+                  <div key={version.id} className="p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors space-y-1">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <p className="text-sm font-medium">
+                        {new Date(version.created_at).toLocaleString()} · {version.created_by ? nameOf(version.created_by) : "Deleted user"}
+                      </p>
+                      {index === 0 && <Badge className="text-xs">Current</Badge>}
+                    </div>
+                    {changes.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">No changes to the lineup</p>
+                    ) : (
+                      changes.map(change => (
+                        <p key={change.depth} className="text-xs text-muted-foreground">
+                          {DEPTH_LABELS[change.depth - 1]}: {nameOf(change.from)} → {nameOf(change.to)}
+                        </p>
+                      ))
+                    )}
+                    {version.note && <p className="text-sm">{version.note}</p>}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DepthChart;
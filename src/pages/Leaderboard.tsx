@@ -0,0 +1,306 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScopeSelect } from "@/components/ScopeSelect";
+import { PlayerLink } from "@/components/PlayerLink";
+import { useToast } from "@/hooks/use-toast";
+import { useMetrics } from "@/hooks/useMetrics";
+import { SCOPE_ACTIVE_ROSTER, scopeFromSelection } from "@/lib/seasonUtils";
+import { POSITION_LABELS, POSITION_OPTIONS } from "@/lib/positionUtils";
+import { buildMetricMap, formatMetricLabel } from "@/lib/performanceUtils";
+import { ArrowDown, ArrowUp, Minus, Trophy } from "lucide-react";
+
+interface LeaderboardRow {
+  rank: number;
+  previous_rank: number | null;
+  player_id: string;
+  player_name: string;
+  value: number;
+  entry_date: string;
+}
+
+interface LeaderboardData {
+  metric_type: string;
+  names_visible: boolean;
+  total: number;
+  compared_to: { name: string; session_date: string } | null;
+  rankings: LeaderboardRow[];
+}
+
+const WINDOW_OPTIONS = [
+  { value: "all", label: "All time" },
+  { value: "12m", label: "Last 12 months" },
+  { value: "6m", label: "Last 6 months" },
+  { value: "1m", label: "Last month" },
+];
+
+function RankChange({ row, compared }: { row: LeaderboardRow; compared: boolean }) {
+  if (!compared) return null;
+
+  if (row.previous_rank === null) {
+    return <Badge variant="secondary" className="text-xs">New</Badge>;
+  }
+
+  const change = row.previous_rank - row.rank;
+  if (change > 0) {
+    return (
+      <span className="flex items-center text-xs text-green-600 dark:text-green-400" title={`Up from #${row.previous_rank}`}>
+        <ArrowUp className="h-3 w-3" />{change}
+      </span>
+    );
+  }
+  if (change < 0) {
+    return (
+      <span className="flex items-center text-xs text-orange-600 dark:text-orange-400" title={`Down from #${row.previous_rank}`}>
+        <ArrowDown className="h-3 w-3" />{-change}
+      </span>
+    );
+  }
+  return <Minus className="h-3 w-3 text-muted-foreground" aria-label="No change" />;
+}
+
+const Leaderboard = () => {
+  const { toast } = useToast();
+  const { metrics } = useMetrics();
+  const metricMap = buildMetricMap(metrics);
+  const [selectedMetric, setSelectedMetric] = useState("");
+  const [group, setGroup] = useState("all");
+  const [timeWindow, setTimeWindow] = useState("all");
+  const [scopeSelection, setScopeSelection] = useState<string>(SCOPE_ACTIVE_ROSTER);
+  const scope = useMemo(() => scopeFromSelection(scopeSelection), [scopeSelection]);
+  const [data, setData] = useState<LeaderboardData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState("");
+  const [isStaff, setIsStaff] = useState(false);
+  const [showNames, setShowNames] = useState(true);
+
+  useEffect(() => {
+    fetchUser();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedMetric && metrics.length > 0) {
+      setSelectedMetric(metrics[0].key);
+    }
+  }, [metrics]);
+
+  useEffect(() => {
+    if (selectedMetric) {
+      fetchLeaderboard();
+    }
+  }, [selectedMetric, group, timeWindow, scope]);
+
+  const fetchUser = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setCurrentUserId(user.id);
+
+    const [{ data: rolesData }, { data: settings }] = await Promise.all([
+      supabase.from("user_roles").select("role").eq("user_id", user.id),
+      supabase.from("team_settings").select("leaderboard_show_names").maybeSingle(),
+    ]);
+
+    const roles = (rolesData || []).map(r => r.role);
+    setIsStaff(roles.includes("coach") || roles.includes("admin"));
+    setShowNames(settings?.leaderboard_show_names ?? true);
+  };
+
+  const fetchLeaderboard = async () => {
+    setIsLoading(true);
+
+    try {
+      const { data: result, error } = await supabase.functions.invoke("get-leaderboard", {
+        body: { metric_type: selectedMetric, group, window: timeWindow, ...scope },
+      });
+
+      if (error) throw error;
+
+      setData(result);
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load leaderboard",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleShowNamesChange = async (checked: boolean) => {
+    setShowNames(checked);
+
+    const { error } = await supabase
+      .from("team_settings")
+      .update({
+        leaderboard_show_names: checked,
+        updated_at: new Date().toISOString(),
+        updated_by: currentUserId,
+      })
+      .eq("id", true);
+
+    if (error) {
+      setShowNames(!checked);
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: checked
+        ? "Players can now see everyone's name on the leaderboard"
+        : "Players now only see their own rank",
+    });
+  };
+
+  const metric = metricMap.get(selectedMetric);
+  const ownRow = data?.rankings.find(row => row.player_id === currentUserId);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold mb-2">Leaderboard</h1>
+          <p className="text-sm md:text-base text-muted-foreground">Team rankings by each player's best result</p>
+        </div>
+        {isStaff && (
+          <div className="flex items-center gap-2">
+            <Switch id="show-names" checked={showNames} onCheckedChange={handleShowNamesChange} />
+            <Label htmlFor="show-names" className="cursor-pointer">Show names to players</Label>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="leaderboard-metric">Metric</Label>
+          <Select value={selectedMetric} onValueChange={setSelectedMetric}>
+            <SelectTrigger id="leaderboard-metric" className="bg-background">
+              <SelectValue placeholder="Select metric" />
+            </SelectTrigger>
+            <SelectContent className="bg-popover z-50">
+              {metrics.map(m => (
+                <SelectItem key={m.key} value={m.key}>
+                  {formatMetricLabel(m)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="leaderboard-group">Position</Label>
+          <Select value={group} onValueChange={setGroup}>
+            <SelectTrigger id="leaderboard-group" className="bg-background">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover z-50">
+              <SelectItem value="all">All Positions</SelectItem>
+              <SelectItem value="offense">Offense</SelectItem>
+              <SelectItem value="defense">Defense</SelectItem>
+              {POSITION_OPTIONS.filter(pos => pos !== "unassigned").map(pos => (
+                <SelectItem key={pos} value={pos}>
+                  {POSITION_LABELS[pos]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="leaderboard-window">Time Window</Label>
+          <Select value={timeWindow} onValueChange={setTimeWindow}>
+            <SelectTrigger id="leaderboard-window" className="bg-background">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover z-50">
+              {WINDOW_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <ScopeSelect value={scopeSelection} onValueChange={setScopeSelection} />
+      </div>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Trophy className="h-5 w-5 text-primary" />
+            {metric ? formatMetricLabel(metric) : "Rankings"}
+          </CardTitle>
+          {data?.compared_to && (
+            <CardDescription>
+              Rank changes since before {data.compared_to.name} ({new Date(data.compared_to.session_date).toLocaleDateString()})
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading && !data ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+          ) : !data || data.total === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No results for this selection yet.</p>
+          ) : !data.names_visible ? (
+            <div className="text-center py-8 space-y-2">
+              {ownRow ? (
+                <>
+                  <p className="text-3xl font-bold text-primary">#{ownRow.rank}</p>
+                  <p className="text-sm text-muted-foreground">
+                    You are #{ownRow.rank} of {data.total} with {ownRow.value} {metric?.unit}
+                  </p>
+                  <div className="flex justify-center">
+                    <RankChange row={ownRow} compared={!!data.compared_to} />
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  You have no result in this selection. {data.total} players are ranked.
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {data.rankings.map(row => (
+                <div
+                  key={row.player_id}
+                  className={`flex items-center gap-3 p-4 rounded-lg transition-colors ${
+                    row.player_id === currentUserId
+                      ? "bg-primary/10 hover:bg-primary/15"
+                      : "bg-secondary/50 hover:bg-secondary"
+                  }`}
+                >
+                  <span className="w-8 text-lg font-bold text-primary">#{row.rank}</span>
+                  <div className="w-10 flex justify-center">
+                    <RankChange row={row} compared={!!data.compared_to} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-sm sm:text-base truncate">
+                      {isStaff || row.player_id === currentUserId
+                        ? <PlayerLink playerId={row.player_id}>{row.player_name}</PlayerLink>
+                        : row.player_name}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{new Date(row.entry_date).toLocaleDateString()}</p>
+                  </div>
+                  <p className="text-lg font-bold shrink-0">
+                    {row.value} <span className="text-xs text-muted-foreground">{metric?.unit}</span>
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,419 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ResponsiveDialog } from "@/components/ResponsiveDialog";
+import { CompositeMetricDialog } from "@/components/CompositeMetricDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMetrics } from "@/hooks/useMetrics";
+import { metricDefinitionSchema } from "@/lib/validation";
+import { AGGREGATION_LABELS, isLowerBetter, type MetricAggregation, type MetricDefinition } from "@/lib/performanceUtils";
+import { Plus, Pencil, Ruler, Sigma } from "lucide-react";
+
+type MetricDirection = MetricDefinition["direction"];
+
+const DIRECTION_LABELS: Record<MetricDirection, string> = {
+  higher_is_better: "Higher is better",
+  lower_is_better: "Lower is better",
+};
+
+// Sensible starting points for the normalization baseline per direction
+const DEFAULT_BASELINE_FACTOR: Record<MetricDirection, number> = {
+  higher_is_better: 0.5,
+  lower_is_better: 1.4,
+};
+
+const parseOptionalNumber = (raw: string | null) => {
+  const trimmed = (raw || "").trim();
+  return trimmed === "" ? null : parseFloat(trimmed);
+};
+
+const Metrics = () => {
+  const { toast } = useToast();
+  const { metrics, components, refetch } = useMetrics({ includeInactive: true });
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingMetric, setEditingMetric] = useState<MetricDefinition | null>(null);
+  const [direction, setDirection] = useState<MetricDirection>("higher_is_better");
+  const [aggregation, setAggregation] = useState<MetricAggregation>("best");
+  const [isActive, setIsActive] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCompositeDialogOpen, setIsCompositeDialogOpen] = useState(false);
+  const [editingComposite, setEditingComposite] = useState<MetricDefinition | null>(null);
+
+  const openCreateDialog = () => {
+    setEditingMetric(null);
+    setDirection("higher_is_better");
+    setAggregation("best");
+    setIsActive(true);
+    setIsDialogOpen(true);
+  };
+
+  const openCompositeDialog = (metric: MetricDefinition | null) => {
+    setEditingComposite(metric);
+    setIsCompositeDialogOpen(true);
+  };
+
+  const openEditDialog = (metric: MetricDefinition) => {
+    if (metric.kind === "composite") {
+      openCompositeDialog(metric);
+      return;
+    }
+
+    setEditingMetric(metric);
+    setDirection(metric.direction);
+    setAggregation(metric.aggregation);
+    setIsActive(metric.is_active);
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    const formData = new FormData(e.currentTarget);
+    const validation = metricDefinitionSchema.safeParse({
+      key: editingMetric ? editingMetric.key : (formData.get("key") as string),
+      label: formData.get("label") as string,
+      unit: formData.get("unit") as string,
+      direction,
+      aggregation,
+      baseline_factor: parseFloat(formData.get("baseline_factor") as string),
+      input_step: parseFloat(formData.get("input_step") as string),
+      display_order: parseInt(formData.get("display_order") as string, 10),
+      is_active: isActive,
+      reference_min: parseOptionalNumber(formData.get("reference_min") as string),
+      reference_max: parseOptionalNumber(formData.get("reference_max") as string),
+      plausible_min: parseOptionalNumber(formData.get("plausible_min") as string),
+      plausible_max: parseOptionalNumber(formData.get("plausible_max") as string),
+    });
+
+    if (!validation.success) {
+      const errors = validation.error.errors.map(e => e.message).join(", ");
+      toast({
+        title: "Validation Error",
+        description: errors,
+        variant: "destructive",
+      });
+      setIsLoading(false);
+      return;
+    }
+
+    const { key, label, unit, baseline_factor, input_step, display_order, is_active, reference_min, reference_max, plausible_min, plausible_max } = validation.data;
+
+    try {
+      const { error } = editingMetric
+        ? await supabase
+            .from("metrics")
+            .update({ label, unit, direction, aggregation, baseline_factor, input_step, display_order, is_active, reference_min, reference_max, plausible_min, plausible_max })
+            .eq("key", editingMetric.key)
+        : await supabase
+            .from("metrics")
+            .insert([{ key, label, unit, direction, aggregation, baseline_factor, input_step, display_order, is_active, reference_min, reference_max, plausible_min, plausible_max }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: editingMetric ? "Metric updated successfully" : "Metric created successfully",
+      });
+
+      setIsDialogOpen(false);
+      setEditingMetric(null);
+      refetch();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save metric",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const nextDisplayOrder = metrics.reduce((max, m) => Math.max(max, m.display_order), 0) + 10;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold mb-2">Metrics</h1>
+          <p className="text-sm md:text-base text-muted-foreground">Manage the drills tracked by the team</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => openCompositeDialog(null)}>
+            <Sigma className="h-4 w-4 mr-2" />
+            Add Composite
+          </Button>
+          <Button onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Metric
+          </Button>
+        </div>
+      </div>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Ruler className="h-5 w-5 text-primary" />
+            Metric Registry
+          </CardTitle>
+          <CardDescription>Inactive metrics keep their history but are hidden from entry forms and charts</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {metrics.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                No metrics defined yet. Add your first drill to get started!
+              </p>
+            ) : (
+              metrics.map((metric) => (
+                <div
+                  key={metric.key}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors gap-3"
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="font-semibold text-sm sm:text-base truncate">
+                      {metric.label} <span className="text-xs font-normal text-muted-foreground">[{metric.unit}]</span>
+                    </p>
+                    <p className="text-xs sm:text-sm text-muted-foreground truncate">{metric.key}</p>
+                  </div>
+                  <div className="flex items-center justify-between sm:justify-end gap-3">
+                    <div className="flex flex-wrap gap-2">
+                      <Badge variant="outline" className="text-xs">
+                        {DIRECTION_LABELS[metric.direction]}
+                      </Badge>
+                      <Badge variant="outline" className="text-xs">
+                        Baseline ×{metric.baseline_factor}
+                      </Badge>
+                      {metric.reference_min !== null && metric.reference_max !== null && (
+                        <Badge variant="outline" className="text-xs">
+                          Range {metric.reference_min}–{metric.reference_max}
+                        </Badge>
+                      )}
+                      {(metric.plausible_min !== null || metric.plausible_max !== null) && (
+                        <Badge variant="outline" className="text-xs">
+                          Plausible {metric.plausible_min ?? "…"}–{metric.plausible_max ?? "…"}
+                        </Badge>
+                      )}
+                      {metric.kind === "derived" && metric.source_metric && (
+                        <Badge variant="outline" className="text-xs">
+                          Derived from {metrics.find(m => m.key === metric.source_metric)?.label ?? metric.source_metric}
+                        </Badge>
+                      )}
+                      {metric.kind === "composite" && (
+                        <Badge variant="outline" className="text-xs">
+                          Composite of {components
+                            .filter(c => c.composite_key === metric.key)
+                            .map(c => `${metrics.find(m => m.key === c.component_key)?.label ?? c.component_key} ×${c.weight}`)
+                            .join(", ")}
+                        </Badge>
+                      )}
+                      {metric.aggregation !== "best" && metric.kind !== "composite" && (
+                        <Badge variant="outline" className="text-xs">
+                          {AGGREGATION_LABELS[metric.aggregation]}
+                        </Badge>
+                      )}
+                      {!metric.is_active && (
+                        <Badge variant="secondary" className="text-xs">
+                          Inactive
+                        </Badge>
+                      )}
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => openEditDialog(metric)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <ResponsiveDialog
+        open={isDialogOpen}
+        onOpenChange={(open) => { setIsDialogOpen(open); if (!open) setEditingMetric(null); }}
+        title={editingMetric ? "Edit Metric" : "Add Metric"}
+        description={editingMetric ? "Update how this drill is recorded and scored" : "Register a new drill for performance tracking"}
+      >
+        <form key={editingMetric?.key ?? "new"} onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="metric-label">Label</Label>
+            <Input id="metric-label" name="label" type="text" defaultValue={editingMetric?.label} placeholder="e.g. Broad Jump" required />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="metric-key">Key</Label>
+              <Input
+                id="metric-key"
+                name="key"
+                type="text"
+                defaultValue={editingMetric?.key}
+                placeholder="e.g. broad_jump"
+                disabled={!!editingMetric}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="metric-unit">Unit</Label>
+              <Input id="metric-unit" name="unit" type="text" defaultValue={editingMetric?.unit} placeholder="e.g. cm" required />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="metric-direction">Direction</Label>
+            <Select value={direction} onValueChange={(v) => setDirection(v as MetricDirection)}>
+              <SelectTrigger id="metric-direction" className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover z-50">
+                {(Object.keys(DIRECTION_LABELS) as MetricDirection[]).map((d) => (
+                  <SelectItem key={d} value={d}>
+                    {DIRECTION_LABELS[d]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="metric-aggregation">Attempt Aggregation</Label>
+            <Select value={aggregation} onValueChange={(v) => setAggregation(v as MetricAggregation)}>
+              <SelectTrigger id="metric-aggregation" className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover z-50">
+                {(Object.keys(AGGREGATION_LABELS) as MetricAggregation[]).map((a) => (
+                  <SelectItem key={a} value={a}>
+                    {AGGREGATION_LABELS[a]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">How multiple attempts on the same day become the day's result.</p>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="metric-baseline">Baseline Factor</Label>
+              <Input
+                key={direction}
+                id="metric-baseline"
+                name="baseline_factor"
+                type="number"
+                step="0.05"
+                defaultValue={editingMetric?.direction === direction ? editingMetric.baseline_factor : DEFAULT_BASELINE_FACTOR[direction]}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="metric-step">Input Step</Label>
+              <Input
+                id="metric-step"
+                name="input_step"
+                type="number"
+                step="0.01"
+                defaultValue={editingMetric?.input_step ?? (isLowerBetter({ direction }) ? 0.01 : 1)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="metric-order">Display Order</Label>
+              <Input
+                id="metric-order"
+                name="display_order"
+                type="number"
+                step="1"
+                defaultValue={editingMetric?.display_order ?? nextDisplayOrder}
+                required
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The baseline factor defines a score of 0 on the radar chart: the group's best multiplied by this factor.
+          </p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="metric-reference-min">Reference Minimum</Label>
+              <Input
+                id="metric-reference-min"
+                name="reference_min"
+                type="number"
+                step="any"
+                defaultValue={editingMetric?.reference_min ?? ""}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="metric-reference-max">Reference Maximum</Label>
+              <Input
+                id="metric-reference-max"
+                name="reference_max"
+                type="number"
+                step="any"
+                defaultValue={editingMetric?.reference_max ?? ""}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Optional fixed range for the reference range scoring model. The better end scores 100, the other end 0.
+          </p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="metric-plausible-min">Plausible Minimum</Label>
+              <Input
+                id="metric-plausible-min"
+                name="plausible_min"
+                type="number"
+                step="any"
+                defaultValue={editingMetric?.plausible_min ?? ""}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="metric-plausible-max">Plausible Maximum</Label>
+              <Input
+                id="metric-plausible-max"
+                name="plausible_max"
+                type="number"
+                step="any"
+                defaultValue={editingMetric?.plausible_max ?? ""}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Optional. Results outside this range are flagged for review, as are results far off a player's recent history.
+          </p>
+
+          <div className="flex items-center space-x-2">
+            <Switch id="metric-active" checked={isActive} onCheckedChange={setIsActive} />
+            <Label htmlFor="metric-active" className="cursor-pointer">Active</Label>
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isLoading}>
+            {isLoading ? "Saving..." : editingMetric ? "Update Metric" : "Create Metric"}
+          </Button>
+        </form>
+      </ResponsiveDialog>
+
+      <CompositeMetricDialog
+        open={isCompositeDialogOpen}
+        onOpenChange={(open) => { setIsCompositeDialogOpen(open); if (!open) setEditingComposite(null); }}
+        metric={editingComposite}
+        metrics={metrics}
+        components={components}
+        nextDisplayOrder={nextDisplayOrder}
+        onSuccess={refetch}
+      />
+    </div>
+  );
+};
+
+export default Metrics;
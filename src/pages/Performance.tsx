@@ -1,22 +1,38 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, TrendingUp, Pencil, Trash2, Download, Users } from "lucide-react";
+import { ToastAction } from "@/components/ui/toast";
+import { Plus, TrendingUp, Pencil, Trash2, Download, Upload, Users, FileSpreadsheet, FileText, Archive } from "lucide-react";
 import { ResponsiveDialog } from "@/components/ResponsiveDialog";
 import { BatchCreateDialog } from "@/components/BatchCreateDialog";
+import { ImportDialog } from "@/components/ImportDialog";
+import { PlausibilityWarning } from "@/components/PlausibilityWarning";
+import { SubmissionStatusCard } from "@/components/SubmissionStatusCard";
+import { PlayerLink } from "@/components/PlayerLink";
+import { ReportCardDialog } from "@/components/ReportCardDialog";
+import { TrashDialog } from "@/components/TrashDialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { PerformanceRadarChart } from "@/components/PerformanceRadarChart";
 import { PlayerPerformanceChart } from "@/components/PlayerPerformanceChart";
 import { PerformanceNeighborhood } from "@/components/PerformanceNeighborhood";
+import { ScopeSelect } from "@/components/ScopeSelect";
+import { SCOPE_ACTIVE_ROSTER, scopeFromSelection } from "@/lib/seasonUtils";
 import { POSITION_OPTIONS, POSITION_LABELS, getPositionUnit, type FootballPosition } from "@/lib/positionUtils";
 import { performanceEntrySchema } from "@/lib/validation";
+import { downloadCsv } from "@/lib/csv";
+import { buildTeamWorkbook, downloadWorkbook } from "@/lib/exportUtils";
+import { TRASH_RETENTION_DAYS } from "@/lib/trashUtils";
 import { z } from "zod";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useMetrics } from "@/hooks/useMetrics";
+import { usePlausibilityCheck } from "@/hooks/usePlausibilityCheck";
+import { AGGREGATION_LABELS, buildMetricMap, formatMetricLabel } from "@/lib/performanceUtils";
 
 interface PerformanceEntry {
   id: string;
@@ -25,6 +41,10 @@ interface PerformanceEntry {
   value: number;
   unit: string;
   player_id: string;
+  attempt_number: number;
+  attempt_count: number;
+  // Every attempt of that day, in attempt order; only loaded when there is more than one
+  attempts?: EntryAttempt[];
   player?: {
     first_name: string;
     last_name: string;
@@ -32,9 +52,18 @@ interface PerformanceEntry {
   };
 }
 
+interface EntryAttempt {
+  id: string;
+  attempt_number: number;
+  value: number;
+}
+
 const Performance = () => {
   const { toast } = useToast();
   const isMobile = useIsMobile();
+  const { metrics } = useMetrics({ measuredOnly: true });
+  const { metrics: allMetrics } = useMetrics({ includeInactive: true });
+  const metricMap = buildMetricMap(allMetrics);
   const [entries, setEntries] = useState<PerformanceEntry[]>([]);
   const [players, setPlayers] = useState<any[]>([]);
   const [userRole, setUserRole] = useState("");
@@ -43,13 +72,31 @@ const Performance = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [selectedPlayerId, setSelectedPlayerId] = useState<string>("");
   const [selectedMetric, setSelectedMetric] = useState<string>("");
+  const [newValue, setNewValue] = useState("");
   const [editingEntry, setEditingEntry] = useState<PerformanceEntry | null>(null);
+  const [editValue, setEditValue] = useState<string | null>(null);
   const [deletingEntryId, setDeletingEntryId] = useState<string | null>(null);
   const [filterMetric, setFilterMetric] = useState<string>("all");
   const [filterPlayer, setFilterPlayer] = useState<string>("all");
   const [filterPosition, setFilterPosition] = useState<string>("all");
   const [filterUnit, setFilterUnit] = useState<string>("all");
   const [isBatchDialogOpen, setIsBatchDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isReportCardOpen, setIsReportCardOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [scopeSelection, setScopeSelection] = useState<string>(SCOPE_ACTIVE_ROSTER);
+  const [excludeFlagged, setExcludeFlagged] = useState(false);
+  const [submissionsKey, setSubmissionsKey] = useState(0);
+  const scope = useMemo(
+    () => ({ ...scopeFromSelection(scopeSelection), ...(excludeFlagged && { exclude_flagged: true }) }),
+    [scopeSelection, excludeFlagged]
+  );
+  const entryPlayerId = userRole === "coach" || userRole === "admin" ? selectedPlayerId : currentUserId;
+  const { check: checkPlausibility } = usePlausibilityCheck([entryPlayerId, editingEntry?.player_id ?? ""]);
+  const newValueIssue = checkPlausibility(entryPlayerId, metricMap.get(selectedMetric), parseFloat(newValue));
+  const editValueIssue = editingEntry && editValue !== null
+    ? checkPlausibility(editingEntry.player_id, metricMap.get(editingEntry.metric_type), parseFloat(editValue), editingEntry.id)
+    : null;
 
   useEffect(() => {
     fetchData();
@@ -100,7 +147,7 @@ const Performance = () => {
         // Then get profiles for those users
         const { data: playersData } = await supabase
           .from("profiles")
-          .select("id, first_name, last_name")
+          .select("id, username, first_name, last_name")
           .in("id", playerIds)
           .order("last_name", { ascending: true })
           .order("first_name", { ascending: true });
@@ -144,6 +191,8 @@ const Performance = () => {
         .from('player_positions')
         .select('player_id, position')
         .in('player_id', playerIdsToFetch)
+        .eq('is_primary', true)
+        .is('ended_on', null)
     ]);
 
     const playerMap = new Map(
@@ -154,6 +203,28 @@ const Performance = () => {
       (playerPositionsResult.data || []).map(p => [p.player_id, p.position])
     );
 
+    // Load the individual attempts behind daily results that combine several
+    const multiAttemptEntries = entriesData.filter(e => e.attempt_count > 1);
+    const attemptMap = new Map<string, EntryAttempt[]>();
+    if (multiAttemptEntries.length > 0) {
+      const { data: attemptsData } = await supabase
+        .from('performance_entries')
+        .select('id, player_id, metric_type, entry_date, attempt_number, value')
+        .is('deleted_at', null)
+        .eq('status', 'approved')
+        .in('player_id', [...new Set(multiAttemptEntries.map(e => e.player_id))])
+        .in('entry_date', [...new Set(multiAttemptEntries.map(e => e.entry_date))])
+        .order('attempt_number', { ascending: true });
+
+      (attemptsData || []).forEach(attempt => {
+        const key = `${attempt.player_id}|${attempt.metric_type}|${attempt.entry_date}`;
+        if (!attemptMap.has(key)) {
+          attemptMap.set(key, []);
+        }
+        attemptMap.get(key)!.push({ id: attempt.id, attempt_number: attempt.attempt_number, value: attempt.value });
+      });
+    }
+
     // Transform entries to match our interface
     const transformedEntries: PerformanceEntry[] = (entriesData || []).map((entry: any) => {
       const profile = playerMap.get(entry.player_id);
@@ -165,6 +236,9 @@ const Performance = () => {
         value: entry.value,
         unit: entry.unit,
         player_id: entry.player_id,
+        attempt_number: entry.attempt_number,
+        attempt_count: entry.attempt_count,
+        attempts: attemptMap.get(`${entry.player_id}|${entry.metric_type}|${entry.entry_date}`),
         player: profile ? {
           first_name: profile.first_name,
           last_name: profile.last_name,
@@ -174,6 +248,7 @@ const Performance = () => {
     });
 
     setEntries(transformedEntries);
+    setSubmissionsKey(key => key + 1);
   };
 
   const handleAddEntry = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -205,23 +280,25 @@ const Performance = () => {
       return;
     }
 
-    const unitMap: Record<string, string> = {
-      "vertical_jump": "cm",
-      "jump_gather": "cm",
-      "30yd_dash": "s",
-      "3_cone_drill": "s",
-      "shuttle_5_10_5": "s",
-      "pushups_1min": "reps",
-    };
+    const metric = metricMap.get(metricType);
+    if (!metric || !metric.is_active) {
+      toast({
+        title: "Validation Error",
+        description: "Invalid metric type",
+        variant: "destructive",
+      });
+      setIsLoading(false);
+      return;
+    }
 
     try {
       const { error } = await supabase
         .from("performance_entries")
         .insert([{
           player_id: playerId,
-          metric_type: metricType as any,
+          metric_type: metricType,
           value: value,
-          unit: unitMap[metricType],
+          unit: metric.unit,
           entry_date: entryDate,
           created_by: currentUserId,
         }]);
@@ -230,10 +307,15 @@ const Performance = () => {
 
       toast({
         title: "Success",
-        description: "Performance entry added successfully",
+        description: userRole === "player"
+          ? "Performance entry submitted for coach approval"
+          : newValueIssue
+            ? "Performance entry added and flagged for coach review"
+            : "Performance entry added successfully",
       });
 
       setIsDialogOpen(false);
+      setNewValue("");
       fetchData();
     } catch (error: any) {
       toast({
@@ -288,10 +370,15 @@ const Performance = () => {
 
       toast({
         title: "Success",
-        description: "Performance entry updated successfully",
+        description: userRole === "player"
+          ? "Performance entry updated and submitted for coach approval"
+          : editValueIssue
+            ? "Performance entry updated and flagged for coach review"
+            : "Performance entry updated successfully",
       });
 
       setEditingEntry(null);
+      setEditValue(null);
       fetchData();
     } catch (error: any) {
       toast({
@@ -308,17 +395,25 @@ const Performance = () => {
     if (!deletingEntryId) return;
     setIsLoading(true);
 
+    const entryId = deletingEntryId;
+
     try {
+      // Entries go to the trash first; they are purged once the retention window has passed
       const { error } = await supabase
         .from("performance_entries")
-        .delete()
-        .eq("id", deletingEntryId);
+        .update({ deleted_at: new Date().toISOString(), deleted_by: currentUserId })
+        .eq("id", entryId);
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Performance entry deleted successfully",
+        description: "Performance entry moved to trash",
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => handleRestoreEntry(entryId)}>
+            Undo
+          </ToastAction>
+        ),
       });
 
       setDeletingEntryId(null);
@@ -334,19 +429,38 @@ const Performance = () => {
     }
   };
 
+  const handleRestoreEntry = async (entryId: string) => {
+    const { error } = await supabase
+      .from("performance_entries")
+      .update({ deleted_at: null })
+      .eq("id", entryId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: "Performance entry restored",
+    });
+
+    fetchData();
+  };
+
   const canEditEntry = (entry: PerformanceEntry) => {
     if (userRole === "admin" || userRole === "coach") return true;
     if (userRole === "player" && entry.player_id === currentUserId) return true;
     return false;
   };
 
-  const metricDisplayNames: Record<string, string> = {
-    "vertical_jump": "Vertical Jump [cm]",
-    "jump_gather": "Jump w. Gather Step [cm]",
-    "30yd_dash": "30-Yard Dash [s]",
-    "3_cone_drill": "3-Cone Drill [s]",
-    "shuttle_5_10_5": "5-10-5 Shuttle [s]",
-    "pushups_1min": "Push-Ups (1 Min AMRAP) [reps]",
+  const getMetricDisplayName = (metricType: string) => {
+    const metric = metricMap.get(metricType);
+    return metric ? formatMetricLabel(metric) : metricType;
   };
 
   const canAddEntry = userRole === "coach" || userRole === "admin" || userRole === "player";
@@ -382,6 +496,8 @@ const Performance = () => {
       const { data: allEntries, error } = await supabase
         .from("performance_entries")
         .select("*")
+        .is("deleted_at", null)
+        .eq("status", "approved")
         .order("entry_date", { ascending: false });
 
       if (error) throw error;
@@ -395,47 +511,20 @@ const Performance = () => {
 
       const profilesMap = new Map(profilesData?.map(p => [p.id, p]));
 
-      // Convert to CSV format
-      const csvRows = [];
-      
-      // Header row
-      csvRows.push([
-        "Date",
-        "Player First Name",
-        "Player Last Name",
-        "Metric Type",
-        "Value",
-        "Unit"
-      ].join(","));
-
-      // Data rows
-      allEntries?.forEach(entry => {
-        const player = profilesMap.get(entry.player_id);
-        csvRows.push([
-          entry.entry_date,
-          player?.first_name || "",
-          player?.last_name || "",
-          metricDisplayNames[entry.metric_type],
-          entry.value,
-          entry.unit
-        ].join(","));
-      });
-
-      // Create CSV content
-      const csvContent = csvRows.join("\n");
-      
-      // Create blob and download
-      const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-      const link = document.createElement("a");
-      const url = URL.createObjectURL(blob);
-      
-      link.setAttribute("href", url);
-      link.setAttribute("download", `performance_data_${new Date().toISOString().split("T")[0]}.csv`);
-      link.style.visibility = "hidden";
-      
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      downloadCsv(`performance_data_${new Date().toISOString().split("T")[0]}.csv`, [
+        ["Date", "Player First Name", "Player Last Name", "Metric Type", "Value", "Unit"],
+        ...(allEntries || []).map(entry => {
+          const player = profilesMap.get(entry.player_id);
+          return [
+            entry.entry_date,
+            player?.first_name || "",
+            player?.last_name || "",
+            getMetricDisplayName(entry.metric_type),
+            entry.value,
+            entry.unit
+          ];
+        }),
+      ]);
 
       toast({
         title: "Success",
@@ -450,6 +539,49 @@ const Performance = () => {
     }
   };
 
+  const handleExportExcel = async () => {
+    try {
+      const { data: allEntries, error } = await supabase
+        .from("performance_entries")
+        .select("player_id, metric_type, value, entry_date, attempt_number")
+        .is("deleted_at", null)
+        .eq("status", "approved");
+
+      if (error) throw error;
+
+      const playerIds = [...new Set(allEntries?.map(e => e.player_id) || [])];
+      const { data: profilesData, error: profilesError } = await supabase
+        .from("profiles")
+        .select("id, first_name, last_name")
+        .in("id", playerIds);
+
+      if (profilesError) throw profilesError;
+
+      const workbook = buildTeamWorkbook(allEntries || [], profilesData || [], allMetrics);
+      if (workbook.worksheets.length === 0) {
+        toast({
+          title: "Error",
+          description: "There are no performance entries to export",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      await downloadWorkbook(workbook, `performance_data_${new Date().toISOString().split("T")[0]}.xlsx`);
+
+      toast({
+        title: "Success",
+        description: "Performance workbook exported successfully",
+      });
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export workbook",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <div className="space-y-4 md:space-y-6">
       <div className="flex flex-col gap-4">
@@ -464,16 +596,34 @@ const Performance = () => {
                 <Download className="h-4 w-4 mr-2" />
                 Export CSV
               </Button>
+              <Button variant="outline" onClick={handleExportExcel}>
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Export Excel
+              </Button>
+              <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
               <Button variant="outline" onClick={() => setIsBatchDialogOpen(true)}>
                 <Users className="h-4 w-4 mr-2" />
                 Batch Create
               </Button>
+              <Button variant="outline" onClick={() => setIsTrashOpen(true)}>
+                <Archive className="h-4 w-4 mr-2" />
+                Trash
+              </Button>
             </>
           )}
+          {canAddEntry && (
+            <Button variant="outline" onClick={() => setIsReportCardOpen(true)}>
+              <FileText className="h-4 w-4 mr-2" />
+              Report Card
+            </Button>
+          )}
           {canAddEntry && (
             <ResponsiveDialog
               open={isDialogOpen}
-              onOpenChange={(open) => { setIsDialogOpen(open); if (!open) { setSelectedPlayerId(""); setSelectedMetric(""); } }}
+              onOpenChange={(open) => { setIsDialogOpen(open); if (!open) { setSelectedPlayerId(""); setSelectedMetric(""); setNewValue(""); } }}
               title="Add Performance Entry"
               description="Record a new performance metric"
               trigger={
@@ -516,9 +666,9 @@ const Performance = () => {
                       <SelectValue placeholder="Select metric" />
                     </SelectTrigger>
                     <SelectContent className="bg-popover z-50">
-                      {Object.entries(metricDisplayNames).map(([key, label]) => (
-                        <SelectItem key={key} value={key}>
-                          {label}
+                      {metrics.map((metric) => (
+                        <SelectItem key={metric.key} value={metric.key}>
+                          {formatMetricLabel(metric)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -534,10 +684,13 @@ const Performance = () => {
                     id="value"
                     name="value"
                     type="number"
-                    step={(["30yd_dash", "3_cone_drill", "shuttle_5_10_5"].includes(selectedMetric) ? 0.01 : 1) as any}
+                    step={metricMap.get(selectedMetric)?.input_step ?? 1}
                     min={0}
+                    value={newValue}
+                    onChange={(e) => setNewValue(e.target.value)}
                     required
                   />
+                  <PlausibilityWarning issue={newValueIssue} />
                 </div>
 
                 {/* Date */}
@@ -567,11 +720,23 @@ const Performance = () => {
         </div>
       </div>
 
+      {userRole === "player" && <SubmissionStatusCard playerId={currentUserId} refreshKey={submissionsKey} />}
+
       <PlayerPerformanceChart currentUserId={currentUserId} userRole={userRole} />
 
-      <PerformanceRadarChart currentUserId={currentUserId} userRole={userRole} />
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+        <div className="w-full sm:max-w-xs">
+          <ScopeSelect value={scopeSelection} onValueChange={setScopeSelection} />
+        </div>
+        <div className="flex items-center gap-2 sm:pb-2">
+          <Switch id="exclude-flagged" checked={excludeFlagged} onCheckedChange={setExcludeFlagged} />
+          <Label htmlFor="exclude-flagged" className="cursor-pointer">Exclude flagged entries</Label>
+        </div>
+      </div>
 
-      <PerformanceNeighborhood playerId={currentUserId} />
+      <PerformanceRadarChart currentUserId={currentUserId} userRole={userRole} scope={scope} />
+
+      <PerformanceNeighborhood playerId={currentUserId} scope={scope} />
 
       <Card className="border-border/50 shadow-card">
         <CardHeader>
@@ -591,9 +756,9 @@ const Performance = () => {
                 </SelectTrigger>
                 <SelectContent className="bg-popover z-50">
                   <SelectItem value="all">All Metrics</SelectItem>
-                  {Object.entries(metricDisplayNames).map(([key, label]) => (
-                    <SelectItem key={key} value={key}>
-                      {label}
+                  {allMetrics.map((metric) => (
+                    <SelectItem key={metric.key} value={metric.key}>
+                      {formatMetricLabel(metric)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -651,7 +816,9 @@ const Performance = () => {
                 >
                   <div className="flex-1">
                     <p className="font-semibold text-sm sm:text-base">
-                      {entry.player?.first_name} {entry.player?.last_name}
+                      <PlayerLink playerId={entry.player_id}>
+                        {entry.player?.first_name} {entry.player?.last_name}
+                      </PlayerLink>
                       {entry.player?.position && entry.player.position !== 'unassigned' && (
                         <span className="ml-2 text-xs font-normal text-muted-foreground">
                           ({POSITION_LABELS[entry.player.position]})
@@ -659,8 +826,18 @@ const Performance = () => {
                       )}
                     </p>
                     <p className="text-xs sm:text-sm text-muted-foreground">
-                      {metricDisplayNames[entry.metric_type]}
+                      {getMetricDisplayName(entry.metric_type)}
                     </p>
+                    {entry.attempts && entry.attempts.length > 1 && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {AGGREGATION_LABELS[metricMap.get(entry.metric_type)?.aggregation ?? "best"]} of {entry.attempts.length}:{" "}
+                        {entry.attempts.map((attempt, index) => (
+                          <span key={attempt.id} className={attempt.id === entry.id ? "font-semibold text-foreground" : undefined}>
+                            {index > 0 && " · "}#{attempt.attempt_number} {attempt.value}
+                          </span>
+                        ))}
+                      </p>
+                    )}
                   </div>
                   <div className="flex items-center justify-between sm:justify-end gap-3">
                     <div className="text-left sm:text-right">
@@ -700,21 +877,25 @@ const Performance = () => {
       {/* Edit Dialog */}
       <ResponsiveDialog
         open={!!editingEntry}
-        onOpenChange={(open) => !open && setEditingEntry(null)}
+        onOpenChange={(open) => { if (!open) { setEditingEntry(null); setEditValue(null); } }}
         title="Edit Performance Entry"
         description="Update the performance metric value"
       >
         <form onSubmit={handleEditEntry} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="edit-value">Value</Label>
+            <Label htmlFor="edit-value">
+              {editingEntry && editingEntry.attempt_count > 1 ? `Value (attempt #${editingEntry.attempt_number})` : "Value"}
+            </Label>
             <Input
               id="edit-value"
               name="value"
               type="number"
               step="0.01"
-              defaultValue={editingEntry?.value}
+              defaultValue={editingEntry?.attempts?.find(a => a.id === editingEntry.id)?.value ?? editingEntry?.value}
+              onChange={(e) => setEditValue(e.target.value)}
               required
             />
+            <PlausibilityWarning issue={editValueIssue} />
           </div>
           <div className="space-y-2">
             <Label htmlFor="edit-entry-date">Date</Label>
@@ -738,7 +919,7 @@ const Performance = () => {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Performance Entry</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this entry? This action cannot be undone.
+              {`The entry will be moved to the trash, where it can be restored for ${TRASH_RETENTION_DAYS} days.`}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -764,6 +945,37 @@ const Performance = () => {
           onSuccess={fetchData}
         />
       )}
+
+      {/* Report Card Dialog */}
+      {canAddEntry && (
+        <ReportCardDialog
+          open={isReportCardOpen}
+          onOpenChange={setIsReportCardOpen}
+          players={userRole === "coach" || userRole === "admin" ? players : []}
+          defaultPlayerId={userRole === "player" ? currentUserId : ""}
+          scope={scope}
+        />
+      )}
+
+      {/* Trash Dialog */}
+      {(userRole === "coach" || userRole === "admin") && (
+        <TrashDialog
+          open={isTrashOpen}
+          onOpenChange={setIsTrashOpen}
+          onRestore={fetchData}
+        />
+      )}
+
+      {/* Import Dialog */}
+      {(userRole === "coach" || userRole === "admin") && (
+        <ImportDialog
+          open={isImportDialogOpen}
+          onOpenChange={setIsImportDialogOpen}
+          players={players}
+          currentUserId={currentUserId}
+          onSuccess={fetchData}
+        />
+      )}
     </div>
   );
 };
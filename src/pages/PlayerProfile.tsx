@@ -0,0 +1,563 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { LineChart, Line, ResponsiveContainer, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScopeSelect } from "@/components/ScopeSelect";
+import { ReportCardDialog } from "@/components/ReportCardDialog";
+import { BodyMeasurementDialog } from "@/components/BodyMeasurementDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMetrics } from "@/hooks/useMetrics";
+import { useGoals } from "@/hooks/useGoals";
+import { buildMetricMap, isLowerBetter } from "@/lib/performanceUtils";
+import { withCalculatedEntries } from "@/lib/composites";
+import { POSITION_LABELS, type PlayerPosition, type FootballPosition } from "@/lib/positionUtils";
+import { isMemberOn, ROSTER_STATUS_LABELS, SCOPE_ACTIVE_ROSTER, scopeFromSelection, type RosterMembership } from "@/lib/seasonUtils";
+import { buildAttendance, type TestSession } from "@/lib/sessionUtils";
+import { formatGoalTarget, getGoalStatus, GOAL_STATUS_LABELS } from "@/lib/goalUtils";
+import type { Tables } from "@/integrations/supabase/types";
+import { ArrowLeft, CalendarDays, FileText, History, Plus, Ruler, Target, Trash2, TrendingUp } from "lucide-react";
+
+interface PlayerProfileData {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+interface DailyResult {
+  player_id: string;
+  metric_type: string;
+  entry_date: string;
+  value: number;
+}
+
+// Subset of the get-performance-analytics response
+interface AnalyticsMetric {
+  metric_type: string;
+  cohorts: Array<{ cohort: string; key: string; players: Array<{ percentile: number }> }>;
+}
+
+interface Percentiles {
+  team: number | null;
+  position: number | null;
+}
+
+// Sparklines cover the last year
+const SPARKLINE_MONTHS = 12;
+
+const PlayerProfile = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { metrics, allMetrics, components } = useMetrics();
+  const metricMap = buildMetricMap(allMetrics);
+  const { goals } = useGoals(id);
+  const [profile, setProfile] = useState<PlayerProfileData | null>(null);
+  const [positions, setPositions] = useState<PlayerPosition[]>([]);
+  const [memberships, setMemberships] = useState<RosterMembership[]>([]);
+  const [results, setResults] = useState<DailyResult[]>([]);
+  const [measurements, setMeasurements] = useState<Tables<"body_measurements">[]>([]);
+  const [sessions, setSessions] = useState<Pick<TestSession, "id" | "name" | "session_date">[]>([]);
+  const [attendedSessionIds, setAttendedSessionIds] = useState<Set<string>>(new Set());
+  const [percentiles, setPercentiles] = useState<Map<string, Percentiles>>(new Map());
+  const [scopeSelection, setScopeSelection] = useState<string>(SCOPE_ACTIVE_ROSTER);
+  const scope = useMemo(() => scopeFromSelection(scopeSelection), [scopeSelection]);
+  const [currentUserId, setCurrentUserId] = useState("");
+  const [canManage, setCanManage] = useState(false);
+  const [isForbidden, setIsForbidden] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isReportCardOpen, setIsReportCardOpen] = useState(false);
+  const [isMeasurementDialogOpen, setIsMeasurementDialogOpen] = useState(false);
+
+  const today = new Date().toISOString().split("T")[0];
+  const primaryPosition = positions.find(p => p.is_primary && p.ended_on === null)?.position ?? null;
+
+  useEffect(() => {
+    fetchData();
+  }, [id]);
+
+  useEffect(() => {
+    if (profile) {
+      fetchPercentiles();
+    }
+  }, [profile, scope, primaryPosition]);
+
+  const fetchData = async () => {
+    if (!id) return;
+    setIsLoading(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setCurrentUserId(user.id);
+
+      const { data: rolesData } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id);
+      const roles = (rolesData || []).map(r => r.role);
+      const isStaff = roles.includes("coach") || roles.includes("admin");
+      setCanManage(isStaff);
+
+      // Players only have access to their own results and positions
+      if (!isStaff && user.id !== id) {
+        setIsForbidden(true);
+        return;
+      }
+      setIsForbidden(false);
+
+      const [profileResult, positionsResult, membershipsResult, resultsResult, sessionsResult, attendanceResult] = await Promise.all([
+        supabase.from("profiles").select("id, first_name, last_name").eq("id", id).maybeSingle(),
+        supabase
+          .from("player_positions")
+          .select("*")
+          .eq("player_id", id)
+          .order("started_on", { ascending: false }),
+        supabase.from("roster_memberships").select("*").eq("player_id", id),
+        supabase
+          .from("best_daily_entries")
+          .select("player_id, metric_type, entry_date, value")
+          .eq("player_id", id)
+          .order("entry_date", { ascending: true }),
+        supabase
+          .from("test_sessions")
+          .select("id, name, session_date")
+          .lte("session_date", today),
+        supabase
+          .from("performance_entries")
+          .select("session_id")
+          .eq("player_id", id)
+          .not("session_id", "is", null)
+          .is("deleted_at", null)
+          .eq("status", "approved"),
+      ]);
+
+      if (profileResult.error) throw profileResult.error;
+      if (resultsResult.error) throw resultsResult.error;
+
+      if (!profileResult.data) {
+        toast({
+          title: "Error",
+          description: "Player not found",
+          variant: "destructive",
+        });
+        navigate("/");
+        return;
+      }
+
+      setProfile(profileResult.data);
+      setPositions((positionsResult.data || []) as PlayerPosition[]);
+      setMemberships(membershipsResult.data || []);
+      setResults((resultsResult.data || []).map(r => ({ ...r, value: Number(r.value) })));
+      setSessions(sessionsResult.data || []);
+      setAttendedSessionIds(new Set((attendanceResult.data || []).map(e => e.session_id as string)));
+      await fetchMeasurements();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load player profile",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchMeasurements = async () => {
+    const { data, error } = await supabase
+      .from("body_measurements")
+      .select("*")
+      .eq("player_id", id)
+      .order("measured_on", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching body measurements:", error.message);
+      return;
+    }
+
+    setMeasurements(data || []);
+  };
+
+  const deleteMeasurement = async (measurementId: string) => {
+    const { error } = await supabase
+      .from("body_measurements")
+      .delete()
+      .eq("id", measurementId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    fetchMeasurements();
+  };
+
+  const fetchPercentiles = async () => {
+    const { data, error } = await supabase.functions.invoke("get-performance-analytics", {
+      body: { cohorts: ["team", "position"], player_id: id, ...scope },
+    });
+
+    if (error) {
+      console.error("Error fetching percentiles:", error.message);
+      return;
+    }
+
+    const percentileMap = new Map<string, Percentiles>();
+    ((data?.metrics || []) as AnalyticsMetric[]).forEach(metric => {
+      const team = metric.cohorts.find(c => c.cohort === "team")?.players[0];
+      const pos = metric.cohorts.find(c => c.cohort === "position" && c.key === primaryPosition)?.players[0];
+      percentileMap.set(metric.metric_type, {
+        team: team?.percentile ?? null,
+        position: pos?.percentile ?? null,
+      });
+    });
+    setPercentiles(percentileMap);
+  };
+
+  const sparklineStart = new Date();
+  sparklineStart.setMonth(sparklineStart.getMonth() - SPARKLINE_MONTHS);
+  const sparklineStartIso = sparklineStart.toISOString().split("T")[0];
+
+  // Derived and composite metrics are calculated from the daily results they depend on
+  const allResults = withCalculatedEntries(results, allMetrics, measurements, components)
+    .sort((a, b) => a.entry_date.localeCompare(b.entry_date));
+
+  const metricRows = metrics
+    .map(metric => {
+      const metricResults = allResults.filter(r => r.metric_type === metric.key);
+      const lowerIsBetter = isLowerBetter(metric);
+      const best = metricResults.reduce<DailyResult | undefined>((current, r) => {
+        if (!current) return r;
+        return (lowerIsBetter ? r.value < current.value : r.value > current.value) ? r : current;
+      }, undefined);
+
+      return {
+        metric,
+        best,
+        latest: metricResults[metricResults.length - 1],
+        sparkline: metricResults.filter(r => r.entry_date >= sparklineStartIso),
+        percentile: percentiles.get(metric.key),
+      };
+    })
+    .filter(row => row.latest);
+
+  const attendance = buildAttendance(sessions, memberships, attendedSessionIds);
+  const attendedCount = attendance.filter(a => a.attended).length;
+  const currentMembership = memberships.find(m => isMemberOn(m, today));
+  const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+  if (isForbidden) {
+    return (
+      <Card className="border-border/50 shadow-card">
+        <CardContent className="py-12 text-center text-muted-foreground">
+          You can only view your own player profile.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!profile) {
+    return isLoading ? <p className="text-sm text-muted-foreground text-center py-8">Loading...</p> : null;
+  }
+
+  const playerName = `${profile.first_name} ${profile.last_name}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-end gap-4">
+        <div>
+          <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back
+          </Button>
+          <h1 className="text-2xl md:text-3xl font-bold mb-2">{playerName}</h1>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">
+              {primaryPosition ? POSITION_LABELS[primaryPosition] : "No position assigned"}
+            </Badge>
+            {currentMembership ? (
+              <Badge variant={currentMembership.status === "active" ? "default" : "secondary"}>
+                {ROSTER_STATUS_LABELS[currentMembership.status]}
+              </Badge>
+            ) : (
+              <Badge variant="secondary">Not on roster</Badge>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-end gap-2 w-full sm:w-auto">
+          <div className="w-full sm:w-56">
+            <ScopeSelect value={scopeSelection} onValueChange={setScopeSelection} />
+          </div>
+          <Button variant="outline" onClick={() => setIsReportCardOpen(true)}>
+            <FileText className="h-4 w-4 mr-2" />
+            Report Card
+          </Button>
+        </div>
+      </div>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5 text-primary" />
+            Metrics
+          </CardTitle>
+          <CardDescription>
+            Personal bests, latest results and the last {SPARKLINE_MONTHS} months. Percentiles compare the latest result with teammates; higher is always better.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {metricRows.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No results recorded yet.</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {metricRows.map(({ metric, best, latest, sparkline, percentile }) => (
+                <div key={metric.key} className="p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-semibold text-sm">{metric.label}</p>
+                      {metric.kind === "derived" && metric.source_metric && (
+                        <p className="text-xs text-muted-foreground">
+                          From {metricMap.get(metric.source_metric)?.label ?? metric.source_metric} and body weight
+                        </p>
+                      )}
+                      {metric.kind === "composite" && (
+                        <p className="text-xs text-muted-foreground">
+                          Composite of {components
+                            .filter(c => c.composite_key === metric.key)
+                            .map(c => metricMap.get(c.component_key)?.label ?? c.component_key)
+                            .join(", ")}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap justify-end gap-1">
+                      {percentile?.team != null && (
+                        <Badge variant="outline" className="text-xs">Team P{percentile.team}</Badge>
+                      )}
+                      {primaryPosition && percentile?.position != null && (
+                        <Badge variant="outline" className="text-xs">{primaryPosition} P{percentile.position}</Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <p className="text-xs text-muted-foreground">Personal best</p>
+                      <p className="text-lg font-bold text-primary">
+                        {best?.value} <span className="text-xs text-muted-foreground">{metric.unit}</span>
+                      </p>
+                      {best && <p className="text-xs text-muted-foreground">{formatDate(best.entry_date)}</p>}
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">Latest</p>
+                      <p className="text-lg font-bold">
+                        {latest?.value} <span className="text-xs text-muted-foreground">{metric.unit}</span>
+                      </p>
+                      {latest && <p className="text-xs text-muted-foreground">{formatDate(latest.entry_date)}</p>}
+                    </div>
+                  </div>
+                  {sparkline.length > 1 && (
+                    <div className="h-10" aria-label={`${metric.label} trend`}>
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={sparkline}>
+                          <YAxis hide domain={["auto", "auto"]} reversed={isLowerBetter(metric)} />
+                          <Line
+                            type="monotone"
+                            dataKey="value"
+                            stroke="hsl(var(--primary))"
+                            strokeWidth={2}
+                            dot={false}
+                            isAnimationActive={false}
+                          />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="border-border/50 shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Target className="h-5 w-5 text-primary" />
+              Goals
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {goals.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No goals set.</p>
+            ) : (
+              <div className="space-y-2">
+                {goals.map(goal => {
+                  const metric = metrics.find(m => m.key === goal.metric_type);
+                  const status = getGoalStatus(goal, today);
+                  return (
+                    <div key={goal.id} className="flex items-center justify-between gap-2 p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors">
+                      <div className="min-w-0">
+                        <p className="font-medium text-sm truncate">{metric?.label ?? goal.metric_type}</p>
+                        <p className="text-xs text-muted-foreground">{formatGoalTarget(goal, metric)}</p>
+                      </div>
+                      <Badge
+                        variant={status === "achieved" ? "default" : status === "missed" ? "destructive" : "secondary"}
+                        className="text-xs shrink-0"
+                      >
+                        {GOAL_STATUS_LABELS[status]}
+                      </Badge>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="border-border/50 shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5 text-primary" />
+              Position History
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {positions.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No positions assigned.</p>
+            ) : (
+              <div className="space-y-2">
+                {positions.map(spell => (
+                  <div key={spell.id} className="flex items-center justify-between gap-2 p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors">
+                    <div className="min-w-0">
+                      <p className="font-medium text-sm">{POSITION_LABELS[spell.position as FootballPosition]}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(spell.started_on)} – {spell.ended_on ? formatDate(spell.ended_on) : "present"}
+                      </p>
+                    </div>
+                    <Badge variant={spell.is_primary ? "default" : "outline"} className="text-xs shrink-0">
+                      {spell.is_primary ? "Primary" : "Secondary"}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Ruler className="h-5 w-5 text-primary" />
+              Body Measurements
+            </CardTitle>
+            <CardDescription>Weight is used for the relative strength metrics</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setIsMeasurementDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Record
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {measurements.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No measurements recorded yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {measurements.map(measurement => (
+                <div key={measurement.id} className="flex items-center justify-between gap-2 p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors">
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm">
+                      {[
+                        measurement.weight_kg !== null && `${measurement.weight_kg} kg`,
+                        measurement.height_cm !== null && `${measurement.height_cm} cm tall`,
+                        measurement.wingspan_cm !== null && `${measurement.wingspan_cm} cm wingspan`,
+                      ].filter(Boolean).join(" · ")}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {formatDate(measurement.measured_on)}
+                      {measurement.notes && ` · ${measurement.notes}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMeasurement(measurement.id)}
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10 shrink-0"
+                    aria-label="Delete measurement"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5 text-primary" />
+            Test Session Attendance
+          </CardTitle>
+          <CardDescription>
+            {attendance.length === 0
+              ? "Sessions held while the player was on the roster"
+              : `Attended ${attendedCount} of ${attendance.length} sessions held while on the roster`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {attendance.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No testing sessions yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {attendance.map(({ session, attended }) => (
+                <div key={session.id} className="flex items-center justify-between gap-2 p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors">
+                  <div className="min-w-0">
+                    {canManage ? (
+                      <Link to={`/sessions/${session.id}`} className="font-medium text-sm truncate hover:text-primary hover:underline">
+                        {session.name}
+                      </Link>
+                    ) : (
+                      <p className="font-medium text-sm truncate">{session.name}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">{formatDate(session.session_date)}</p>
+                  </div>
+                  <Badge variant={attended ? "default" : "secondary"} className="text-xs shrink-0">
+                    {attended ? "Attended" : "Missed"}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ReportCardDialog
+        open={isReportCardOpen}
+        onOpenChange={setIsReportCardOpen}
+        players={[profile]}
+        defaultPlayerId={profile.id}
+        scope={scope}
+      />
+
+      <BodyMeasurementDialog
+        open={isMeasurementDialogOpen}
+        onOpenChange={setIsMeasurementDialogOpen}
+        playerId={profile.id}
+        playerName={playerName}
+        currentUserId={currentUserId}
+        onSuccess={fetchMeasurements}
+      />
+    </div>
+  );
+};
+
+export default PlayerProfile;
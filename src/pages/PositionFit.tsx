@@ -0,0 +1,307 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScopeSelect } from "@/components/ScopeSelect";
+import { PlayerLink } from "@/components/PlayerLink";
+import { useToast } from "@/hooks/use-toast";
+import { useMetrics } from "@/hooks/useMetrics";
+import { SCOPE_ACTIVE_ROSTER, scopeFromSelection } from "@/lib/seasonUtils";
+import { POSITION_LABELS, POSITION_OPTIONS, type FootballPosition } from "@/lib/positionUtils";
+import { MIN_COVERAGE, type PositionFit as Fit, type PositionWeight } from "@/lib/positionFit";
+import { Crosshair, SlidersHorizontal } from "lucide-react";
+
+interface PlayerFit {
+  player_id: string;
+  player_name: string | null;
+  current_position: FootballPosition | null;
+  fits: Fit[];
+  best_position: FootballPosition | null;
+}
+
+const FIT_POSITIONS = POSITION_OPTIONS.filter(pos => pos !== "unassigned");
+
+// Tests best at a position other than the one they play
+const isMismatch = (player: PlayerFit) =>
+  !!player.best_position && !!player.current_position && player.best_position !== player.current_position;
+
+const PositionFit = () => {
+  const { toast } = useToast();
+  const { metrics } = useMetrics();
+  const [players, setPlayers] = useState<PlayerFit[]>([]);
+  const [weights, setWeights] = useState<PositionWeight[]>([]);
+  const [scopeSelection, setScopeSelection] = useState<string>(SCOPE_ACTIVE_ROSTER);
+  const scope = useMemo(() => scopeFromSelection(scopeSelection), [scopeSelection]);
+  const [mismatchesOnly, setMismatchesOnly] = useState(false);
+  const [profilePosition, setProfilePosition] = useState<FootballPosition>("WR");
+  const [draftWeights, setDraftWeights] = useState<Record<string, string>>({});
+  const [currentUserId, setCurrentUserId] = useState("");
+  const [isStaff, setIsStaff] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchUser();
+    fetchWeights();
+  }, []);
+
+  useEffect(() => {
+    fetchFits();
+  }, [scope]);
+
+  useEffect(() => {
+    setDraftWeights(Object.fromEntries(
+      weights
+        .filter(w => w.position === profilePosition)
+        .map(w => [w.metric_key, String(w.weight)])
+    ));
+  }, [weights, profilePosition]);
+
+  const fetchUser = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setCurrentUserId(user.id);
+
+    const { data: rolesData } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id);
+
+    const roles = (rolesData || []).map(r => r.role);
+    setIsStaff(roles.includes("coach") || roles.includes("admin"));
+  };
+
+  const fetchWeights = async () => {
+    const { data, error } = await supabase
+      .from("position_metric_weights")
+      .select("position, metric_key, weight");
+
+    if (error) {
+      console.error("Error fetching position profiles:", error.message);
+      return;
+    }
+
+    setWeights((data || []).map(w => ({ ...w, weight: Number(w.weight) })));
+  };
+
+  const fetchFits = async () => {
+    setIsLoading(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke("get-position-fit", {
+        body: { ...scope },
+      });
+
+      if (error) throw error;
+
+      setPlayers(data?.players || []);
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load position fit",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSaveProfile = async () => {
+    const rows = Object.entries(draftWeights)
+      .filter(([, weight]) => weight.trim() !== "")
+      .map(([metric_key, weight]) => ({ metric_key, weight: parseFloat(weight) }));
+
+    if (rows.some(row => !Number.isFinite(row.weight) || row.weight <= 0 || row.weight > 10)) {
+      toast({
+        title: "Validation Error",
+        description: "Weights must be between 0 and 10; leave a metric empty to ignore it",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const { error: deleteError } = await supabase
+        .from("position_metric_weights")
+        .delete()
+        .eq("position", profilePosition);
+
+      if (deleteError) throw deleteError;
+
+      if (rows.length > 0) {
+        const { error: insertError } = await supabase
+          .from("position_metric_weights")
+          .insert(rows.map(row => ({
+            ...row,
+            position: profilePosition,
+            updated_by: currentUserId,
+          })));
+
+        if (insertError) throw insertError;
+      }
+
+      toast({
+        title: "Success",
+        description: `${POSITION_LABELS[profilePosition]} profile saved`,
+      });
+
+      await fetchWeights();
+      fetchFits();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save position profile",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const visiblePlayers = mismatchesOnly ? players.filter(isMismatch) : players;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold mb-2">Position Fit</h1>
+          <p className="text-sm md:text-base text-muted-foreground">How each player's current results match every position's profile</p>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="mismatches-only" checked={mismatchesOnly} onCheckedChange={setMismatchesOnly} />
+            <Label htmlFor="mismatches-only" className="cursor-pointer">Only players who fit elsewhere</Label>
+          </div>
+          <div className="w-full sm:w-56">
+            <ScopeSelect value={scopeSelection} onValueChange={setScopeSelection} />
+          </div>
+        </div>
+      </div>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Crosshair className="h-5 w-5 text-primary" />
+            Fit Scores
+          </CardTitle>
+          <CardDescription>
+            Weighted average of the player's team percentiles over the metrics in each profile, 0-100.
+            Scores covering less than {Math.round(MIN_COVERAGE * 100)}% of a profile are greyed out.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading && players.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+          ) : visiblePlayers.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {mismatchesOnly ? "Every player fits their current position best." : "No results for this selection yet."}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {visiblePlayers.map(player => (
+                <div key={player.player_id} className="flex flex-col lg:flex-row lg:items-center gap-3 p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors">
+                  <div className="lg:w-56 min-w-0">
+                    <p className="font-semibold text-sm sm:text-base truncate">
+                      {isStaff
+                        ? <PlayerLink playerId={player.player_id}>{player.player_name ?? "Unknown"}</PlayerLink>
+                        : player.player_name ?? "Unknown"}
+                    </p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      <Badge variant="outline" className="text-xs">
+                        {player.current_position ? POSITION_LABELS[player.current_position] : "No position"}
+                      </Badge>
+                      {isMismatch(player) && (
+                        <Badge className="text-xs">Tests like a {POSITION_LABELS[player.best_position!]}</Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-5 gap-2 flex-1">
+                    {player.fits.map(fit => {
+                      const isBest = fit.position === player.best_position;
+                      const isCovered = fit.coverage >= MIN_COVERAGE;
+                      return (
+                        <div
+                          key={fit.position}
+                          className={`rounded-md p-2 text-center ${
+                            isBest ? "bg-primary/15 text-primary" : "bg-background/60"
+                          } ${isCovered ? "" : "opacity-50"}`}
+                          title={`${POSITION_LABELS[fit.position as FootballPosition]}: ${Math.round(fit.coverage * 100)}% of the profile covered`}
+                        >
+                          <p className="text-xs text-muted-foreground">{fit.position}</p>
+                          <p className={`text-lg ${isBest ? "font-bold" : "font-semibold"}`}>{fit.score ?? "—"}</p>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5 text-primary" />
+            Position Profiles
+          </CardTitle>
+          <CardDescription>How much each metric counts towards a position's fit; empty metrics are ignored</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2 sm:w-64">
+            <Label htmlFor="profile-position">Position</Label>
+            <Select value={profilePosition} onValueChange={(v) => setProfilePosition(v as FootballPosition)}>
+              <SelectTrigger id="profile-position" className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover z-50">
+                {FIT_POSITIONS.map(pos => (
+                  <SelectItem key={pos} value={pos}>
+                    {POSITION_LABELS[pos]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {metrics.map(metric => (
+              <div key={metric.key} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50">
+                <Label htmlFor={`weight-${metric.key}`} className="text-sm min-w-0 truncate">{metric.label}</Label>
+                <Input
+                  id={`weight-${metric.key}`}
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  max="10"
+                  className="w-20"
+                  placeholder="—"
+                  value={draftWeights[metric.key] ?? ""}
+                  onChange={(e) => setDraftWeights({ ...draftWeights, [metric.key]: e.target.value })}
+                  disabled={!isStaff}
+                />
+              </div>
+            ))}
+          </div>
+
+          {isStaff && (
+            <Button onClick={handleSaveProfile} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Profile"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PositionFit;
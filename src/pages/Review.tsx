@@ -0,0 +1,307 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { PlayerLink } from "@/components/PlayerLink";
+import { useToast } from "@/hooks/use-toast";
+import { useMetrics } from "@/hooks/useMetrics";
+import { buildMetricMap, formatMetricLabel } from "@/lib/performanceUtils";
+import type { Tables } from "@/integrations/supabase/types";
+import { AlertTriangle, Check, ClipboardCheck, Trash2, X } from "lucide-react";
+
+type ReviewEntry = Pick<
+  Tables<"performance_entries">,
+  "id" | "player_id" | "metric_type" | "value" | "unit" | "entry_date" | "attempt_number" | "flag_reason" | "flagged_at" | "created_at"
+>;
+
+const REVIEW_COLUMNS = "id, player_id, metric_type, value, unit, entry_date, attempt_number, flag_reason, flagged_at, created_at";
+
+const Review = () => {
+  const { toast } = useToast();
+  const { metrics } = useMetrics({ includeInactive: true });
+  const metricMap = buildMetricMap(metrics);
+  const [pendingEntries, setPendingEntries] = useState<ReviewEntry[]>([]);
+  const [entries, setEntries] = useState<ReviewEntry[]>([]);
+  // Review comments being typed, keyed by entry id
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [playerNames, setPlayerNames] = useState<Map<string, string>>(new Map());
+  const [currentUserId, setCurrentUserId] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setIsLoading(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      setCurrentUserId(user?.id ?? "");
+
+      const [pendingResult, flaggedResult] = await Promise.all([
+        supabase
+          .from("performance_entries")
+          .select(REVIEW_COLUMNS)
+          .eq("status", "pending")
+          .is("deleted_at", null)
+          .order("created_at", { ascending: true }),
+        // Pending entries are reviewed in the approval queue, flag or not
+        supabase
+          .from("performance_entries")
+          .select(REVIEW_COLUMNS)
+          .not("flag_reason", "is", null)
+          .eq("status", "approved")
+          .is("deleted_at", null)
+          .order("flagged_at", { ascending: false }),
+      ]);
+
+      if (pendingResult.error) throw pendingResult.error;
+      if (flaggedResult.error) throw flaggedResult.error;
+
+      const data = [...(pendingResult.data || []), ...(flaggedResult.data || [])];
+      const playerIds = [...new Set(data.map(e => e.player_id))];
+      const { data: profiles } = playerIds.length > 0
+        ? await supabase.from("profiles").select("id, first_name, last_name").in("id", playerIds)
+        : { data: [] };
+
+      setPlayerNames(new Map((profiles || []).map(p => [p.id, `${p.first_name} ${p.last_name}`])));
+      setPendingEntries(pendingResult.data || []);
+      setEntries(flaggedResult.data || []);
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load entries for review",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resolveEntry = async (entryId: string, action: "confirm" | "delete") => {
+    setBusyId(entryId);
+
+    try {
+      const { error } = await supabase
+        .from("performance_entries")
+        .update(action === "confirm"
+          ? { flag_reason: null, flagged_at: null }
+          : { deleted_at: new Date().toISOString(), deleted_by: currentUserId })
+        .eq("id", entryId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: action === "confirm"
+          ? "Entry confirmed and counted in benchmarks again"
+          : "Entry moved to trash",
+      });
+
+      setEntries(entries.filter(e => e.id !== entryId));
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update entry",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const reviewEntry = async (entryId: string, status: "approved" | "rejected") => {
+    const comment = (comments[entryId] || "").trim();
+    if (status === "rejected" && !comment) {
+      toast({
+        title: "Validation Error",
+        description: "Add a comment so the player knows why the result was rejected",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBusyId(entryId);
+
+    try {
+      const { error } = await supabase
+        .from("performance_entries")
+        .update({ status, review_comment: comment || null })
+        .eq("id", entryId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: status === "approved" ? "Entry approved" : "Entry rejected",
+      });
+
+      setPendingEntries(pendingEntries.filter(e => e.id !== entryId));
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to review entry",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const describeEntry = (entry: ReviewEntry) => {
+    const metric = metricMap.get(entry.metric_type);
+    return (
+      <>
+        <p className="font-semibold text-sm sm:text-base truncate">
+          <PlayerLink playerId={entry.player_id}>{playerNames.get(entry.player_id) ?? "Unknown player"}</PlayerLink>
+        </p>
+        <p className="text-sm text-muted-foreground">
+          {metric ? formatMetricLabel(metric) : entry.metric_type}
+          {entry.attempt_number > 1 ? ` · attempt #${entry.attempt_number}` : ""}
+          {" · "}{new Date(entry.entry_date).toLocaleDateString()}
+        </p>
+        {entry.flag_reason && (
+          <p className="text-xs text-yellow-600 dark:text-yellow-400">{entry.flag_reason}</p>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold mb-2">Review</h1>
+        <p className="text-sm md:text-base text-muted-foreground">Approve self-reported results and check ones that look implausible</p>
+      </div>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5 text-primary" />
+            Pending Approval
+            {pendingEntries.length > 0 && <Badge variant="secondary">{pendingEntries.length}</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Results players recorded themselves. They count towards benchmarks, averages and comparisons once approved.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+          ) : pendingEntries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No results waiting for approval.</p>
+          ) : (
+            <div className="space-y-3">
+              {pendingEntries.map(entry => (
+                <div key={entry.id} className="p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors space-y-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0 flex-1 space-y-1">
+                      {describeEntry(entry)}
+                    </div>
+                    <p className="text-xl font-bold text-primary shrink-0">
+                      {entry.value} <span className="text-xs text-muted-foreground">{entry.unit}</span>
+                    </p>
+                  </div>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Input
+                      aria-label="Review comment"
+                      placeholder="Comment (required to reject)"
+                      maxLength={500}
+                      value={comments[entry.id] || ""}
+                      onChange={(e) => setComments({ ...comments, [entry.id]: e.target.value })}
+                      className="flex-1"
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => reviewEntry(entry.id, "approved")}
+                        disabled={busyId !== null}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => reviewEntry(entry.id, "rejected")}
+                        disabled={busyId !== null}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-primary" />
+            Flagged Entries
+            {entries.length > 0 && <Badge variant="secondary">{entries.length}</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Results outside a metric's plausible range or far off the player's recent history.
+            Confirm the ones that are correct; delete the ones that are typos.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Nothing to review.</p>
+          ) : (
+            <div className="space-y-3">
+              {entries.map(entry => (
+                <div
+                  key={entry.id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors gap-3"
+                >
+                  <div className="min-w-0 flex-1 space-y-1">
+                    {describeEntry(entry)}
+                  </div>
+                  <div className="flex items-center justify-between sm:justify-end gap-3">
+                    <p className="text-xl font-bold text-primary">
+                      {entry.value} <span className="text-xs text-muted-foreground">{entry.unit}</span>
+                    </p>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => resolveEntry(entry.id, "confirm")}
+                        disabled={busyId !== null}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Confirm
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => resolveEntry(entry.id, "delete")}
+                        disabled={busyId !== null}
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Review;
@@ -0,0 +1,486 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ResponsiveDialog } from "@/components/ResponsiveDialog";
+import { PlayerLink } from "@/components/PlayerLink";
+import { useToast } from "@/hooks/use-toast";
+import { useSeasons } from "@/hooks/useSeasons";
+import { rosterMembershipSchema, seasonSchema } from "@/lib/validation";
+import {
+  ROSTER_STATUS_LABELS,
+  isMemberOn,
+  type RosterMembership,
+  type RosterStatus,
+  type Season,
+} from "@/lib/seasonUtils";
+import { CalendarRange, Pencil, Plus, UserPlus, Users } from "lucide-react";
+
+interface Player {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+type RosterFilter = "current" | "former" | "all";
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const Roster = () => {
+  const { toast } = useToast();
+  const { seasons, refetch: refetchSeasons } = useSeasons();
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [memberships, setMemberships] = useState<RosterMembership[]>([]);
+  const [filter, setFilter] = useState<RosterFilter>("current");
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Season dialog
+  const [isSeasonDialogOpen, setIsSeasonDialogOpen] = useState(false);
+  const [editingSeason, setEditingSeason] = useState<Season | null>(null);
+  const [isCurrentSeason, setIsCurrentSeason] = useState(false);
+
+  // Membership dialog: editing an existing membership or opening a new one for a player
+  const [editingMembership, setEditingMembership] = useState<RosterMembership | null>(null);
+  const [newMembershipPlayer, setNewMembershipPlayer] = useState<Player | null>(null);
+  const [membershipStatus, setMembershipStatus] = useState<RosterStatus>("active");
+
+  useEffect(() => {
+    fetchRoster();
+  }, []);
+
+  const fetchRoster = async () => {
+    const { data: playerRoles } = await supabase
+      .from("user_roles")
+      .select("user_id")
+      .eq("role", "player");
+
+    const playerIds = (playerRoles || []).map(r => r.user_id);
+
+    const [profilesResult, membershipsResult] = await Promise.all([
+      supabase
+        .from("profiles")
+        .select("id, first_name, last_name")
+        .in("id", playerIds)
+        .order("last_name", { ascending: true })
+        .order("first_name", { ascending: true }),
+      supabase
+        .from("roster_memberships")
+        .select("*")
+        .order("joined_on", { ascending: false }),
+    ]);
+
+    if (membershipsResult.error) {
+      toast({
+        title: "Error",
+        description: "Failed to load roster",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setPlayers(profilesResult.data || []);
+    setMemberships(membershipsResult.data || []);
+  };
+
+  const membershipsByPlayer = useMemo(() => {
+    const map = new Map<string, RosterMembership[]>();
+    memberships.forEach(m => {
+      if (!map.has(m.player_id)) {
+        map.set(m.player_id, []);
+      }
+      map.get(m.player_id)!.push(m);
+    });
+    return map;
+  }, [memberships]);
+
+  const rosterRows = useMemo(() => {
+    const day = today();
+    return players
+      .map(player => {
+        const history = membershipsByPlayer.get(player.id) || [];
+        const current = history.find(m => isMemberOn(m, day)) ?? null;
+        return { player, history, current };
+      })
+      .filter(row => {
+        if (filter === "current") return row.current !== null;
+        if (filter === "former") return row.current === null;
+        return true;
+      });
+  }, [players, membershipsByPlayer, filter]);
+
+  const openSeasonDialog = (season: Season | null) => {
+    setEditingSeason(season);
+    setIsCurrentSeason(season?.is_current ?? seasons.length === 0);
+    setIsSeasonDialogOpen(true);
+  };
+
+  const handleSeasonSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    const formData = new FormData(e.currentTarget);
+    const validation = seasonSchema.safeParse({
+      name: formData.get("name") as string,
+      starts_on: formData.get("starts_on") as string,
+      ends_on: formData.get("ends_on") as string,
+      is_current: isCurrentSeason,
+    });
+
+    if (!validation.success) {
+      const errors = validation.error.errors.map(e => e.message).join(", ");
+      toast({
+        title: "Validation Error",
+        description: errors,
+        variant: "destructive",
+      });
+      setIsLoading(false);
+      return;
+    }
+
+    const { name, starts_on, ends_on, is_current } = validation.data;
+
+    try {
+      // Only one season can be current, so clear the flag elsewhere first
+      if (is_current) {
+        const { error: clearError } = await supabase
+          .from("seasons")
+          .update({ is_current: false })
+          .eq("is_current", true)
+          .neq("id", editingSeason?.id ?? "00000000-0000-0000-0000-000000000000");
+
+        if (clearError) throw clearError;
+      }
+
+      const { error } = editingSeason
+        ? await supabase
+            .from("seasons")
+            .update({ name, starts_on, ends_on, is_current })
+            .eq("id", editingSeason.id)
+        : await supabase
+            .from("seasons")
+            .insert([{ name, starts_on, ends_on, is_current }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: editingSeason ? "Season updated successfully" : "Season created successfully",
+      });
+
+      setIsSeasonDialogOpen(false);
+      setEditingSeason(null);
+      refetchSeasons();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save season",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openMembershipDialog = (membership: RosterMembership | null, player: Player | null) => {
+    setEditingMembership(membership);
+    setNewMembershipPlayer(membership ? null : player);
+    setMembershipStatus(membership?.status ?? "active");
+  };
+
+  const closeMembershipDialog = () => {
+    setEditingMembership(null);
+    setNewMembershipPlayer(null);
+  };
+
+  const handleMembershipSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    const formData = new FormData(e.currentTarget);
+    const leftOn = formData.get("left_on") as string;
+    const notes = (formData.get("notes") as string || "").trim();
+    const validation = rosterMembershipSchema.safeParse({
+      joined_on: formData.get("joined_on") as string,
+      left_on: leftOn === "" ? null : leftOn,
+      status: membershipStatus,
+      notes: notes === "" ? null : notes,
+    });
+
+    if (!validation.success) {
+      const errors = validation.error.errors.map(e => e.message).join(", ");
+      toast({
+        title: "Validation Error",
+        description: errors,
+        variant: "destructive",
+      });
+      setIsLoading(false);
+      return;
+    }
+
+    const { joined_on, left_on, status, notes: membershipNotes } = validation.data;
+
+    try {
+      const { error } = editingMembership
+        ? await supabase
+            .from("roster_memberships")
+            .update({ joined_on, left_on, status, notes: membershipNotes })
+            .eq("id", editingMembership.id)
+        : await supabase
+            .from("roster_memberships")
+            .insert([{ player_id: newMembershipPlayer!.id, joined_on, left_on, status, notes: membershipNotes }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: editingMembership ? "Membership updated successfully" : "Player added to the roster",
+      });
+
+      closeMembershipDialog();
+      fetchRoster();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save membership",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getPlayerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player ? `${player.first_name} ${player.last_name}` : "";
+  };
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+  const membershipDialogOpen = !!editingMembership || !!newMembershipPlayer;
+  const membershipPlayerName = editingMembership
+    ? getPlayerName(editingMembership.player_id)
+    : newMembershipPlayer ? `${newMembershipPlayer.first_name} ${newMembershipPlayer.last_name}` : "";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold mb-2">Roster</h1>
+        <p className="text-sm md:text-base text-muted-foreground">Seasons and who was on the team when</p>
+      </div>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarRange className="h-5 w-5 text-primary" />
+              Seasons
+            </CardTitle>
+            <CardDescription>Aggregates can be limited to a season's dates and roster</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openSeasonDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Season
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {seasons.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                No seasons defined yet.
+              </p>
+            ) : (
+              seasons.map((season) => (
+                <div
+                  key={season.id}
+                  className="flex items-center justify-between p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors gap-3"
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="font-semibold text-sm sm:text-base truncate">{season.name}</p>
+                    <p className="text-xs sm:text-sm text-muted-foreground">
+                      {formatDate(season.starts_on)} – {formatDate(season.ends_on)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {season.is_current && (
+                      <Badge className="text-xs">Current</Badge>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => openSeasonDialog(season)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5 text-primary" />
+              Roster Membership
+            </CardTitle>
+            <CardDescription>Former and inactive players are left out of team aggregates by default</CardDescription>
+          </div>
+          <Select value={filter} onValueChange={(v) => setFilter(v as RosterFilter)}>
+            <SelectTrigger className="w-full sm:w-[180px] bg-background">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover z-50">
+              <SelectItem value="current">On the roster</SelectItem>
+              <SelectItem value="former">Former players</SelectItem>
+              <SelectItem value="all">All players</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {rosterRows.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                No players match this filter.
+              </p>
+            ) : (
+              rosterRows.map(({ player, history, current }) => (
+                <div
+                  key={player.id}
+                  className="p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors space-y-2"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="font-semibold text-sm sm:text-base truncate">
+                      <PlayerLink playerId={player.id}>{player.first_name} {player.last_name}</PlayerLink>
+                    </p>
+                    <div className="flex items-center gap-2">
+                      {current ? (
+                        <Badge variant={current.status === "active" ? "default" : "secondary"} className="text-xs">
+                          {ROSTER_STATUS_LABELS[current.status]}
+                        </Badge>
+                      ) : (
+                        <>
+                          <Badge variant="outline" className="text-xs">Not on roster</Badge>
+                          <Button variant="ghost" size="sm" onClick={() => openMembershipDialog(null, player)}>
+                            <UserPlus className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  {history.map((membership) => (
+                    <div key={membership.id} className="flex items-center justify-between text-xs sm:text-sm text-muted-foreground gap-3">
+                      <span>
+                        {formatDate(membership.joined_on)} – {membership.left_on ? formatDate(membership.left_on) : "present"}
+                        {membership.notes && ` · ${membership.notes}`}
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={() => openMembershipDialog(membership, null)}>
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <ResponsiveDialog
+        open={isSeasonDialogOpen}
+        onOpenChange={(open) => { setIsSeasonDialogOpen(open); if (!open) setEditingSeason(null); }}
+        title={editingSeason ? "Edit Season" : "Add Season"}
+        description="Define the dates of a season"
+      >
+        <form key={editingSeason?.id ?? "new"} onSubmit={handleSeasonSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="season-name">Name</Label>
+            <Input id="season-name" name="name" type="text" defaultValue={editingSeason?.name} placeholder="e.g. 2026" required />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="season-start">Starts On</Label>
+              <Input id="season-start" name="starts_on" type="date" defaultValue={editingSeason?.starts_on} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="season-end">Ends On</Label>
+              <Input id="season-end" name="ends_on" type="date" defaultValue={editingSeason?.ends_on} required />
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch id="season-current" checked={isCurrentSeason} onCheckedChange={setIsCurrentSeason} />
+            <Label htmlFor="season-current" className="cursor-pointer">Current season</Label>
+          </div>
+          <Button type="submit" className="w-full" disabled={isLoading}>
+            {isLoading ? "Saving..." : editingSeason ? "Update Season" : "Create Season"}
+          </Button>
+        </form>
+      </ResponsiveDialog>
+
+      <ResponsiveDialog
+        open={membershipDialogOpen}
+        onOpenChange={(open) => { if (!open) closeMembershipDialog(); }}
+        title={editingMembership ? "Edit Membership" : "Add to Roster"}
+        description={membershipPlayerName}
+      >
+        <form key={editingMembership?.id ?? newMembershipPlayer?.id ?? "none"} onSubmit={handleMembershipSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="membership-joined">Joined On</Label>
+              <Input
+                id="membership-joined"
+                name="joined_on"
+                type="date"
+                defaultValue={editingMembership?.joined_on ?? today()}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="membership-left">Left On</Label>
+              <Input
+                id="membership-left"
+                name="left_on"
+                type="date"
+                defaultValue={editingMembership?.left_on ?? ""}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="membership-status">Status</Label>
+            <Select value={membershipStatus} onValueChange={(v) => setMembershipStatus(v as RosterStatus)}>
+              <SelectTrigger id="membership-status" className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover z-50">
+                {(Object.keys(ROSTER_STATUS_LABELS) as RosterStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {ROSTER_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="membership-notes">Notes</Label>
+            <Textarea
+              id="membership-notes"
+              name="notes"
+              defaultValue={editingMembership?.notes ?? ""}
+              placeholder="e.g. Injured, back next season"
+              rows={2}
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={isLoading}>
+            {isLoading ? "Saving..." : editingMembership ? "Update Membership" : "Add to Roster"}
+          </Button>
+        </form>
+      </ResponsiveDialog>
+    </div>
+  );
+};
+
+export default Roster;
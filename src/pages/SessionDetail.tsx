@@ -0,0 +1,306 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { BatchCreateDialog } from "@/components/BatchCreateDialog";
+import { TestSessionDialog } from "@/components/TestSessionDialog";
+import { PlayerLink } from "@/components/PlayerLink";
+import { useToast } from "@/hooks/use-toast";
+import { useMetrics } from "@/hooks/useMetrics";
+import { buildMetricMap } from "@/lib/performanceUtils";
+import { compareEntries, selectBestDailyEntries } from "@/lib/aggregation";
+import { SURFACE_LABELS, TIMING_METHOD_LABELS, type TestSession } from "@/lib/sessionUtils";
+import { ArrowLeft, CalendarDays, Pencil, Plus } from "lucide-react";
+
+interface SessionEntry {
+  id: string;
+  player_id: string;
+  metric_type: string;
+  value: number;
+  unit: string;
+  entry_date: string;
+  created_at: string | null;
+  attempt_number: number;
+}
+
+interface Profile {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+const SessionDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { metrics: allMetrics } = useMetrics({ includeInactive: true });
+  const metricMap = buildMetricMap(allMetrics);
+  const [session, setSession] = useState<TestSession | null>(null);
+  const [entries, setEntries] = useState<SessionEntry[]>([]);
+  const [profiles, setProfiles] = useState<Map<string, Profile>>(new Map());
+  const [players, setPlayers] = useState<Profile[]>([]);
+  const [currentUserId, setCurrentUserId] = useState("");
+  const [canManage, setCanManage] = useState(false);
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isBatchDialogOpen, setIsBatchDialogOpen] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, [id]);
+
+  const fetchData = async () => {
+    if (!id) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+    setCurrentUserId(user.id);
+
+    const { data: rolesData } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id);
+    const roles = (rolesData || []).map(r => r.role);
+    setCanManage(roles.includes("coach") || roles.includes("admin"));
+
+    const { data: sessionData, error: sessionError } = await supabase
+      .from("test_sessions")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (sessionError || !sessionData) {
+      toast({
+        title: "Error",
+        description: "Testing session not found",
+        variant: "destructive",
+      });
+      navigate("/sessions");
+      return;
+    }
+
+    setSession(sessionData);
+
+    const { data: entryData } = await supabase
+      .from("performance_entries")
+      .select("id, player_id, metric_type, value, unit, entry_date, created_at, attempt_number")
+      .is("deleted_at", null)
+      .eq("status", "approved")
+      .eq("session_id", id);
+
+    setEntries(entryData || []);
+
+    const { data: playerRoles } = await supabase
+      .from("user_roles")
+      .select("user_id")
+      .eq("role", "player");
+
+    // Profiles cover the roster for the entry dialog plus whoever has results or ran the session
+    const profileIds = new Set<string>([
+      ...(playerRoles || []).map(r => r.user_id),
+      ...(entryData || []).map(e => e.player_id),
+      ...(sessionData.conducted_by ? [sessionData.conducted_by] : []),
+    ]);
+
+    const { data: profileData } = await supabase
+      .from("profiles")
+      .select("id, first_name, last_name")
+      .in("id", Array.from(profileIds))
+      .order("last_name", { ascending: true })
+      .order("first_name", { ascending: true });
+
+    const playerIds = new Set((playerRoles || []).map(r => r.user_id));
+    setProfiles(new Map((profileData || []).map(p => [p.id, p])));
+    setPlayers((profileData || []).filter(p => playerIds.has(p.id)));
+  };
+
+  const getPlayerName = (playerId: string) => {
+    const profile = profiles.get(playerId);
+    return profile ? `${profile.first_name} ${profile.last_name}` : "Unknown player";
+  };
+
+  // Daily result per player per drill under the drill's aggregation; a session covers a single day
+  const bestEntries = useMemo(() => selectBestDailyEntries(entries, allMetrics), [entries, allMetrics]);
+
+  const resultsByMetric = useMemo(() => {
+    return allMetrics
+      .map(metric => ({
+        metric,
+        results: bestEntries
+          .filter(e => e.metric_type === metric.key)
+          .sort(compareEntries(metric.direction))
+          .map(entry => ({
+            entry,
+            attempts: entries.filter(e => e.player_id === entry.player_id && e.metric_type === metric.key).length,
+          })),
+      }))
+      .filter(group => group.results.length > 0);
+  }, [allMetrics, bestEntries, entries]);
+
+  const resultsByPlayer = useMemo(() => {
+    const byPlayer = new Map<string, Map<string, SessionEntry>>();
+    bestEntries.forEach(entry => {
+      if (!byPlayer.has(entry.player_id)) {
+        byPlayer.set(entry.player_id, new Map());
+      }
+      byPlayer.get(entry.player_id)!.set(entry.metric_type, entry);
+    });
+    return Array.from(byPlayer.entries())
+      .map(([playerId, results]) => ({ playerId, results }))
+      .sort((a, b) => getPlayerName(a.playerId).localeCompare(getPlayerName(b.playerId)));
+  }, [bestEntries, profiles]);
+
+  if (!session) {
+    return null;
+  }
+
+  const conductor = session.conducted_by ? profiles.get(session.conducted_by) : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => navigate("/sessions")}>
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            All Sessions
+          </Button>
+          <h1 className="text-2xl md:text-3xl font-bold mb-2">{session.name}</h1>
+          <p className="text-sm md:text-base text-muted-foreground">
+            {new Date(session.session_date).toLocaleDateString()}
+            {session.location && ` · ${session.location}`}
+          </p>
+        </div>
+        {canManage && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsEditDialogOpen(true)}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+            <Button onClick={() => setIsBatchDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Results
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5 text-primary" />
+            Session Details
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline" className="text-xs">
+              Surface: {session.surface ? SURFACE_LABELS[session.surface] : "Not recorded"}
+            </Badge>
+            <Badge variant="outline" className="text-xs">
+              Timing: {session.timing_method ? TIMING_METHOD_LABELS[session.timing_method] : "Not recorded"}
+            </Badge>
+            <Badge variant="outline" className="text-xs">
+              Conducted by: {conductor ? `${conductor.first_name} ${conductor.last_name}` : "Not recorded"}
+            </Badge>
+          </div>
+          {session.conditions && (
+            <p className="text-sm text-muted-foreground">{session.conditions}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle>Results</CardTitle>
+          <CardDescription>One result per player using each drill's aggregation rule; the attempt count includes every recorded try</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">
+              No results recorded for this session yet.
+            </p>
+          ) : (
+            <Tabs defaultValue="drill">
+              <TabsList className="grid w-full grid-cols-2 mb-4">
+                <TabsTrigger value="drill">By Drill</TabsTrigger>
+                <TabsTrigger value="player">By Player</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="drill" className="space-y-6">
+                {resultsByMetric.map(({ metric, results }) => (
+                  <div key={metric.key} className="space-y-2">
+                    <h3 className="font-semibold">
+                      {metric.label} <span className="text-xs font-normal text-muted-foreground">[{metric.unit}]</span>
+                    </h3>
+                    {results.map(({ entry, attempts }, index) => (
+                      <div
+                        key={entry.id}
+                        className="flex items-center justify-between p-3 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors gap-3"
+                      >
+                        <div className="flex items-center gap-3 min-w-0">
+                          <span className="text-sm font-bold text-muted-foreground w-6">{index + 1}</span>
+                          <PlayerLink playerId={entry.player_id} className="text-sm truncate">{getPlayerName(entry.player_id)}</PlayerLink>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {attempts > 1 && (
+                            <Badge variant="secondary" className="text-xs">
+                              {attempts} attempts
+                            </Badge>
+                          )}
+                          <span className="font-bold text-primary">
+                            {entry.value} {entry.unit}
+                          </span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </TabsContent>
+
+              <TabsContent value="player" className="space-y-3">
+                {resultsByPlayer.map(({ playerId, results }) => (
+                  <div key={playerId} className="p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors">
+                    <p className="font-semibold text-sm sm:text-base mb-2">
+                      <PlayerLink playerId={playerId}>{getPlayerName(playerId)}</PlayerLink>
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {Array.from(results.values()).map(entry => (
+                        <Badge key={entry.metric_type} variant="outline" className="text-xs">
+                          {metricMap.get(entry.metric_type)?.label ?? entry.metric_type}: {entry.value} {entry.unit}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </TabsContent>
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <>
+          <TestSessionDialog
+            open={isEditDialogOpen}
+            onOpenChange={setIsEditDialogOpen}
+            session={session}
+            currentUserId={currentUserId}
+            onSuccess={fetchData}
+          />
+          <BatchCreateDialog
+            open={isBatchDialogOpen}
+            onOpenChange={setIsBatchDialogOpen}
+            players={players}
+            currentUserId={currentUserId}
+            onSuccess={fetchData}
+            session={session}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SessionDetail;
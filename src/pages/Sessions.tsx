@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { TestSessionDialog } from "@/components/TestSessionDialog";
+import { useToast } from "@/hooks/use-toast";
+import { SURFACE_LABELS, TIMING_METHOD_LABELS, type TestSession } from "@/lib/sessionUtils";
+import { CalendarDays, MapPin, Plus } from "lucide-react";
+
+interface SessionWithCount extends TestSession {
+  performance_entries: { count: number }[];
+}
+
+const Sessions = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<SessionWithCount[]>([]);
+  const [currentUserId, setCurrentUserId] = useState("");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const fetchSessions = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+    setCurrentUserId(user.id);
+
+    const { data, error } = await supabase
+      .from("test_sessions")
+      .select("*, performance_entries(count)")
+      .is("performance_entries.deleted_at", null)
+      .order("session_date", { ascending: false });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load testing sessions",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSessions((data || []) as SessionWithCount[]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold mb-2">Testing Sessions</h1>
+          <p className="text-sm md:text-base text-muted-foreground">Combine days and testing events with their results</p>
+        </div>
+        <Button onClick={() => setIsDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Session
+        </Button>
+      </div>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5 text-primary" />
+            All Sessions
+          </CardTitle>
+          <CardDescription>Select a session to see its results by drill and player</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {sessions.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                No testing sessions yet. Create one before your next combine day!
+              </p>
+            ) : (
+              sessions.map((session) => (
+                <button
+                  key={session.id}
+                  type="button"
+                  onClick={() => navigate(`/sessions/${session.id}`)}
+                  className="w-full text-left flex flex-col sm:flex-row sm:items-center justify-between p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors gap-3"
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="font-semibold text-sm sm:text-base truncate">{session.name}</p>
+                    <p className="text-xs sm:text-sm text-muted-foreground flex items-center gap-1 truncate">
+                      {new Date(session.session_date).toLocaleDateString()}
+                      {session.location && (
+                        <>
+                          <MapPin className="h-3 w-3 ml-2" />
+                          {session.location}
+                        </>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {session.surface && (
+                      <Badge variant="outline" className="text-xs">
+                        {SURFACE_LABELS[session.surface]}
+                      </Badge>
+                    )}
+                    {session.timing_method && (
+                      <Badge variant="outline" className="text-xs">
+                        {TIMING_METHOD_LABELS[session.timing_method]}
+                      </Badge>
+                    )}
+                    <Badge variant="secondary" className="text-xs">
+                      {session.performance_entries[0]?.count ?? 0} results
+                    </Badge>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <TestSessionDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        currentUserId={currentUserId}
+        onSuccess={(session) => navigate(`/sessions/${session.id}`)}
+      />
+    </div>
+  );
+};
+
+export default Sessions;
@@ -6,12 +6,22 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, UserPlus, Shield, Pencil, Target, Trash2, KeyRound } from "lucide-react";
-import { POSITION_OPTIONS, POSITION_LABELS, type FootballPosition } from "@/lib/positionUtils";
+import { Plus, UserPlus, Shield, Pencil, Target, Trash2, KeyRound, Upload } from "lucide-react";
+import {
+  POSITION_OPTIONS,
+  POSITION_LABELS,
+  dayBefore,
+  planPositionChanges,
+  type FootballPosition,
+  type PlayerPosition,
+  type PositionAssignment,
+} from "@/lib/positionUtils";
 import { ResponsiveDialog } from "@/components/ResponsiveDialog";
+import { RosterImportDialog } from "@/components/RosterImportDialog";
+import { PlayerLink } from "@/components/PlayerLink";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { userProfileSchema } from "@/lib/validation";
+import { playerPositionsSchema, userProfileSchema } from "@/lib/validation";
 import { z } from "zod";
 import { useIsMobile } from "@/hooks/use-mobile";
 import {
@@ -31,19 +41,27 @@ interface UserProfile {
   first_name: string;
   last_name: string;
   roles?: Array<{ role: string }>;
-  position?: string;
+  // Current position spells, primary first
+  positions?: PlayerPosition[];
+  // Ended position spells, most recent first
+  positionHistory?: PlayerPosition[];
 }
 
+const today = () => new Date().toISOString().split('T')[0];
+
 const Users = () => {
   const { toast } = useToast();
   const isMobile = useIsMobile();
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isRosterImportOpen, setIsRosterImportOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedRoles, setSelectedRoles] = useState<string[]>([]);
   const [editingUser, setEditingUser] = useState<UserProfile | null>(null);
   const [primaryPosition, setPrimaryPosition] = useState<FootballPosition>('unassigned');
+  const [secondaryPositions, setSecondaryPositions] = useState<FootballPosition[]>([]);
+  const [positionsEffectiveDate, setPositionsEffectiveDate] = useState(today());
   const [userToDelete, setUserToDelete] = useState<UserProfile | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isPasswordResetDialogOpen, setIsPasswordResetDialogOpen] = useState(false);
@@ -72,8 +90,9 @@ const Users = () => {
           .in("user_id", userIds),
         supabase
           .from("player_positions")
-          .select("player_id, position")
+          .select("id, player_id, position, is_primary, started_on, ended_on")
           .in("player_id", userIds)
+          .order("started_on", { ascending: false })
       ]);
 
       const rolesMap = new Map<string, Array<{ role: string }>>();
@@ -84,16 +103,25 @@ const Users = () => {
         rolesMap.get(r.user_id)?.push({ role: r.role });
       });
 
-      const positionsMap = new Map<string, string>();
+      const positionsMap = new Map<string, PlayerPosition[]>();
       positionsResult.data?.forEach(p => {
-        positionsMap.set(p.player_id, p.position);
+        if (!positionsMap.has(p.player_id)) {
+          positionsMap.set(p.player_id, []);
+        }
+        positionsMap.get(p.player_id)?.push(p);
       });
 
-      const usersWithRoles = data.map(user => ({
-        ...user,
-        roles: rolesMap.get(user.id) || [],
-        position: positionsMap.get(user.id),
-      }));
+      const usersWithRoles = data.map(user => {
+        const spells = positionsMap.get(user.id) || [];
+        return {
+          ...user,
+          roles: rolesMap.get(user.id) || [],
+          positions: spells
+            .filter(p => p.ended_on === null)
+            .sort((a, b) => Number(b.is_primary) - Number(a.is_primary)),
+          positionHistory: spells.filter(p => p.ended_on !== null),
+        };
+      });
 
       setUsers(usersWithRoles);
     }
@@ -194,8 +222,11 @@ const Users = () => {
     setEditingUser(user);
     setSelectedRoles(user.roles?.map(r => r.role) || []);
     
-    // Load position - reset to unassigned if no position exists
-    setPrimaryPosition((user.position as FootballPosition) || 'unassigned');
+    // Load current positions - reset to unassigned if no position exists
+    const current = user.positions || [];
+    setPrimaryPosition(current.find(p => p.is_primary)?.position || 'unassigned');
+    setSecondaryPositions(current.filter(p => !p.is_primary).map(p => p.position));
+    setPositionsEffectiveDate(today());
     
     setIsEditDialogOpen(true);
   };
@@ -346,6 +377,23 @@ const Users = () => {
       return;
     }
 
+    const positionsValidation = playerPositionsSchema.safeParse({
+      primary: primaryPosition,
+      secondary: secondaryPositions,
+      effective_date: positionsEffectiveDate,
+    });
+
+    if (selectedRoles.includes('player') && !positionsValidation.success) {
+      const errors = positionsValidation.error.errors.map(e => e.message).join(", ");
+      toast({
+        title: "Validation Error",
+        description: errors,
+        variant: "destructive",
+      });
+      setIsLoading(false);
+      return;
+    }
+
     try {
       // Update profile
       const { error: profileError } = await supabase
@@ -393,45 +441,50 @@ const Users = () => {
         if (deleteError) throw deleteError;
       }
 
-      // Update positions if user has player role
-      if (selectedRoles.includes('player')) {
-        // Delete existing positions first
-        const { error: deleteError } = await supabase
+      // Position changes end the current spells and start new ones on the effective date,
+      // so past entries keep counting towards the position held at the time
+      const desiredPositions: PositionAssignment[] = selectedRoles.includes('player') && primaryPosition !== 'unassigned'
+        ? [
+            { position: primaryPosition, is_primary: true },
+            ...secondaryPositions.map(position => ({ position, is_primary: false })),
+          ]
+        : [];
+      const plan = planPositionChanges(editingUser.positions || [], desiredPositions, positionsEffectiveDate);
+
+      if (plan.close.length > 0) {
+        const { error: closeError } = await supabase
+          .from("player_positions")
+          .update({ ended_on: dayBefore(positionsEffectiveDate) })
+          .in("id", plan.close.map(p => p.id));
+
+        if (closeError) throw closeError;
+      }
+
+      if (plan.remove.length > 0) {
+        const { error: removeError } = await supabase
           .from("player_positions")
           .delete()
-          .eq("player_id", editingUser.id);
+          .in("id", plan.remove.map(p => p.id));
 
-        if (deleteError) {
-          if (import.meta.env.DEV) {
-            console.error("Error deleting positions:", deleteError);
-          }
-          throw deleteError;
-        }
+        if (removeError) throw removeError;
+      }
 
-        // Build position to insert
-        
-        // Only insert if not 'unassigned'
-        if (primaryPosition && primaryPosition !== 'unassigned') {
-          const { error: posError } = await supabase
-            .from("player_positions")
-            .insert([{
-              player_id: editingUser.id,
-              position: primaryPosition as any,
-            }]);
-
-          if (posError) {
-            if (import.meta.env.DEV) {
-              console.error("Error inserting position:", posError);
-            }
-            throw posError;
+      if (plan.open.length > 0) {
+        const { error: posError } = await supabase
+          .from("player_positions")
+          .insert(plan.open.map(assignment => ({
+            player_id: editingUser.id,
+            position: assignment.position,
+            is_primary: assignment.is_primary,
+            started_on: positionsEffectiveDate,
+          })));
+
+        if (posError) {
+          if (import.meta.env.DEV) {
+            console.error("Error inserting positions:", posError);
           }
+          throw posError;
         }
-      } else {
-        // If player role is removed, delete all positions
-        await supabase
-          .from("player_positions")
-          .delete()
-          .eq("player_id", editingUser.id);
       }
 
       toast({
@@ -443,6 +496,7 @@ const Users = () => {
       setEditingUser(null);
       setSelectedRoles([]);
       setPrimaryPosition('unassigned');
+      setSecondaryPositions([]);
       fetchUsers();
     } catch (error: any) {
       toast({
@@ -475,65 +529,78 @@ const Users = () => {
           <h1 className="text-2xl md:text-3xl font-bold mb-2">User Management</h1>
           <p className="text-sm md:text-base text-muted-foreground">Manage team members and their roles</p>
         </div>
-        <ResponsiveDialog
-          open={isDialogOpen}
-          onOpenChange={setIsDialogOpen}
-          title="Create New User"
-          description="Add a new team member to the system"
-          trigger={
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add User
-            </Button>
-          }
-        >
-          <form onSubmit={handleCreateUser} className="space-y-4">
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="first_name">First Name</Label>
-                <Input id="first_name" name="first_name" type="text" required />
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => setIsRosterImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import Roster
+          </Button>
+          <ResponsiveDialog
+            open={isDialogOpen}
+            onOpenChange={setIsDialogOpen}
+            title="Create New User"
+            description="Add a new team member to the system"
+            trigger={
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add User
+              </Button>
+            }
+          >
+            <form onSubmit={handleCreateUser} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="first_name">First Name</Label>
+                  <Input id="first_name" name="first_name" type="text" required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="last_name">Last Name</Label>
+                  <Input id="last_name" name="last_name" type="text" required />
+                </div>
               </div>
+
               <div className="space-y-2">
-                <Label htmlFor="last_name">Last Name</Label>
-                <Input id="last_name" name="last_name" type="text" required />
+                <Label htmlFor="username">Username</Label>
+                <Input id="username" name="username" type="text" placeholder="Enter username" required />
               </div>
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="username">Username</Label>
-              <Input id="username" name="username" type="text" placeholder="Enter username" required />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input id="password" name="password" type="password" minLength={6} required />
-            </div>
 
-            <div className="space-y-3">
-              <Label>Roles</Label>
               <div className="space-y-2">
-                {["admin", "coach", "player"].map((role) => (
-                  <div key={role} className="flex items-center space-x-2">
-                    <Checkbox
-                      id={`role-${role}`}
-                      checked={selectedRoles.includes(role)}
-                      onCheckedChange={() => handleRoleToggle(role)}
-                    />
-                    <Label htmlFor={`role-${role}`} className="capitalize cursor-pointer">
-                      {role}
-                    </Label>
-                  </div>
-                ))}
+                <Label htmlFor="password">Password</Label>
+                <Input id="password" name="password" type="password" minLength={6} required />
               </div>
-            </div>
 
-            <Button type="submit" className="w-full" disabled={isLoading}>
-              {isLoading ? "Creating..." : "Create User"}
-            </Button>
-          </form>
-        </ResponsiveDialog>
+              <div className="space-y-3">
+                <Label>Roles</Label>
+                <div className="space-y-2">
+                  {["admin", "coach", "player"].map((role) => (
+                    <div key={role} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`role-${role}`}
+                        checked={selectedRoles.includes(role)}
+                        onCheckedChange={() => handleRoleToggle(role)}
+                      />
+                      <Label htmlFor={`role-${role}`} className="capitalize cursor-pointer">
+                        {role}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? "Creating..." : "Create User"}
+              </Button>
+            </form>
+          </ResponsiveDialog>
+        </div>
       </div>
 
+      <RosterImportDialog
+        open={isRosterImportOpen}
+        onOpenChange={setIsRosterImportOpen}
+        existingUsernames={users.map(u => u.username)}
+        onSuccess={fetchUsers}
+      />
+
       <Card className="border-border/50 shadow-card">
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -560,7 +627,11 @@ const Users = () => {
                     </div>
                     <div className="min-w-0 flex-1">
                       <p className="font-semibold text-sm sm:text-base truncate">
-                        {user.first_name} {user.last_name}
+                        {user.roles?.some(r => r.role === "player") ? (
+                          <PlayerLink playerId={user.id}>{user.first_name} {user.last_name}</PlayerLink>
+                        ) : (
+                          <>{user.first_name} {user.last_name}</>
+                        )}
                       </p>
                       <p className="text-xs sm:text-sm text-muted-foreground truncate">{user.username}</p>
                     </div>
@@ -574,11 +645,14 @@ const Users = () => {
                           </Badge>
                         ))}
                       </div>
-                      {user.roles?.some(r => r.role === 'player') && user.position && (
+                      {user.roles?.some(r => r.role === 'player') && user.positions && user.positions.length > 0 && (
                         <div className="flex gap-1 items-center text-xs text-muted-foreground">
                           <Target className="h-3 w-3" />
                           <span>
-                            {POSITION_LABELS[user.position as FootballPosition]}
+                            {user.positions.map(p => p.is_primary
+                              ? POSITION_LABELS[p.position]
+                              : `${POSITION_LABELS[p.position]} (secondary)`
+                            ).join(", ")}
                           </span>
                         </div>
                       )}
@@ -667,20 +741,73 @@ const Users = () => {
             </div>
           </div>
           {selectedRoles.includes('player') && (
-            <div className="space-y-2">
-              <Label htmlFor="edit-position">Position</Label>
-              <Select value={primaryPosition} onValueChange={(val) => setPrimaryPosition(val as FootballPosition)}>
-                <SelectTrigger id="edit-position" className="bg-background">
-                  <SelectValue placeholder="Select Position" />
-                </SelectTrigger>
-                <SelectContent className="bg-popover z-50">
-                  {POSITION_OPTIONS.map((pos) => (
-                    <SelectItem key={pos} value={pos}>
-                      {POSITION_LABELS[pos]}
-                    </SelectItem>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-position">Primary Position</Label>
+                <Select
+                  value={primaryPosition}
+                  onValueChange={(val) => {
+                    setPrimaryPosition(val as FootballPosition);
+                    setSecondaryPositions(prev => prev.filter(p => p !== val));
+                  }}
+                >
+                  <SelectTrigger id="edit-position" className="bg-background">
+                    <SelectValue placeholder="Select Position" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover z-50">
+                    {POSITION_OPTIONS.map((pos) => (
+                      <SelectItem key={pos} value={pos}>
+                        {POSITION_LABELS[pos]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {primaryPosition !== 'unassigned' && (
+                <div className="space-y-2">
+                  <Label>Secondary Positions</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {POSITION_OPTIONS.filter(pos => pos !== 'unassigned' && pos !== primaryPosition).map((pos) => (
+                      <div key={pos} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`edit-secondary-${pos}`}
+                          checked={secondaryPositions.includes(pos)}
+                          onCheckedChange={() => setSecondaryPositions(prev =>
+                            prev.includes(pos) ? prev.filter(p => p !== pos) : [...prev, pos]
+                          )}
+                        />
+                        <Label htmlFor={`edit-secondary-${pos}`} className="cursor-pointer">
+                          {POSITION_LABELS[pos]}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="edit-positions-effective">Position Changes Take Effect On</Label>
+                <Input
+                  id="edit-positions-effective"
+                  type="date"
+                  value={positionsEffectiveDate}
+                  max={today()}
+                  onChange={(e) => setPositionsEffectiveDate(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Entries before this date keep counting towards the previous positions
+                </p>
+              </div>
+              {editingUser?.positionHistory && editingUser.positionHistory.length > 0 && (
+                <div className="space-y-1">
+                  <Label>Position History</Label>
+                  {editingUser.positionHistory.map((spell) => (
+                    <p key={spell.id} className="text-xs text-muted-foreground">
+                      {POSITION_LABELS[spell.position]}{!spell.is_primary && " (secondary)"}:{" "}
+                      {new Date(spell.started_on).toLocaleDateString()} – {new Date(spell.ended_on!).toLocaleDateString()}
+                    </p>
                   ))}
-                </SelectContent>
-              </Select>
+                </div>
+              )}
             </div>
           )}
           <Button type="submit" className="w-full" disabled={isLoading}>
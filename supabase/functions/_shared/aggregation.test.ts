@@ -0,0 +1,172 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import {
+  aggregateAttempts,
+  selectBestDailyEntries,
+  selectBestEntries,
+  selectLatestEntries,
+  selectPersonalBests,
+  type AggregatableEntry,
+  type MetricRule,
+} from './aggregation.ts';
+
+const HIGH: MetricRule = { key: 'jump', direction: 'higher_is_better', aggregation: 'best' };
+const LOW: MetricRule = { key: 'dash', direction: 'lower_is_better', aggregation: 'best' };
+const MEAN_HIGH: MetricRule = { key: 'pushups', direction: 'higher_is_better', aggregation: 'mean_best_two' };
+const MEAN_LOW: MetricRule = { key: 'shuttle', direction: 'lower_is_better', aggregation: 'mean_best_two' };
+const LAST: MetricRule = { key: 'throw', direction: 'higher_is_better', aggregation: 'last' };
+
+const entry = (overrides: Partial<AggregatableEntry> & Pick<AggregatableEntry, 'id' | 'value'>): AggregatableEntry => ({
+  player_id: 'p1',
+  metric_type: 'jump',
+  entry_date: '2026-01-05',
+  created_at: '2026-01-05T09:00:00Z',
+  ...overrides,
+});
+
+describe('aggregateAttempts', () => {
+  it('keeps the best attempt by direction', () => {
+    const attempts = [entry({ id: 'a', value: 50 }), entry({ id: 'b', value: 55 }), entry({ id: 'c', value: 52 })];
+    expect(aggregateAttempts(attempts, HIGH).id).toBe('b');
+
+    const dashes = [entry({ id: 'a', value: 4.9 }), entry({ id: 'b', value: 4.7 }), entry({ id: 'c', value: 4.8 })];
+    expect(aggregateAttempts(dashes, LOW).id).toBe('b');
+  });
+
+  it('breaks ties between equal values by the earlier created_at, then the lower id', () => {
+    const attempts = [
+      entry({ id: 'a', value: 55, created_at: '2026-01-05T09:10:00Z' }),
+      entry({ id: 'b', value: 55, created_at: '2026-01-05T09:05:00Z' }),
+    ];
+    expect(aggregateAttempts(attempts, HIGH).id).toBe('b');
+
+    const sameTime = [entry({ id: 'z', value: 55 }), entry({ id: 'y', value: 55 })];
+    expect(aggregateAttempts(sameTime, HIGH).id).toBe('y');
+  });
+
+  it('does not depend on the order of the attempts', () => {
+    const attempts = [entry({ id: 'a', value: 55 }), entry({ id: 'b', value: 55 }), entry({ id: 'c', value: 40 })];
+    expect(aggregateAttempts(attempts, HIGH).id).toBe(aggregateAttempts([...attempts].reverse(), HIGH).id);
+  });
+
+  it('keeps a single attempt as is under mean_best_two', () => {
+    const result = aggregateAttempts([entry({ id: 'a', value: 20, metric_type: 'pushups' })], MEAN_HIGH);
+    expect(result).toMatchObject({ id: 'a', value: 20 });
+  });
+
+  it('averages the best two attempts under mean_best_two', () => {
+    const attempts = [
+      entry({ id: 'a', value: 20, metric_type: 'pushups' }),
+      entry({ id: 'b', value: 24, metric_type: 'pushups' }),
+      entry({ id: 'c', value: 22, metric_type: 'pushups' }),
+    ];
+    expect(aggregateAttempts(attempts, MEAN_HIGH)).toMatchObject({ id: 'b', value: 23 });
+
+    const twoAttempts = attempts.slice(0, 2);
+    expect(aggregateAttempts(twoAttempts, MEAN_HIGH)).toMatchObject({ id: 'b', value: 22 });
+
+    const shuttles = [
+      entry({ id: 'a', value: 4.6, metric_type: 'shuttle' }),
+      entry({ id: 'b', value: 4.4, metric_type: 'shuttle' }),
+      entry({ id: 'c', value: 4.5, metric_type: 'shuttle' }),
+    ];
+    const mean = aggregateAttempts(shuttles, MEAN_LOW);
+    expect(mean.id).toBe('b');
+    expect(mean.value).toBeCloseTo(4.45);
+  });
+
+  it('keeps the highest attempt number under last, even when it was recorded earlier', () => {
+    const attempts = [
+      entry({ id: 'a', value: 30, attempt_number: 1, created_at: '2026-01-05T10:00:00Z' }),
+      entry({ id: 'b', value: 25, attempt_number: 2, created_at: '2026-01-05T09:00:00Z' }),
+    ];
+    expect(aggregateAttempts(attempts, LAST).id).toBe('b');
+  });
+
+  it('falls back to the later created_at, then the higher id, under last', () => {
+    const attempts = [
+      entry({ id: 'a', value: 30, created_at: '2026-01-05T10:00:00Z' }),
+      entry({ id: 'b', value: 25, created_at: '2026-01-05T09:00:00Z' }),
+    ];
+    expect(aggregateAttempts(attempts, LAST).id).toBe('a');
+
+    const sameTime = [entry({ id: 'a', value: 30 }), entry({ id: 'b', value: 25 })];
+    expect(aggregateAttempts(sameTime, LAST).id).toBe('b');
+  });
+});
+
+describe('selectBestDailyEntries', () => {
+  it('returns one result per player, metric and day', () => {
+    const entries = [
+      entry({ id: 'a', value: 50 }),
+      entry({ id: 'b', value: 55 }),
+      entry({ id: 'c', value: 48, entry_date: '2026-01-06' }),
+      entry({ id: 'd', value: 60, player_id: 'p2' }),
+      entry({ id: 'e', value: 4.8, metric_type: 'dash' }),
+    ];
+    const ids = selectBestDailyEntries(entries, [HIGH, LOW]).map(e => e.id).sort();
+    expect(ids).toEqual(['b', 'c', 'd', 'e']);
+  });
+
+  it('ignores metrics missing from the registry', () => {
+    expect(selectBestDailyEntries([entry({ id: 'a', value: 50, metric_type: 'unknown' })], [HIGH])).toEqual([]);
+  });
+});
+
+describe('selectLatestEntries', () => {
+  it('keeps the daily result of the most recent day, not the best one', () => {
+    const entries = [
+      entry({ id: 'a', value: 4.5, metric_type: 'dash', entry_date: '2026-01-05' }),
+      entry({ id: 'b', value: 4.9, metric_type: 'dash', entry_date: '2026-02-05' }),
+      entry({ id: 'c', value: 4.8, metric_type: 'dash', entry_date: '2026-02-05' }),
+    ];
+    expect(selectLatestEntries(entries, [LOW]).map(e => e.id)).toEqual(['c']);
+  });
+});
+
+describe('selectPersonalBests', () => {
+  it('compares daily results, so a mean of two can lose to a single attempt', () => {
+    const entries = [
+      entry({ id: 'a', value: 25, metric_type: 'pushups', entry_date: '2026-01-05' }),
+      entry({ id: 'b', value: 26, metric_type: 'pushups', entry_date: '2026-01-06' }),
+      entry({ id: 'c', value: 22, metric_type: 'pushups', entry_date: '2026-01-06' }),
+    ];
+    expect(selectPersonalBests(entries, [MEAN_HIGH])).toEqual([expect.objectContaining({ id: 'a', value: 25 })]);
+  });
+
+  it('keeps the earlier day when two days tie', () => {
+    const entries = [
+      entry({ id: 'a', value: 4.7, metric_type: 'dash', entry_date: '2026-02-05', created_at: '2026-02-05T09:00:00Z' }),
+      entry({ id: 'b', value: 4.7, metric_type: 'dash', entry_date: '2026-01-05', created_at: '2026-01-05T09:00:00Z' }),
+    ];
+    expect(selectPersonalBests(entries, [LOW]).map(e => e.id)).toEqual(['b']);
+  });
+});
+
+describe('selectBestEntries', () => {
+  it('returns the best daily result of the whole group per metric', () => {
+    const entries = [
+      entry({ id: 'a', value: 4.7, metric_type: 'dash', player_id: 'p1' }),
+      entry({ id: 'b', value: 4.5, metric_type: 'dash', player_id: 'p2' }),
+      entry({ id: 'c', value: 50, player_id: 'p1' }),
+      entry({ id: 'd', value: 48, player_id: 'p2' }),
+    ];
+    const best = selectBestEntries(entries, [HIGH, LOW]);
+    expect(best.map(e => e.id).sort()).toEqual(['b', 'c']);
+  });
+});
+
+describe('shared fixture with the best_daily_entries view', () => {
+  // The same fixture is checked against the SQL view by supabase/tests/database/best_daily_entries.test.sql
+  const sql = readFileSync(new URL('../../tests/database/best_daily_entries.test.sql', import.meta.url), 'utf8');
+  const fixture = JSON.parse(sql.match(/SELECT \$fixture\$([\s\S]*?)\$fixture\$::jsonb/)![1]);
+
+  it('produces the daily results the view is expected to return', () => {
+    const entries = fixture.entries.map((e: AggregatableEntry) => ({ ...e, player_id: fixture.player_id }));
+    const actual = selectBestDailyEntries(entries, fixture.metrics)
+      .map(e => ({ metric_type: e.metric_type, entry_date: e.entry_date, id: e.id, value: e.value }))
+      .sort((a, b) => a.metric_type.localeCompare(b.metric_type) || a.entry_date.localeCompare(b.entry_date));
+
+    expect(actual).toEqual(fixture.expected);
+  });
+});
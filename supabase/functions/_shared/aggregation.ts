@@ -0,0 +1,195 @@
+/**
+ * Aggregation rules shared by the edge functions (Deno) and the browser.
+ * Keep this module free of imports so it runs unchanged in both runtimes.
+ *
+ * Semantics, mirrored by the best_daily_entries / latest_player_metrics SQL views:
+ * - Daily result: per player, metric and day, the attempts reduced by the metric's aggregation:
+ *   'best' keeps the best attempt by direction (ties go to the earlier created_at, then the lower id),
+ *   'mean_best_two' keeps the best attempt with its value replaced by the mean of the best two,
+ *   'last' keeps the highest attempt number.
+ * - Latest value: a player's daily result on the most recent day with an entry.
+ * - Best value: the best daily result, regardless of date.
+ * Entries for metrics missing from the given registry are ignored.
+ */
+
+export type MetricDirection = 'higher_is_better' | 'lower_is_better';
+export type MetricAggregation = 'best' | 'mean_best_two' | 'last';
+
+export interface MetricRule {
+  key: string;
+  direction: MetricDirection;
+  aggregation?: MetricAggregation;
+}
+
+export interface AggregatableEntry {
+  id?: string;
+  player_id: string;
+  metric_type: string;
+  value: number;
+  entry_date: string;
+  created_at?: string | null;
+  attempt_number?: number | null;
+}
+
+/**
+ * Whether value `a` is strictly better than value `b`
+ */
+export function isBetterValue(direction: MetricDirection, a: number, b: number): boolean {
+  return direction === 'lower_is_better' ? a < b : a > b;
+}
+
+/**
+ * Sort comparator placing the better entry first, with deterministic tie-breaking
+ */
+export function compareEntries(direction: MetricDirection) {
+  return (a: AggregatableEntry, b: AggregatableEntry): number => {
+    const valueA = Number(a.value);
+    const valueB = Number(b.value);
+    if (valueA !== valueB) {
+      return direction === 'lower_is_better' ? valueA - valueB : valueB - valueA;
+    }
+    const createdA = a.created_at ?? '';
+    const createdB = b.created_at ?? '';
+    if (createdA !== createdB) {
+      return createdA < createdB ? -1 : 1;
+    }
+    const idA = a.id ?? '';
+    const idB = b.id ?? '';
+    return idA < idB ? -1 : idA > idB ? 1 : 0;
+  };
+}
+
+/**
+ * Sort comparator placing the most recent attempt of a day first
+ */
+function compareRecency(a: AggregatableEntry, b: AggregatableEntry): number {
+  const attemptA = a.attempt_number ?? 0;
+  const attemptB = b.attempt_number ?? 0;
+  if (attemptA !== attemptB) {
+    return attemptB - attemptA;
+  }
+  const createdA = a.created_at ?? '';
+  const createdB = b.created_at ?? '';
+  if (createdA !== createdB) {
+    return createdA > createdB ? -1 : 1;
+  }
+  const idA = a.id ?? '';
+  const idB = b.id ?? '';
+  return idA > idB ? -1 : idA < idB ? 1 : 0;
+}
+
+function buildRuleMap(metrics: MetricRule[]): Map<string, MetricRule> {
+  return new Map(metrics.map(m => [m.key, m]));
+}
+
+/**
+ * Reduce one day's attempts of a single player and metric to its daily result
+ */
+export function aggregateAttempts<T extends AggregatableEntry>(attempts: T[], rule: MetricRule): T {
+  if (rule.aggregation === 'last') {
+    return [...attempts].sort(compareRecency)[0];
+  }
+
+  const ranked = [...attempts].sort(compareEntries(rule.direction));
+  if (rule.aggregation === 'mean_best_two' && ranked.length > 1) {
+    return { ...ranked[0], value: (Number(ranked[0].value) + Number(ranked[1].value)) / 2 };
+  }
+  return ranked[0];
+}
+
+/**
+ * Keep the entry that `prefer` ranks first for every group key
+ */
+function reduceByKey<T extends AggregatableEntry>(
+  entries: T[],
+  groupKey: (entry: T) => string,
+  prefer: (candidate: T, current: T, rule: MetricRule) => boolean,
+  rules: Map<string, MetricRule>
+): T[] {
+  const selected = new Map<string, T>();
+
+  for (const entry of entries) {
+    const rule = rules.get(entry.metric_type);
+    if (!rule) continue;
+
+    const key = groupKey(entry);
+    const current = selected.get(key);
+    if (!current || prefer(entry, current, rule)) {
+      selected.set(key, entry);
+    }
+  }
+
+  return Array.from(selected.values());
+}
+
+/**
+ * One entry per player, metric and day: the daily result under the metric's aggregation
+ */
+export function selectBestDailyEntries<T extends AggregatableEntry>(
+  entries: T[],
+  metrics: MetricRule[]
+): T[] {
+  const rules = buildRuleMap(metrics);
+  const attemptsByDay = new Map<string, T[]>();
+
+  for (const entry of entries) {
+    if (!rules.has(entry.metric_type)) continue;
+
+    const key = `${entry.player_id}|${entry.metric_type}|${entry.entry_date}`;
+    const attempts = attemptsByDay.get(key);
+    if (attempts) {
+      attempts.push(entry);
+    } else {
+      attemptsByDay.set(key, [entry]);
+    }
+  }
+
+  return Array.from(attemptsByDay.values()).map(attempts =>
+    aggregateAttempts(attempts, rules.get(attempts[0].metric_type)!)
+  );
+}
+
+/**
+ * One entry per player and metric: the daily result of the most recent day
+ */
+export function selectLatestEntries<T extends AggregatableEntry>(
+  entries: T[],
+  metrics: MetricRule[]
+): T[] {
+  return reduceByKey(
+    selectBestDailyEntries(entries, metrics),
+    e => `${e.player_id}|${e.metric_type}`,
+    (candidate, current) => candidate.entry_date > current.entry_date,
+    buildRuleMap(metrics)
+  );
+}
+
+/**
+ * One entry per player and metric: the best daily result across all dates
+ */
+export function selectPersonalBests<T extends AggregatableEntry>(
+  entries: T[],
+  metrics: MetricRule[]
+): T[] {
+  return reduceByKey(
+    selectBestDailyEntries(entries, metrics),
+    e => `${e.player_id}|${e.metric_type}`,
+    (candidate, current, rule) => compareEntries(rule.direction)(candidate, current) < 0,
+    buildRuleMap(metrics)
+  );
+}
+
+/**
+ * One entry per metric: the best daily result of the whole group
+ */
+export function selectBestEntries<T extends AggregatableEntry>(
+  entries: T[],
+  metrics: MetricRule[]
+): T[] {
+  return reduceByKey(
+    selectBestDailyEntries(entries, metrics),
+    e => e.metric_type,
+    (candidate, current, rule) => compareEntries(rule.direction)(candidate, current) < 0,
+    buildRuleMap(metrics)
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * Monthly reference bands for progress charts: the mean and spread of a cohort's results per calendar month.
+ * Shared by the edge functions (Deno) and the browser; only import other shared modules.
+ *
+ * Each player counts once per month with their best daily result in that month, so a player
+ * who tested often does not pull the band towards themselves.
+ */
+import { selectPersonalBests, type AggregatableEntry, type MetricRule } from './aggregation.ts';
+import { mean, standardDeviation, zScore } from './statistics.ts';
+
+export interface BandStats {
+  mean: number;
+  sd: number;
+  // Players with a result in the month
+  count: number;
+}
+
+export interface BandPeriod {
+  // Calendar month, YYYY-MM
+  period: string;
+  team: BandStats | null;
+  position: BandStats | null;
+}
+
+/**
+ * Calendar month (YYYY-MM) of a YYYY-MM-DD date
+ */
+export function periodOf(date: string): string {
+  return date.slice(0, 7);
+}
+
+/**
+ * Band per month for one metric, keyed by period
+ */
+export function buildMonthlyBands(entries: AggregatableEntry[], metric: MetricRule): Map<string, BandStats> {
+  const byPeriod = new Map<string, AggregatableEntry[]>();
+  entries
+    .filter(entry => entry.metric_type === metric.key)
+    .forEach(entry => {
+      const period = periodOf(entry.entry_date);
+      if (!byPeriod.has(period)) {
+        byPeriod.set(period, []);
+      }
+      byPeriod.get(period)!.push(entry);
+    });
+
+  const bands = new Map<string, BandStats>();
+  byPeriod.forEach((periodEntries, period) => {
+    const values = selectPersonalBests(periodEntries, [metric]).map(e => Number(e.value));
+    bands.set(period, { mean: mean(values), sd: standardDeviation(values), count: values.length });
+  });
+  return bands;
+}
+
+/**
+ * T-score (50 + 10 × z) of a value against a band, oriented so that higher is always better.
+ * Puts metrics with different units and directions on one axis.
+ */
+export function toTScore(value: number, band: Pick<BandStats, 'mean' | 'sd'>, lowerIsBetter: boolean): number {
+  return 50 + 10 * zScore(value, band, lowerIsBetter);
+}
@@ -0,0 +1,134 @@
+/**
+ * Composite metrics: weighted scores over other metrics, e.g. "Agility = 3-cone + 5-10-5 shuttle".
+ * Shared by the edge functions (Deno) and the browser; only import other shared modules.
+ *
+ * Each component's daily result is scored 0-100 on its reference range (100 is always the better end)
+ * and the composite is the weighted mean of the component scores. A player gets a composite result on
+ * every day one of its components was recorded, combined with the most recent result of each other
+ * component from the previous COMPONENT_MAX_AGE_DAYS days. Days with a component missing are skipped.
+ */
+import { selectBestDailyEntries, type AggregatableEntry, type MetricRule } from './aggregation.ts';
+import { normalizeValue, type NormalizationContext, type NormalizationRule } from './normalization.ts';
+import { deriveEntries, isDerived, type BodyMeasurement, type DerivationRule } from './derived.ts';
+
+// Older component results no longer count towards a composite
+export const COMPONENT_MAX_AGE_DAYS = 365;
+
+export interface MetricComponent {
+  composite_key: string;
+  component_key: string;
+  weight: number;
+}
+
+export type CompositeRule = MetricRule & NormalizationRule & DerivationRule;
+
+// Reference range scoring needs no group context
+const NO_CONTEXT: NormalizationContext = { best: new Map(), distribution: new Map() };
+
+export function isComposite(rule: Pick<DerivationRule, 'kind'> | undefined): boolean {
+  return rule?.kind === 'composite';
+}
+
+/**
+ * The given metric keys plus every metric their values are calculated from, i.e. what has to be loaded to show them
+ */
+export function withInputMetrics(keys: string[], rules: DerivationRule[], components: MetricComponent[]): string[] {
+  const withComponents = [
+    ...keys,
+    ...components.filter(c => keys.includes(c.composite_key)).map(c => c.component_key),
+  ];
+  const sources = rules
+    .filter(rule => isDerived(rule) && withComponents.includes(rule.key) && rule.source_metric)
+    .map(rule => rule.source_metric as string);
+  return [...new Set([...withComponents, ...sources])];
+}
+
+function daysBefore(date: string, days: number): string {
+  const start = new Date(date);
+  start.setDate(start.getDate() - days);
+  return start.toISOString().split('T')[0];
+}
+
+/**
+ * Composite entries calculated from the given entries, one per player, composite and day.
+ * Returns only the composite entries; ids combine the composite key, player and day.
+ */
+export function composeEntries<T extends AggregatableEntry & { unit?: string }>(
+  entries: T[],
+  rules: CompositeRule[],
+  components: MetricComponent[]
+): T[] {
+  const ruleMap = new Map(rules.map(rule => [rule.key, rule]));
+  const composites = rules
+    .filter(isComposite)
+    .map(rule => ({
+      rule,
+      parts: components.filter(c => c.composite_key === rule.key && ruleMap.has(c.component_key)),
+    }))
+    .filter(({ parts }) => parts.length > 0);
+  if (composites.length === 0) return [];
+
+  const componentKeys = new Set(composites.flatMap(({ parts }) => parts.map(p => p.component_key)));
+  const resultsByPlayer = new Map<string, T[]>();
+  selectBestDailyEntries(entries.filter(e => componentKeys.has(e.metric_type)), rules)
+    .sort((a, b) => a.entry_date.localeCompare(b.entry_date))
+    .forEach(result => {
+      if (!resultsByPlayer.has(result.player_id)) {
+        resultsByPlayer.set(result.player_id, []);
+      }
+      resultsByPlayer.get(result.player_id)!.push(result);
+    });
+
+  const composed: T[] = [];
+
+  resultsByPlayer.forEach(results => {
+    composites.forEach(({ rule, parts }) => {
+      const latest = new Map<string, T>();
+      const partResults = results.filter(r => parts.some(p => p.component_key === r.metric_type));
+
+      partResults.forEach((result, index) => {
+        latest.set(result.metric_type, result);
+        // Score once per day, after the last result of that day
+        if (partResults[index + 1]?.entry_date === result.entry_date) return;
+
+        const oldest = daysBefore(result.entry_date, COMPONENT_MAX_AGE_DAYS);
+        let weightedSum = 0;
+        let totalWeight = 0;
+        for (const part of parts) {
+          const component = latest.get(part.component_key);
+          if (!component || component.entry_date < oldest) return;
+
+          const score = normalizeValue(component.value, ruleMap.get(part.component_key)!, NO_CONTEXT, 'reference_range');
+          if (score === null) return;
+
+          weightedSum += score * part.weight;
+          totalWeight += part.weight;
+        }
+
+        composed.push({
+          ...result,
+          id: result.id && `${rule.key}:${result.player_id}:${result.entry_date}`,
+          metric_type: rule.key,
+          value: Math.round((weightedSum / totalWeight) * 10) / 10,
+          attempt_number: 1,
+          ...(result.unit !== undefined && { unit: rule.unit }),
+        } as T);
+      });
+    });
+  });
+
+  return composed;
+}
+
+/**
+ * Recorded entries plus the derived and composite entries calculated from them
+ */
+export function withCalculatedEntries<T extends AggregatableEntry & { unit?: string }>(
+  entries: T[],
+  rules: CompositeRule[],
+  measurements: BodyMeasurement[],
+  components: MetricComponent[]
+): T[] {
+  const withDerived = [...entries, ...deriveEntries(entries, rules, measurements)];
+  return [...withDerived, ...composeEntries(withDerived, rules, components)];
+}
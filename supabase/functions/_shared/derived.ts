@@ -0,0 +1,117 @@
+/**
+ * Derived metrics: values calculated from a source metric's results and the player's body measurements,
+ * never recorded directly. Mirrors the formula list of the metrics_derivation_check constraint.
+ * Shared by the edge functions (Deno) and the browser; only import other shared modules.
+ *
+ * - sayers_power: peak power (W) = 60.7 × jump height (cm) + 45.3 × body mass (kg) − 2055 (Sayers et al., 1999)
+ * - per_body_weight: source value ÷ body mass (kg)
+ * - momentum: body mass (kg) × formula_param (m) ÷ sprint time (s), in kg·m/s
+ *
+ * Every recorded attempt yields a derived attempt, so derived metrics go through the usual daily aggregation.
+ * The body mass is the player's most recent weight on or before the day of the result, or their first
+ * weight when the result predates every measurement.
+ */
+import type { AggregatableEntry } from './aggregation.ts';
+
+export type DerivationFormula = 'sayers_power' | 'per_body_weight' | 'momentum';
+
+// Only measured metrics are recorded; composites are described in composites.ts
+export type MetricKind = 'measured' | 'derived' | 'composite';
+
+export interface DerivationRule {
+  key: string;
+  unit: string;
+  kind: MetricKind;
+  source_metric: string | null;
+  formula: string | null;
+  formula_param: number | null;
+}
+
+export interface BodyMeasurement {
+  player_id: string;
+  measured_on: string;
+  weight_kg: number | null;
+}
+
+export function isDerived(rule: Pick<DerivationRule, 'kind'> | undefined): boolean {
+  return rule?.kind === 'derived';
+}
+
+/**
+ * Derived value of one result, or null when it cannot be calculated
+ */
+export function deriveValue(formula: string, value: number, weightKg: number, param: number | null): number | null {
+  switch (formula as DerivationFormula) {
+    case 'sayers_power':
+      return 60.7 * value + 45.3 * weightKg - 2055;
+    case 'per_body_weight':
+      return value / weightKg;
+    case 'momentum':
+      return param && value > 0 ? weightKg * param / value : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Weights per player, oldest first
+ */
+function buildWeightHistory(measurements: BodyMeasurement[]): Map<string, BodyMeasurement[]> {
+  const history = new Map<string, BodyMeasurement[]>();
+  measurements
+    .filter(m => m.weight_kg !== null && Number(m.weight_kg) > 0)
+    .forEach(m => {
+      if (!history.has(m.player_id)) {
+        history.set(m.player_id, []);
+      }
+      history.get(m.player_id)!.push(m);
+    });
+  history.forEach(list => list.sort((a, b) => a.measured_on.localeCompare(b.measured_on)));
+  return history;
+}
+
+function weightOn(history: BodyMeasurement[] | undefined, date: string): number | null {
+  if (!history || history.length === 0) return null;
+
+  const onOrBefore = history.filter(m => m.measured_on <= date);
+  const measurement = onOrBefore.length > 0 ? onOrBefore[onOrBefore.length - 1] : history[0];
+  return Number(measurement.weight_kg);
+}
+
+/**
+ * Derived entries for every recorded entry of a source metric. Returns only the derived entries;
+ * ids are the source entry's id suffixed with the derived metric key.
+ */
+export function deriveEntries<T extends AggregatableEntry & { unit?: string }>(
+  entries: T[],
+  rules: DerivationRule[],
+  measurements: BodyMeasurement[]
+): T[] {
+  const derivedRules = rules.filter(rule => isDerived(rule) && rule.source_metric && rule.formula);
+  if (derivedRules.length === 0) return [];
+
+  const weights = buildWeightHistory(measurements);
+  const derived: T[] = [];
+
+  entries.forEach(entry => {
+    derivedRules
+      .filter(rule => rule.source_metric === entry.metric_type)
+      .forEach(rule => {
+        const weightKg = weightOn(weights.get(entry.player_id), entry.entry_date);
+        if (weightKg === null) return;
+
+        const value = deriveValue(rule.formula!, Number(entry.value), weightKg, rule.formula_param);
+        if (value === null || !Number.isFinite(value)) return;
+
+        derived.push({
+          ...entry,
+          id: entry.id && `${entry.id}:${rule.key}`,
+          metric_type: rule.key,
+          value: Math.round(value * 100) / 100,
+          ...(entry.unit !== undefined && { unit: rule.unit }),
+        } as T);
+      });
+  });
+
+  return derived;
+}
@@ -0,0 +1,128 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
+import { isInScope, type ResolvedScope } from './scope.ts';
+import { loadMetrics } from './metrics.ts';
+import type { BodyMeasurement } from './derived.ts';
+import { withCalculatedEntries, type MetricComponent } from './composites.ts';
+
+export interface PerformanceEntryRow {
+  id: string;
+  player_id: string;
+  metric_type: string;
+  value: number;
+  unit: string;
+  entry_date: string;
+  created_at: string;
+  attempt_number: number;
+}
+
+// Rows per request; matches the API's default row limit
+const ENTRY_PAGE_SIZE = 1000;
+
+export interface EntryFilter {
+  playerId?: string;
+  since?: string;
+  scope?: ResolvedScope;
+}
+
+/**
+ * Load raw performance entries for aggregation.
+ * Every function that aggregates entries goes through here so filters stay consistent.
+ * Entries of derived and composite metrics are calculated from the recorded ones and appended.
+ */
+export async function fetchEntries(
+  supabase: SupabaseClient,
+  { playerId, since, scope }: EntryFilter = {}
+): Promise<PerformanceEntryRow[]> {
+  const buildQuery = () => {
+    let query = supabase
+      .from('performance_entries')
+      .select('id, player_id, metric_type, value, unit, entry_date, created_at, attempt_number')
+      // Entries in the trash or awaiting approval take no part in any aggregation
+      .is('deleted_at', null)
+      .eq('status', 'approved');
+
+    if (playerId) {
+      query = query.eq('player_id', playerId);
+    }
+
+    // The later of the two lower bounds wins
+    const lowerBound = [since, scope?.since].filter(Boolean).sort().pop();
+    if (lowerBound) {
+      query = query.gte('entry_date', lowerBound);
+    }
+
+    if (scope?.until) {
+      query = query.lte('entry_date', scope.until);
+    }
+
+    if (scope?.excludeFlagged) {
+      query = query.is('flag_reason', null);
+    }
+
+    return query;
+  };
+
+  // Paged: a single select stops at the API's row limit and would silently drop older history
+  const rows: PerformanceEntryRow[] = [];
+  for (let from = 0; ; from += ENTRY_PAGE_SIZE) {
+    const { data: page, error } = await buildQuery()
+      .order('id')
+      .range(from, from + ENTRY_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching entries:', error);
+      throw error;
+    }
+
+    rows.push(...((page || []) as PerformanceEntryRow[]));
+    if ((page || []).length < ENTRY_PAGE_SIZE) break;
+  }
+
+  const entries = rows
+    .filter(entry => !scope || isInScope(scope, entry.player_id))
+    .map(entry => ({
+      ...entry,
+      value: Number(entry.value),
+    }));
+
+  const [metrics, measurements, components] = await Promise.all([
+    loadMetrics(supabase, { includeInactive: true }),
+    fetchBodyMeasurements(supabase, playerId),
+    fetchMetricComponents(supabase),
+  ]);
+
+  return withCalculatedEntries(entries, metrics, measurements, components);
+}
+
+async function fetchBodyMeasurements(supabase: SupabaseClient, playerId?: string): Promise<BodyMeasurement[]> {
+  let query = supabase
+    .from('body_measurements')
+    .select('player_id, measured_on, weight_kg')
+    .not('weight_kg', 'is', null);
+
+  if (playerId) {
+    query = query.eq('player_id', playerId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching body measurements:', error);
+    throw error;
+  }
+
+  return (data || []).map(m => ({ ...m, weight_kg: Number(m.weight_kg) }));
+}
+
+async function fetchMetricComponents(supabase: SupabaseClient): Promise<MetricComponent[]> {
+  const { data, error } = await supabase
+    .from('metric_components')
+    .select('composite_key, component_key, weight');
+
+  if (error) {
+    console.error('Error fetching metric components:', error);
+    throw error;
+  }
+
+  return (data || []).map(c => ({ ...c, weight: Number(c.weight) }));
+}
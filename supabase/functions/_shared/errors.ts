@@ -0,0 +1,68 @@
+import { corsHeaders } from './cors.ts';
+
+export type ErrorCode =
+  | 'bad_request'
+  | 'validation_failed'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'internal_error';
+
+const STATUS_BY_CODE: Record<ErrorCode, number> = {
+  bad_request: 400,
+  validation_failed: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+  internal_error: 500,
+};
+
+/**
+ * Error with a stable code that is mapped to an HTTP status by the request pipeline.
+ * Anything else thrown from a handler becomes a 500 internal_error.
+ */
+export class HttpError extends Error {
+  readonly code: ErrorCode;
+  readonly status: number;
+  readonly details?: unknown;
+
+  constructor(code: ErrorCode, message: string, details?: unknown) {
+    super(message);
+    this.name = 'HttpError';
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+    this.details = details;
+  }
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Consistent error envelope: { error: message, code, details? }
+ * `error` stays a plain string so existing callers reading `result.error` keep working.
+ */
+export function errorResponse(error: unknown): Response {
+  if (error instanceof HttpError) {
+    return jsonResponse(
+      {
+        error: error.message,
+        code: error.code,
+        ...(error.details !== undefined && { details: error.details }),
+      },
+      error.status
+    );
+  }
+
+  console.error('Unhandled error:', error);
+  const message = error instanceof Error
+    ? error.message
+    : (error as { message?: string })?.message ?? 'Unknown error occurred';
+  return jsonResponse({ error: message, code: 'internal_error' }, 500);
+}
@@ -0,0 +1,118 @@
+import type { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { corsHeaders } from './cors.ts';
+import { HttpError, errorResponse, jsonResponse } from './errors.ts';
+import { createAdminClient, createUserClient } from './supabase.ts';
+
+export type AppRole = 'admin' | 'coach' | 'player';
+
+export interface HandlerContext<TBody> {
+  req: Request;
+  user: User;
+  roles: AppRole[];
+  body: TBody;
+  /** Service role client, bypasses RLS; audited changes are attributed to the caller */
+  supabaseAdmin: SupabaseClient;
+  /** Client authenticated as the caller, RLS applies */
+  supabaseClient: SupabaseClient;
+}
+
+interface HandlerOptions<TSchema extends z.ZodTypeAny> {
+  /** Caller needs at least one of these roles */
+  roles?: AppRole[];
+  /** Request body schema; the body is not read when omitted */
+  schema?: TSchema;
+  /** Return a Response for full control, anything else is sent as JSON with status 200 */
+  handler: (ctx: HandlerContext<z.infer<TSchema>>) => Promise<unknown> | unknown;
+}
+
+export function hasAnyRole(roles: AppRole[], required: AppRole[]): boolean {
+  return required.some(role => roles.includes(role));
+}
+
+async function authenticate(req: Request, supabaseAdmin: SupabaseClient) {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    throw new HttpError('unauthorized', 'Missing authorization header');
+  }
+
+  const token = authHeader.slice('Bearer '.length);
+  const { data: { user }, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !user) {
+    throw new HttpError('unauthorized', 'Unauthorized');
+  }
+
+  const { data: roleRows, error: rolesError } = await supabaseAdmin
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id);
+
+  if (rolesError) {
+    throw rolesError;
+  }
+
+  const roles = (roleRows || []).map((r: { role: AppRole }) => r.role);
+  return { user, roles, authHeader };
+}
+
+async function parseBody<TSchema extends z.ZodTypeAny>(req: Request, schema: TSchema): Promise<z.infer<TSchema>> {
+  const text = await req.text();
+  let raw: unknown = {};
+  if (text.trim() !== '') {
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new HttpError('bad_request', 'Request body must be valid JSON');
+    }
+  }
+
+  const validation = schema.safeParse(raw);
+  if (!validation.success) {
+    throw new HttpError(
+      'validation_failed',
+      'Validation failed',
+      validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+    );
+  }
+  return validation.data;
+}
+
+/**
+ * Request pipeline shared by all edge functions:
+ * CORS preflight, bearer token authentication, role guard, body validation
+ * and mapping of thrown errors to the JSON error envelope.
+ */
+export function createAuthenticatedHandler<TSchema extends z.ZodTypeAny = z.ZodUndefined>(
+  options: HandlerOptions<TSchema>
+): (req: Request) => Promise<Response> {
+  return async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      const supabaseAdmin = createAdminClient();
+      const { user, roles, authHeader } = await authenticate(req, supabaseAdmin);
+
+      if (options.roles && !hasAnyRole(roles, options.roles)) {
+        throw new HttpError('forbidden', `Forbidden: ${options.roles.join(' or ')} access required`);
+      }
+
+      const body = options.schema ? await parseBody(req, options.schema) : undefined;
+
+      const result = await options.handler({
+        req,
+        user,
+        roles,
+        body,
+        // Attribute writes to the caller in the audit log
+        supabaseAdmin: createAdminClient(user.id),
+        supabaseClient: createUserClient(authHeader),
+      });
+
+      return result instanceof Response ? result : jsonResponse(result);
+    } catch (error) {
+      return errorResponse(error);
+    }
+  };
+}
@@ -0,0 +1,60 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
+import type { MetricAggregation, MetricDirection } from './aggregation.ts';
+import type { MetricKind } from './derived.ts';
+
+export type { MetricAggregation, MetricDirection };
+
+export interface MetricDefinition {
+  key: string;
+  label: string;
+  unit: string;
+  direction: MetricDirection;
+  aggregation: MetricAggregation;
+  baseline_factor: number;
+  reference_min: number | null;
+  reference_max: number | null;
+  plausible_min: number | null;
+  plausible_max: number | null;
+  input_step: number;
+  is_active: boolean;
+  display_order: number;
+  // Derived and composite metrics are calculated, see derived.ts and composites.ts
+  kind: MetricKind;
+  source_metric: string | null;
+  formula: string | null;
+  formula_param: number | null;
+}
+
+/**
+ * Load the metric registry, ordered for display.
+ * Inactive metrics are skipped unless explicitly requested.
+ */
+export async function loadMetrics(
+  supabase: SupabaseClient,
+  { includeInactive = false }: { includeInactive?: boolean } = {}
+): Promise<MetricDefinition[]> {
+  let query = supabase
+    .from('metrics')
+    .select('*')
+    .order('display_order', { ascending: true });
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []) as MetricDefinition[];
+}
+
+export function isLowerBetter(metric: Pick<MetricDefinition, 'direction'> | undefined): boolean {
+  return metric?.direction === 'lower_is_better';
+}
+
+export function buildMetricMap(metrics: MetricDefinition[]): Map<string, MetricDefinition> {
+  return new Map(metrics.map(m => [m.key, m]));
+}
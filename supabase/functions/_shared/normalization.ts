@@ -0,0 +1,147 @@
+/**
+ * Normalization strategies that turn raw metric values into 0-100 scores (100 is always best).
+ * Shared by the edge functions (Deno) and the browser; keep this module free of runtime imports.
+ *
+ * - relative_to_best: 0 is the best daily result times the metric's baseline factor, 100 is that best
+ * - reference_range: fixed per-metric range (reference_min..reference_max); metrics without a
+ *   range fall back to relative_to_best
+ * - percentile: share of the team's current values that are strictly worse
+ * - t_score: 50 + 10 × z-score against the team's current values, sign flipped for lower-is-better
+ */
+import type { MetricDirection } from './aggregation.ts';
+
+export type NormalizationStrategy = 'relative_to_best' | 'reference_range' | 'percentile' | 't_score';
+
+export const NORMALIZATION_STRATEGIES: NormalizationStrategy[] = ['relative_to_best', 'reference_range', 'percentile', 't_score'];
+
+export interface NormalizationRule {
+  key: string;
+  direction: MetricDirection;
+  baseline_factor: number;
+  reference_min?: number | null;
+  reference_max?: number | null;
+}
+
+export interface NormalizationContext {
+  // Best daily result per metric
+  best: Map<string, number>;
+  // Current value of every player per metric, ascending
+  distribution: Map<string, number[]>;
+}
+
+interface MetricValue {
+  metric_type: string;
+  value: number;
+}
+
+const clampScore = (score: number) => Math.max(0, Math.min(100, score));
+
+/**
+ * Build the normalization context from the group's daily results and each player's current value.
+ * `currentValues` should hold one value per player per metric (see selectLatestEntries).
+ */
+export function buildNormalizationContext(
+  dailyResults: MetricValue[],
+  currentValues: MetricValue[],
+  rules: Pick<NormalizationRule, 'key' | 'direction'>[]
+): NormalizationContext {
+  const directions = new Map(rules.map(r => [r.key, r.direction]));
+  const best = new Map<string, number>();
+
+  dailyResults.forEach(item => {
+    const direction = directions.get(item.metric_type);
+    if (!direction) return;
+
+    const current = best.get(item.metric_type);
+    if (current === undefined) {
+      best.set(item.metric_type, item.value);
+    } else {
+      best.set(item.metric_type, direction === 'lower_is_better'
+        ? Math.min(current, item.value)
+        : Math.max(current, item.value));
+    }
+  });
+
+  const distribution = new Map<string, number[]>();
+  currentValues.forEach(item => {
+    if (!directions.has(item.metric_type)) return;
+    if (!distribution.has(item.metric_type)) {
+      distribution.set(item.metric_type, []);
+    }
+    distribution.get(item.metric_type)!.push(item.value);
+  });
+  distribution.forEach(values => values.sort((a, b) => a - b));
+
+  return { best, distribution };
+}
+
+function relativeToBest(value: number, rule: NormalizationRule, best: number | undefined): number | null {
+  if (best === undefined) return null;
+
+  const baseline = best * rule.baseline_factor;
+  const range = Math.abs(best - baseline);
+  if (range === 0) return 100;
+
+  const distanceFromBaseline = rule.direction === 'lower_is_better'
+    ? baseline - value
+    : value - baseline;
+  return clampScore((distanceFromBaseline / range) * 100);
+}
+
+function referenceRange(value: number, rule: NormalizationRule): number | null {
+  if (rule.reference_min == null || rule.reference_max == null || rule.reference_max <= rule.reference_min) {
+    return null;
+  }
+
+  const fraction = (value - rule.reference_min) / (rule.reference_max - rule.reference_min);
+  return clampScore((rule.direction === 'lower_is_better' ? 1 - fraction : fraction) * 100);
+}
+
+/**
+ * Percentage of the other values in the distribution that are strictly worse than `value`.
+ * The value itself is not counted when it is part of the distribution; a lone value scores 100.
+ */
+export function percentileRank(value: number, distribution: number[], direction: MetricDirection): number {
+  const others = distribution.length - (distribution.includes(value) ? 1 : 0);
+  if (others <= 0) return 100;
+
+  const worse = distribution.filter(v => direction === 'lower_is_better' ? v > value : v < value).length;
+  return (worse / others) * 100;
+}
+
+function tScore(value: number, distribution: number[], direction: MetricDirection): number | null {
+  if (distribution.length === 0) return null;
+
+  const mean = distribution.reduce((sum, v) => sum + v, 0) / distribution.length;
+  const variance = distribution.reduce((sum, v) => sum + (v - mean) ** 2, 0) / distribution.length;
+  const sd = Math.sqrt(variance);
+  if (sd === 0) return 50;
+
+  const z = (value - mean) / sd;
+  return clampScore(50 + 10 * (direction === 'lower_is_better' ? -z : z));
+}
+
+/**
+ * Score one value under the given strategy.
+ * Returns null when the context has no data for the metric.
+ */
+export function normalizeValue(
+  value: number,
+  rule: NormalizationRule,
+  context: NormalizationContext,
+  strategy: NormalizationStrategy
+): number | null {
+  const distribution = context.distribution.get(rule.key) || [];
+
+  switch (strategy) {
+    case 'reference_range':
+      return referenceRange(value, rule) ?? relativeToBest(value, rule, context.best.get(rule.key));
+    case 'percentile':
+      return distribution.length > 0 ? percentileRank(value, distribution, rule.direction) : null;
+    case 't_score':
+      return tScore(value, distribution, rule.direction);
+    case 'relative_to_best':
+    default:
+      return relativeToBest(value, rule, context.best.get(rule.key));
+  }
+}
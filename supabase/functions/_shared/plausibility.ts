@@ -0,0 +1,63 @@
+/**
+ * Plausibility checks for new results, mirrored by the flag_implausible_entry() trigger
+ * that flags suspicious entries for coach review. The browser runs the same checks to
+ * warn while a result is being entered.
+ * Shared by the edge functions (Deno) and the browser; only import other shared modules.
+ *
+ * - range: outside the metric's plausible_min..plausible_max (either end may be open)
+ * - history: more than MAX_DEVIATIONS population SDs from the mean of the player's
+ *   HISTORY_SIZE most recent approved, unflagged results, once there are at least MIN_HISTORY of them
+ */
+import { mean, standardDeviation } from './statistics.ts';
+
+export const HISTORY_SIZE = 10;
+export const MIN_HISTORY = 5;
+export const MAX_DEVIATIONS = 3;
+
+export interface PlausibilityRule {
+  unit: string;
+  plausible_min: number | null;
+  plausible_max: number | null;
+}
+
+export type PlausibilityIssue =
+  | { kind: 'range'; message: string }
+  | { kind: 'history'; message: string; deviations: number };
+
+export function checkPlausibleRange(value: number, rule: PlausibilityRule): PlausibilityIssue | null {
+  if (rule.plausible_min != null && value < rule.plausible_min) {
+    return { kind: 'range', message: `Below the plausible minimum of ${rule.plausible_min} ${rule.unit}` };
+  }
+  if (rule.plausible_max != null && value > rule.plausible_max) {
+    return { kind: 'range', message: `Above the plausible maximum of ${rule.plausible_max} ${rule.unit}` };
+  }
+  return null;
+}
+
+/**
+ * `history` is the player's earlier results for the metric, most recent first
+ */
+export function checkHistory(value: number, history: number[], unit: string): PlausibilityIssue | null {
+  const recent = history.slice(0, HISTORY_SIZE);
+  if (recent.length < MIN_HISTORY) return null;
+
+  const avg = mean(recent);
+  const sd = standardDeviation(recent);
+  if (sd === 0) return null;
+
+  const deviations = Math.abs(value - avg) / sd;
+  if (deviations <= MAX_DEVIATIONS) return null;
+
+  return {
+    kind: 'history',
+    deviations,
+    message: `${deviations.toFixed(1)} SD from the player's last ${recent.length} results (average ${Math.round(avg * 100) / 100} ${unit})`,
+  };
+}
+
+/**
+ * First issue found for a result, range before history, or null when it looks plausible
+ */
+export function checkPlausibility(value: number, rule: PlausibilityRule, history: number[]): PlausibilityIssue | null {
+  return checkPlausibleRange(value, rule) ?? checkHistory(value, history, rule.unit);
+}
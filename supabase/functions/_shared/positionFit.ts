@@ -0,0 +1,60 @@
+/**
+ * Position fit: how well a player's current results match what a position needs.
+ * Keep this module free of runtime imports.
+ *
+ * Each metric's latest value is ranked against the team (percentile, 100 is always best); a position's
+ * fit is the weighted mean of those percentiles over the metrics in its profile. Metrics the player has
+ * no result for are left out, and the share of the profile's weight that was covered is reported.
+ */
+
+// Fits based on less than this share of a profile's weight are not compared
+export const MIN_COVERAGE = 0.5;
+
+export interface PositionWeight {
+  position: string;
+  metric_key: string;
+  weight: number;
+}
+
+export interface PositionFit {
+  position: string;
+  score: number | null;
+  coverage: number;
+}
+
+/**
+ * Fit of one player for one position, from the player's percentile per metric
+ */
+export function scorePositionFit(
+  percentiles: Map<string, number>,
+  weights: PositionWeight[],
+  position: string
+): PositionFit {
+  const profile = weights.filter(w => w.position === position);
+  const totalWeight = profile.reduce((sum, w) => sum + w.weight, 0);
+
+  let weightedSum = 0;
+  let coveredWeight = 0;
+  profile.forEach(w => {
+    const percentile = percentiles.get(w.metric_key);
+    if (percentile === undefined) return;
+
+    weightedSum += percentile * w.weight;
+    coveredWeight += w.weight;
+  });
+
+  return {
+    position,
+    score: coveredWeight > 0 ? Math.round(weightedSum / coveredWeight) : null,
+    coverage: totalWeight > 0 ? coveredWeight / totalWeight : 0,
+  };
+}
+
+/**
+ * The position with the highest fit among those with enough coverage, if any
+ */
+export function bestFit(fits: PositionFit[]): PositionFit | null {
+  return fits
+    .filter(fit => fit.score !== null && fit.coverage >= MIN_COVERAGE)
+    .reduce<PositionFit | null>((best, fit) => (!best || fit.score! > best.score! ? fit : best), null);
+}
@@ -0,0 +1,69 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
+
+export interface PositionSpell {
+  player_id: string;
+  position: string;
+  is_primary: boolean;
+  started_on: string;
+  ended_on: string | null;
+}
+
+export const UNIT_POSITIONS: Record<'offense' | 'defense', string[]> = {
+  offense: ['QB', 'WR', 'C'],
+  defense: ['DB', 'B'],
+};
+
+// Position spells grouped by player
+export type PositionHistory = Map<string, PositionSpell[]>;
+
+/**
+ * Load every position spell, past and current, grouped by player.
+ */
+export async function loadPositionHistory(supabase: SupabaseClient): Promise<PositionHistory> {
+  const { data, error } = await supabase
+    .from('player_positions')
+    .select('player_id, position, is_primary, started_on, ended_on');
+
+  if (error) {
+    console.error('Error fetching player positions:', error);
+    throw error;
+  }
+
+  const history: PositionHistory = new Map();
+  ((data || []) as PositionSpell[]).forEach(spell => {
+    if (!history.has(spell.player_id)) {
+      history.set(spell.player_id, []);
+    }
+    history.get(spell.player_id)!.push(spell);
+  });
+  return history;
+}
+
+/**
+ * Positions a player held on a given day, primary first.
+ */
+export function positionsOnDate(history: PositionHistory, playerId: string, date: string): string[] {
+  return (history.get(playerId) || [])
+    .filter(spell => spell.started_on <= date && (spell.ended_on === null || spell.ended_on >= date))
+    .sort((a, b) => Number(b.is_primary) - Number(a.is_primary))
+    .map(spell => spell.position);
+}
+
+/**
+ * The player's current primary position, if any.
+ */
+export function currentPrimaryPosition(history: PositionHistory, playerId: string): string | null {
+  const spell = (history.get(playerId) || []).find(s => s.ended_on === null && s.is_primary);
+  return spell?.position ?? null;
+}
+
+/**
+ * Whether the player held any of the positions on the day of the entry.
+ */
+export function heldAnyOnDate(
+  history: PositionHistory,
+  entry: { player_id: string; entry_date: string },
+  positions: string[]
+): boolean {
+  return positionsOnDate(history, entry.player_id, entry.entry_date).some(p => positions.includes(p));
+}
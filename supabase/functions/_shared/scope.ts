@@ -0,0 +1,100 @@
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
+import { HttpError } from './errors.ts';
+
+/**
+ * Optional request fields shared by every aggregation function.
+ * Merge into a request schema with `.merge(scopeSchema)`.
+ */
+export const scopeSchema = z.object({
+  season_id: z.string().uuid({ message: 'season_id must be a valid id' }).optional(),
+  active_only: z.boolean().optional(),
+  // Leave out entries flagged as implausible that no coach has confirmed yet
+  exclude_flagged: z.boolean().optional(),
+});
+
+export type ScopeRequest = z.infer<typeof scopeSchema>;
+
+export interface ResolvedScope {
+  // null means every player is in scope
+  playerIds: Set<string> | null;
+  since?: string;
+  until?: string;
+  excludeFlagged?: boolean;
+}
+
+interface MembershipRow {
+  player_id: string;
+  joined_on: string;
+  left_on: string | null;
+  status: 'active' | 'inactive';
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+function overlaps(membership: MembershipRow, from: string, to: string): boolean {
+  return membership.joined_on <= to && (membership.left_on === null || membership.left_on >= from);
+}
+
+/**
+ * Turn a season / active-roster request into the players and date range to aggregate.
+ * - season_id: entries within the season's dates, from players on the roster at some point during it
+ * - active_only: players currently on the roster with an active status
+ * Both together intersect the two player sets.
+ * exclude_flagged is passed through for fetchEntries.
+ */
+export async function resolveScope(
+  supabase: SupabaseClient,
+  { season_id, active_only, exclude_flagged }: ScopeRequest
+): Promise<ResolvedScope> {
+  const excludeFlagged = exclude_flagged ?? false;
+
+  if (!season_id && !active_only) {
+    return { playerIds: null, excludeFlagged };
+  }
+
+  const { data: memberships, error } = await supabase
+    .from('roster_memberships')
+    .select('player_id, joined_on, left_on, status');
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = (memberships || []) as MembershipRow[];
+  let playerIds: Set<string> | null = null;
+  let since: string | undefined;
+  let until: string | undefined;
+
+  if (season_id) {
+    const { data: season, error: seasonError } = await supabase
+      .from('seasons')
+      .select('starts_on, ends_on')
+      .eq('id', season_id)
+      .maybeSingle();
+
+    if (seasonError) {
+      throw seasonError;
+    }
+
+    if (!season) {
+      throw new HttpError('not_found', 'Season not found');
+    }
+
+    since = season.starts_on;
+    until = season.ends_on;
+    playerIds = new Set(rows.filter(m => overlaps(m, season.starts_on, season.ends_on)).map(m => m.player_id));
+  }
+
+  if (active_only) {
+    const now = today();
+    const active = new Set(rows.filter(m => m.status === 'active' && overlaps(m, now, now)).map(m => m.player_id));
+    playerIds = playerIds ? new Set([...playerIds].filter(id => active.has(id))) : active;
+  }
+
+  return { playerIds, since, until, excludeFlagged };
+}
+
+export function isInScope(scope: ResolvedScope, playerId: string): boolean {
+  return scope.playerIds === null || scope.playerIds.has(playerId);
+}
@@ -0,0 +1,67 @@
+/**
+ * Descriptive statistics for cohort analytics.
+ * Shared by the edge functions (Deno) and the browser; keep this module free of imports.
+ *
+ * The standard deviation is the population SD (divide by n), matching the T-score normalization:
+ * a cohort is the whole group being described, not a sample of a larger one.
+ */
+
+export interface SummaryStatistics {
+  count: number;
+  mean: number;
+  median: number;
+  sd: number;
+  q1: number;
+  q3: number;
+  min: number;
+  max: number;
+}
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+export function standardDeviation(values: number[]): number {
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / values.length);
+}
+
+/**
+ * Quantile of ascending values with linear interpolation between closest ranks
+ * (the same as a spreadsheet's QUARTILE.INC / PERCENTILE.INC).
+ */
+export function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Summary of a set of values, or null when there are none.
+ */
+export function summarize(values: number[]): SummaryStatistics | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    mean: mean(sorted),
+    median: quantile(sorted, 0.5),
+    sd: standardDeviation(sorted),
+    q1: quantile(sorted, 0.25),
+    q3: quantile(sorted, 0.75),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * Standard score of a value within a cohort, oriented so that positive is always better.
+ * A cohort without spread scores 0.
+ */
+export function zScore(value: number, stats: Pick<SummaryStatistics, 'mean' | 'sd'>, lowerIsBetter: boolean): number {
+  if (stats.sd === 0) return 0;
+  const z = (value - stats.mean) / stats.sd;
+  return lowerIsBetter ? -z : z;
+}
@@ -0,0 +1,42 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
+
+/**
+ * Service role client. Bypasses RLS, so only use it after the caller has been authorized.
+ * `actorId` is recorded by the audit triggers as the user behind changes made through this client.
+ */
+export function createAdminClient(actorId?: string): SupabaseClient {
+  return createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+      ...(actorId && {
+        global: {
+          headers: { 'x-audit-actor': actorId },
+        },
+      }),
+    }
+  );
+}
+
+/**
+ * Client acting as the caller, so RLS applies to every query.
+ */
+export function createUserClient(authHeader: string): SupabaseClient {
+  return createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+      global: {
+        headers: { Authorization: authHeader },
+      },
+    }
+  );
+}
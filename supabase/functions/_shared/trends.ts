@@ -0,0 +1,139 @@
+/**
+ * Trend analysis of a player's daily results over time.
+ * Shared by the edge functions (Deno) and the browser; only import other shared modules.
+ *
+ * The trend is the least-squares line through the daily results against time; its slope, turned
+ * around for lower-is-better metrics, is the rate of improvement. Plateaus and regressions are judged
+ * on the recent window only: a change over the window smaller than the scatter of the results around
+ * the window's own line is a plateau.
+ */
+import type { MetricDirection } from './aggregation.ts';
+import { mean } from './statistics.ts';
+
+export const DAYS_PER_MONTH = 30.44;
+// A trend needs this many results spread over at least this many days
+export const MIN_TREND_POINTS = 3;
+export const MIN_TREND_SPAN_DAYS = 21;
+// Trailing window of the moving average
+export const MOVING_AVERAGE_DAYS = 28;
+// Window before the latest result that decides whether a player is improving, on a plateau or regressing
+export const RECENT_WINDOW_DAYS = 56;
+
+export type TrendStatus = 'improving' | 'plateau' | 'regressing' | 'insufficient_data';
+
+export const TREND_STATUS_LABELS: Record<TrendStatus, string> = {
+  improving: 'Improving',
+  plateau: 'Plateau',
+  regressing: 'Regressing',
+  insufficient_data: 'Not enough data',
+};
+
+export interface TrendPoint {
+  date: string;
+  value: number;
+}
+
+export interface LinearTrend {
+  // First date of the fitted results; the intercept is the line's value there
+  origin: string;
+  intercept: number;
+  // Units per day
+  slope: number;
+  // Population SD of the results around the line
+  residual_sd: number;
+}
+
+export interface TrendAnalysis {
+  // The line from the first to the last result; empty without a trend
+  trend_line: TrendPoint[];
+  moving_average: TrendPoint[];
+  // Units per month as the values change, and oriented so that positive is always better
+  slope_per_month: number | null;
+  improvement_per_month: number | null;
+  status: TrendStatus;
+}
+
+const MS_PER_DAY = 86_400_000;
+
+const daysBetween = (from: string, to: string) => (Date.parse(to) - Date.parse(from)) / MS_PER_DAY;
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const oriented = (change: number, direction: MetricDirection) => (direction === 'lower_is_better' ? -change : change);
+
+const hasTrendData = (points: TrendPoint[]) =>
+  points.length >= MIN_TREND_POINTS && daysBetween(points[0].date, points[points.length - 1].date) >= MIN_TREND_SPAN_DAYS;
+
+/**
+ * Least-squares line through results in date order, or null when they all fall on one day
+ */
+export function fitLinearTrend(points: TrendPoint[]): LinearTrend | null {
+  if (points.length < 2) return null;
+
+  const origin = points[0].date;
+  const xs = points.map(p => daysBetween(origin, p.date));
+  const ys = points.map(p => p.value);
+  const xMean = mean(xs);
+  const yMean = mean(ys);
+  const sxx = xs.reduce((sum, x) => sum + (x - xMean) ** 2, 0);
+  if (sxx === 0) return null;
+
+  const slope = xs.reduce((sum, x, i) => sum + (x - xMean) * (ys[i] - yMean), 0) / sxx;
+  const intercept = yMean - slope * xMean;
+  const residualSd = Math.sqrt(xs.reduce((sum, x, i) => sum + (ys[i] - (intercept + slope * x)) ** 2, 0) / xs.length);
+
+  return { origin, intercept, slope, residual_sd: residualSd };
+}
+
+export function trendValueAt(trend: LinearTrend, date: string): number {
+  return trend.intercept + trend.slope * daysBetween(trend.origin, date);
+}
+
+/**
+ * Mean of the results in the trailing window ending at each result, in date order
+ */
+export function movingAverage(points: TrendPoint[], windowDays = MOVING_AVERAGE_DAYS): TrendPoint[] {
+  return points.map(point => ({
+    date: point.date,
+    value: round(mean(points
+      .filter(p => p.date <= point.date && daysBetween(p.date, point.date) < windowDays)
+      .map(p => p.value)), 2),
+  }));
+}
+
+/**
+ * Whether the results in the recent window improve, regress or stay within their own scatter
+ */
+export function classifyTrend(points: TrendPoint[], direction: MetricDirection): TrendStatus {
+  if (points.length === 0) return 'insufficient_data';
+
+  const last = points[points.length - 1].date;
+  const recent = points.filter(p => daysBetween(p.date, last) <= RECENT_WINDOW_DAYS);
+  const trend = hasTrendData(recent) ? fitLinearTrend(recent) : null;
+  if (!trend) return 'insufficient_data';
+
+  const change = oriented(trend.slope * daysBetween(recent[0].date, last), direction);
+  if (Math.abs(change) <= trend.residual_sd) return 'plateau';
+  return change > 0 ? 'improving' : 'regressing';
+}
+
+/**
+ * Trend line, moving average, rate of improvement and status of one player's daily results
+ * for one metric (one result per day)
+ */
+export function analyzeTrend(results: TrendPoint[], direction: MetricDirection): TrendAnalysis {
+  const points = [...results].sort((a, b) => a.date.localeCompare(b.date));
+  const trend = hasTrendData(points) ? fitLinearTrend(points) : null;
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  return {
+    trend_line: trend
+      ? [first, last].map(p => ({ date: p.date, value: round(trendValueAt(trend, p.date), 2) }))
+      : [],
+    moving_average: movingAverage(points),
+    slope_per_month: trend ? round(trend.slope * DAYS_PER_MONTH, 3) : null,
+    improvement_per_month: trend ? round(oriented(trend.slope, direction) * DAYS_PER_MONTH, 3) : null,
+    status: classifyTrend(points, direction),
+  };
+}
@@ -0,0 +1,85 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { HttpError } from './errors.ts';
+import type { AppRole } from './handler.ts';
+
+export const usernameSchema = z.string()
+  .min(3, 'Username must be at least 3 characters')
+  .max(255, 'Username must be less than 255 characters')
+  .regex(/^[a-z]+\.[a-z]+$/, 'Username must follow firstname.lastname format (lowercase)');
+
+export const firstNameSchema = z.string()
+  .min(1, 'First name is required')
+  .max(100, 'First name must be less than 100 characters');
+
+export const lastNameSchema = z.string()
+  .min(1, 'Last name is required')
+  .max(100, 'Last name must be less than 100 characters');
+
+export const rolesSchema = z.array(z.enum(['admin', 'coach', 'player']))
+  .min(1, 'At least one role is required');
+
+export interface NewAccount {
+  username: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  roles: AppRole[];
+  // Primary position, only recorded for players
+  position?: string;
+}
+
+const PASSWORD_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789';
+
+/**
+ * Random initial password without look-alike characters (0/O, 1/l/I), so it can be read off a printed sheet.
+ */
+export function generatePassword(length = 12): string {
+  const bytes = crypto.getRandomValues(new Uint32Array(length));
+  return Array.from(bytes, b => PASSWORD_ALPHABET[b % PASSWORD_ALPHABET.length]).join('');
+}
+
+/**
+ * Create an auth user with roles and, optionally, a primary position.
+ * The user is deleted again when a later step fails, so a failed call leaves nothing behind.
+ */
+export async function createAccount(supabaseAdmin: SupabaseClient, account: NewAccount): Promise<string> {
+  // Create user with admin API (appending @team.local for email validation)
+  const { data: newUser, error: createError } = await supabaseAdmin.auth.admin.createUser({
+    email: `${account.username.trim()}@team.local`,
+    password: account.password,
+    email_confirm: true,
+    user_metadata: {
+      first_name: account.firstName,
+      last_name: account.lastName,
+    },
+  });
+
+  if (createError || !newUser.user) {
+    throw new HttpError('bad_request', createError?.message || 'Failed to create user');
+  }
+
+  const userId = newUser.user.id;
+
+  const { error: roleError } = await supabaseAdmin
+    .from('user_roles')
+    .insert(account.roles.map(role => ({ user_id: userId, role })));
+
+  if (roleError) {
+    await supabaseAdmin.auth.admin.deleteUser(userId);
+    throw new HttpError('bad_request', roleError.message);
+  }
+
+  if (account.position) {
+    const { error: positionError } = await supabaseAdmin
+      .from('player_positions')
+      .insert({ player_id: userId, position: account.position, is_primary: true });
+
+    if (positionError) {
+      await supabaseAdmin.auth.admin.deleteUser(userId);
+      throw new HttpError('bad_request', positionError.message);
+    }
+  }
+
+  return userId;
+}
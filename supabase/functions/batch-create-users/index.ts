@@ -0,0 +1,99 @@
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { createAuthenticatedHandler } from '../_shared/handler.ts';
+import { createAccount, firstNameSchema, generatePassword, lastNameSchema, rolesSchema, usernameSchema } from '../_shared/users.ts';
+
+const MAX_USERS = 100;
+
+// Rows are validated one by one so a bad row is reported instead of failing the whole roster
+const requestSchema = z.object({
+  users: z.array(z.unknown())
+    .min(1, 'At least one user is required')
+    .max(MAX_USERS, `At most ${MAX_USERS} users can be created at once`),
+});
+
+const userRowSchema = z.object({
+  username: usernameSchema,
+  firstName: firstNameSchema,
+  lastName: lastNameSchema,
+  roles: rolesSchema,
+  position: z.enum(['QB', 'WR', 'C', 'DB', 'B']).optional(),
+});
+
+interface UserResult {
+  row: number;
+  username: string | null;
+  success: boolean;
+  user_id?: string;
+  // Initial password, only returned once so the admin can hand it out
+  password?: string;
+  error?: string;
+}
+
+Deno.serve(createAuthenticatedHandler({
+  roles: ['admin'],
+  schema: requestSchema,
+  handler: async ({ body, user, supabaseAdmin }): Promise<{ results: UserResult[] }> => {
+    console.log('Admin', user.id, 'creating', body.users.length, 'users');
+
+    const { data: profiles, error: profilesError } = await supabaseAdmin
+      .from('profiles')
+      .select('username');
+
+    if (profilesError) {
+      throw profilesError;
+    }
+
+    const takenUsernames = new Set((profiles || []).map(p => p.username));
+    const results: UserResult[] = [];
+
+    // Sequential on purpose: the auth admin API is rate limited
+    for (const [index, raw] of body.users.entries()) {
+      const row = index + 1;
+      const validation = userRowSchema.safeParse(raw);
+
+      if (!validation.success) {
+        const username = (raw as { username?: unknown })?.username;
+        results.push({
+          row,
+          username: typeof username === 'string' ? username : null,
+          success: false,
+          error: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+        });
+        continue;
+      }
+
+      const { username, firstName, lastName, roles, position } = validation.data;
+
+      if (takenUsernames.has(username)) {
+        results.push({ row, username, success: false, error: 'Username already exists' });
+        continue;
+      }
+
+      const password = generatePassword();
+
+      try {
+        const userId = await createAccount(supabaseAdmin, {
+          username,
+          password,
+          firstName,
+          lastName,
+          roles,
+          position: roles.includes('player') ? position : undefined,
+        });
+
+        takenUsernames.add(username);
+        results.push({ row, username, success: true, user_id: userId, password });
+      } catch (error) {
+        console.error('Failed to create user', username, error);
+        results.push({
+          row,
+          username,
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to create user',
+        });
+      }
+    }
+
+    return { results };
+  },
+}));
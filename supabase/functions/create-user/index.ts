@@ -1,158 +1,32 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
-import { corsHeaders } from '../_shared/cors.ts'
+import { createAuthenticatedHandler } from '../_shared/handler.ts'
+import { createAccount, firstNameSchema, lastNameSchema, rolesSchema, usernameSchema } from '../_shared/users.ts'
 
 // Validation schema
 const createUserSchema = z.object({
-  username: z.string()
-    .min(3, 'Username must be at least 3 characters')
-    .max(255, 'Username must be less than 255 characters')
-    .regex(/^[a-z]+\.[a-z]+$/, 'Username must follow firstname.lastname format (lowercase)'),
+  username: usernameSchema,
   password: z.string()
     .min(8, 'Password must be at least 8 characters')
     .max(255, 'Password must be less than 255 characters'),
-  firstName: z.string()
-    .min(1, 'First name is required')
-    .max(100, 'First name must be less than 100 characters'),
-  lastName: z.string()
-    .min(1, 'Last name is required')
-    .max(100, 'Last name must be less than 100 characters'),
-  roles: z.array(z.enum(['admin', 'coach', 'player']))
-    .min(1, 'At least one role is required')
+  firstName: firstNameSchema,
+  lastName: lastNameSchema,
+  roles: rolesSchema
 })
 
-type CreateUserRequest = z.infer<typeof createUserSchema>
+Deno.serve(createAuthenticatedHandler({
+  roles: ['admin'],
+  schema: createUserSchema,
+  handler: async ({ body, supabaseAdmin }) => {
+    const { username, password, firstName, lastName, roles: userRoles } = body
 
-Deno.serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
-  }
-
-  try {
-    // Verify user is authenticated
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: 'No authorization header' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    // Create Supabase client with service role for admin operations
-    const supabaseAdmin = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
-      {
-        auth: {
-          autoRefreshToken: false,
-          persistSession: false
-        }
-      }
-    )
-
-    // Create regular client to verify caller's permissions
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      {
-        auth: {
-          autoRefreshToken: false,
-          persistSession: false
-        },
-        global: {
-          headers: { Authorization: authHeader }
-        }
-      }
-    )
-
-    // Verify the caller is an admin
-    const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
-    if (userError || !user) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    // Check if user has admin role
-    const { data: roles } = await supabaseClient
-      .from('user_roles')
-      .select('role')
-      .eq('user_id', user.id)
-      .eq('role', 'admin')
-      .single()
-
-    if (!roles) {
-      return new Response(
-        JSON.stringify({ error: 'Only admins can create users' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    // Parse and validate request body
-    const body = await req.json()
-    const validationResult = createUserSchema.safeParse(body)
-    
-    if (!validationResult.success) {
-      return new Response(
-        JSON.stringify({ 
-          error: 'Validation failed', 
-          details: validationResult.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
-        }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    const { username, password, firstName, lastName, roles: userRoles } = validationResult.data
-
-    // Create user with admin API (appending @team.local for email validation)
-    const { data: newUser, error: createError } = await supabaseAdmin.auth.admin.createUser({
-      email: `${username.trim()}@team.local`,
+    const userId = await createAccount(supabaseAdmin, {
+      username,
       password,
-      email_confirm: true,
-      user_metadata: {
-        first_name: firstName,
-        last_name: lastName
-      }
+      firstName,
+      lastName,
+      roles: userRoles
     })
 
-    if (createError || !newUser.user) {
-      return new Response(
-        JSON.stringify({ error: createError?.message || 'Failed to create user' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    // Insert roles using service role client
-    const roleInserts = userRoles.map(role => ({
-      user_id: newUser.user.id,
-      role: role
-    }))
-
-    const { error: roleError } = await supabaseAdmin
-      .from('user_roles')
-      .insert(roleInserts)
-
-    if (roleError) {
-      // Clean up: delete the user if role insertion fails
-      await supabaseAdmin.auth.admin.deleteUser(newUser.user.id)
-      return new Response(
-        JSON.stringify({ error: roleError.message }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    return new Response(
-      JSON.stringify({ success: true, userId: newUser.user.id }),
-      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
-
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
-  }
-})
+    return { success: true, userId }
+  },
+}))
@@ -1,95 +1,20 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { createAuthenticatedHandler } from '../_shared/handler.ts';
 
 // Validation schema
 const deleteUserSchema = z.object({
   userId: z.string().uuid('Invalid user ID format')
 });
 
-type DeleteUserRequest = z.infer<typeof deleteUserSchema>;
-
-Deno.serve(async (req) => {
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: 'Missing authorization header' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
-
-    // Create admin client with service role
-    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
-      auth: {
-        persistSession: false,
-      }
-    });
-
-    // Create regular client to verify caller's permissions
-    const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
-      global: {
-        headers: { Authorization: authHeader },
-      },
-      auth: {
-        persistSession: false,
-      }
-    });
-
-    // Verify the caller is authenticated
-    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
-    if (authError || !user) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Verify the caller is an admin
-    const { data: roles, error: rolesError } = await supabaseClient
-      .from('user_roles')
-      .select('role')
-      .eq('user_id', user.id);
-
-    if (rolesError || !roles || !roles.some((r: any) => r.role === 'admin')) {
-      return new Response(
-        JSON.stringify({ error: 'Forbidden: Admin access required' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Parse and validate request body
-    const body = await req.json();
-    const validationResult = deleteUserSchema.safeParse(body);
-
-    if (!validationResult.success) {
-      return new Response(
-        JSON.stringify({ 
-          error: 'Validation failed', 
-          details: validationResult.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
-        }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const { userId } = validationResult.data;
+Deno.serve(createAuthenticatedHandler({
+  roles: ['admin'],
+  schema: deleteUserSchema,
+  handler: async ({ body, supabaseAdmin }) => {
+    const { userId } = body;
 
     // Perform atomic deletion using service role (bypasses RLS)
     // Delete in order: performance_entries, player_positions, user_roles, profiles, auth.users
-    
+
     const { error: perfError } = await supabaseAdmin
       .from('performance_entries')
       .delete()
@@ -133,22 +58,6 @@ Deno.serve(async (req) => {
       throw new Error(`Failed to delete auth user: ${authDeleteError.message}`);
     }
 
-    return new Response(
-      JSON.stringify({ success: true, message: 'User deleted successfully' }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
-
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
-  }
-});
+    return { success: true, message: 'User deleted successfully' };
+  },
+}));
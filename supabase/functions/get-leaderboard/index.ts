@@ -0,0 +1,150 @@
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { createAuthenticatedHandler, hasAnyRole } from '../_shared/handler.ts';
+import { HttpError } from '../_shared/errors.ts';
+import { loadMetrics } from '../_shared/metrics.ts';
+import { fetchEntries, type PerformanceEntryRow } from '../_shared/entries.ts';
+import { compareEntries, selectPersonalBests, type MetricRule } from '../_shared/aggregation.ts';
+import { resolveScope, scopeSchema } from '../_shared/scope.ts';
+import { heldAnyOnDate, loadPositionHistory, UNIT_POSITIONS } from '../_shared/positions.ts';
+
+// How far back results count, in months; 'all' has no limit
+const WINDOW_MONTHS: Record<string, number | null> = {
+  all: null,
+  '12m': 12,
+  '6m': 6,
+  '1m': 1,
+};
+
+const requestSchema = z.object({
+  metric_type: z.string().min(1, { message: 'metric_type is required' }),
+  // A single position or a whole unit
+  group: z.enum(['all', 'offense', 'defense', 'QB', 'WR', 'C', 'DB', 'B']).default('all'),
+  window: z.enum(['all', '12m', '6m', '1m']).default('all'),
+}).merge(scopeSchema);
+
+interface LeaderboardRow {
+  rank: number;
+  // Rank before the most recent testing session; null when the player had no result then
+  previous_rank: number | null;
+  player_id: string;
+  player_name: string;
+  value: number;
+  entry_date: string;
+}
+
+interface LeaderboardResponse {
+  metric_type: string;
+  names_visible: boolean;
+  total: number;
+  compared_to: { name: string; session_date: string } | null;
+  rankings: LeaderboardRow[];
+}
+
+/**
+ * Each player's best daily result, best first. Equal values share a rank (1, 2, 2, 4).
+ */
+function rankPlayers(entries: PerformanceEntryRow[], metric: MetricRule): { entry: PerformanceEntryRow; rank: number }[] {
+  const sorted = selectPersonalBests(entries, [metric]).sort(compareEntries(metric.direction));
+
+  return sorted.map(entry => ({
+    entry,
+    rank: sorted.findIndex(other => other.value === entry.value) + 1,
+  }));
+}
+
+Deno.serve(createAuthenticatedHandler({
+  schema: requestSchema,
+  // Service role client bypasses RLS: rankings need the whole team
+  handler: async ({ body, user, roles, supabaseAdmin: supabase }): Promise<LeaderboardResponse> => {
+    const { metric_type, group, window } = body;
+
+    const metric = (await loadMetrics(supabase, { includeInactive: true })).find(m => m.key === metric_type);
+    if (!metric) {
+      throw new HttpError('not_found', 'Metric not found');
+    }
+
+    const { data: settings, error: settingsError } = await supabase
+      .from('team_settings')
+      .select('leaderboard_show_names')
+      .maybeSingle();
+
+    if (settingsError) {
+      throw settingsError;
+    }
+
+    const isStaff = hasAnyRole(roles, ['coach', 'admin']);
+    const namesVisible = isStaff || (settings?.leaderboard_show_names ?? true);
+
+    const months = WINDOW_MONTHS[window];
+    let since: string | undefined;
+    if (months !== null) {
+      const start = new Date();
+      start.setMonth(start.getMonth() - months);
+      since = start.toISOString().split('T')[0];
+    }
+
+    const scope = await resolveScope(supabase, body);
+    let entries = (await fetchEntries(supabase, { since, scope }))
+      .filter(entry => entry.metric_type === metric_type);
+
+    // Results count towards the positions the player held on the day they were recorded
+    if (group !== 'all') {
+      const positionHistory = await loadPositionHistory(supabase);
+      const positions = group === 'offense' || group === 'defense' ? UNIT_POSITIONS[group] : [group];
+      entries = entries.filter(entry => heldAnyOnDate(positionHistory, entry, positions));
+    }
+
+    // Rank changes are measured against the standings before the latest testing session
+    const today = new Date().toISOString().split('T')[0];
+    const { data: lastSession, error: sessionError } = await supabase
+      .from('test_sessions')
+      .select('name, session_date')
+      .lte('session_date', today)
+      .order('session_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (sessionError) {
+      throw sessionError;
+    }
+
+    const current = rankPlayers(entries, metric);
+    const previousRanks = new Map(
+      lastSession
+        ? rankPlayers(entries.filter(e => e.entry_date < lastSession.session_date), metric)
+            .map(({ entry, rank }) => [entry.player_id, rank])
+        : []
+    );
+
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('id, first_name, last_name')
+      .in('id', current.map(({ entry }) => entry.player_id));
+
+    if (profilesError) {
+      throw profilesError;
+    }
+
+    const profileMap = new Map(profiles?.map(p => [p.id, `${p.first_name} ${p.last_name}`]) || []);
+
+    const rankings: LeaderboardRow[] = current
+      // With names hidden, players only get their own row
+      .filter(({ entry }) => namesVisible || entry.player_id === user.id)
+      .map(({ entry, rank }) => ({
+        rank,
+        previous_rank: previousRanks.get(entry.player_id) ?? null,
+        player_id: entry.player_id,
+        player_name: profileMap.get(entry.player_id) ?? 'Unknown',
+        value: entry.value,
+        entry_date: entry.entry_date,
+      }));
+
+    return {
+      metric_type,
+      names_visible: namesVisible,
+      total: current.length,
+      compared_to: lastSession ?? null,
+      rankings,
+    };
+  },
+}));
@@ -0,0 +1,180 @@
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { createAuthenticatedHandler, hasAnyRole } from '../_shared/handler.ts';
+import { HttpError } from '../_shared/errors.ts';
+import { loadMetrics, isLowerBetter } from '../_shared/metrics.ts';
+import { fetchEntries, type PerformanceEntryRow } from '../_shared/entries.ts';
+import { selectLatestEntries } from '../_shared/aggregation.ts';
+import { isInScope, resolveScope, scopeSchema } from '../_shared/scope.ts';
+import { heldAnyOnDate, loadPositionHistory, UNIT_POSITIONS } from '../_shared/positions.ts';
+import { percentileRank } from '../_shared/normalization.ts';
+import { summarize, zScore, type SummaryStatistics } from '../_shared/statistics.ts';
+
+const POSITIONS = ['QB', 'WR', 'C', 'DB', 'B'];
+
+const requestSchema = z.object({
+  cohorts: z.array(z.enum(['team', 'unit', 'position', 'season'])).min(1).default(['team']),
+  metric_types: z.array(z.string()).optional(),
+  // Only this player's rows are returned; players may only request themselves
+  player_id: z.string().uuid({ message: 'player_id must be a valid id' }).optional(),
+}).merge(scopeSchema);
+
+type CohortKind = 'team' | 'unit' | 'position' | 'season';
+
+interface PlayerAnalytics {
+  player_id: string;
+  player_name: string | null;
+  value: number;
+  entry_date: string;
+  percentile: number;
+  z_score: number;
+}
+
+interface CohortAnalytics {
+  cohort: CohortKind;
+  key: string;
+  label: string;
+  stats: SummaryStatistics;
+  players: PlayerAnalytics[];
+}
+
+interface MetricAnalytics {
+  metric_type: string;
+  label: string;
+  unit: string;
+  direction: string;
+  cohorts: CohortAnalytics[];
+}
+
+interface CohortEntries {
+  cohort: CohortKind;
+  key: string;
+  label: string;
+  entries: PerformanceEntryRow[];
+}
+
+Deno.serve(createAuthenticatedHandler({
+  schema: requestSchema,
+  // Service role client bypasses RLS: cohort statistics need the whole team
+  handler: async ({ body, user, roles, supabaseAdmin: supabase }): Promise<{ metrics: MetricAnalytics[] }> => {
+    const { cohorts, metric_types, active_only } = body;
+
+    const isStaff = hasAnyRole(roles, ['coach', 'admin']);
+    const playerId = body.player_id ?? (isStaff ? undefined : user.id);
+    if (!isStaff && playerId !== user.id) {
+      throw new HttpError('forbidden', 'Players can only request their own analytics');
+    }
+
+    const metrics = (await loadMetrics(supabase))
+      .filter(metric => !metric_types || metric_types.includes(metric.key));
+    const scope = await resolveScope(supabase, body);
+    const entries = await fetchEntries(supabase, { scope });
+
+    // Each cohort is a subset of the scoped entries; players are described by their latest value within it
+    const cohortEntries: CohortEntries[] = [];
+
+    if (cohorts.includes('team')) {
+      cohortEntries.push({ cohort: 'team', key: 'team', label: 'Team', entries });
+    }
+
+    if (cohorts.includes('unit') || cohorts.includes('position')) {
+      // Entries count towards the positions the player held on the entry date
+      const positionHistory = await loadPositionHistory(supabase);
+
+      if (cohorts.includes('unit')) {
+        (['offense', 'defense'] as const).forEach(unit => {
+          cohortEntries.push({
+            cohort: 'unit',
+            key: unit,
+            label: unit === 'offense' ? 'Offense' : 'Defense',
+            entries: entries.filter(e => heldAnyOnDate(positionHistory, e, UNIT_POSITIONS[unit])),
+          });
+        });
+      }
+
+      if (cohorts.includes('position')) {
+        POSITIONS.forEach(position => {
+          cohortEntries.push({
+            cohort: 'position',
+            key: position,
+            label: position,
+            entries: entries.filter(e => heldAnyOnDate(positionHistory, e, [position])),
+          });
+        });
+      }
+    }
+
+    if (cohorts.includes('season')) {
+      const { data: seasons, error: seasonsError } = await supabase
+        .from('seasons')
+        .select('id, name')
+        .order('starts_on', { ascending: true });
+
+      if (seasonsError) {
+        throw seasonsError;
+      }
+
+      for (const season of seasons || []) {
+        const seasonScope = await resolveScope(supabase, { season_id: season.id, active_only });
+        cohortEntries.push({
+          cohort: 'season',
+          key: season.id,
+          label: season.name,
+          entries: entries.filter(e =>
+            isInScope(seasonScope, e.player_id) &&
+            e.entry_date >= seasonScope.since! &&
+            e.entry_date <= seasonScope.until!
+          ),
+        });
+      }
+    }
+
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('id, first_name, last_name');
+
+    if (profilesError) {
+      throw profilesError;
+    }
+
+    const profileMap = new Map(profiles?.map(p => [p.id, `${p.first_name} ${p.last_name}`]) || []);
+
+    const latestByCohort = cohortEntries.map(c => ({ ...c, latest: selectLatestEntries(c.entries, metrics) }));
+
+    const result = metrics.map(metric => {
+      const lowerIsBetter = isLowerBetter(metric);
+
+      const metricCohorts = latestByCohort
+        .map(({ cohort, key, label, latest }): CohortAnalytics | null => {
+          const metricEntries = latest.filter(e => e.metric_type === metric.key);
+          const values = metricEntries.map(e => e.value);
+          const stats = summarize(values);
+          if (!stats) return null;
+
+          const players = metricEntries
+            .filter(e => !playerId || e.player_id === playerId)
+            .map(e => ({
+              player_id: e.player_id,
+              player_name: profileMap.get(e.player_id) ?? null,
+              value: e.value,
+              entry_date: e.entry_date,
+              percentile: Math.round(percentileRank(e.value, values, metric.direction)),
+              z_score: Math.round(zScore(e.value, stats, lowerIsBetter) * 100) / 100,
+            }))
+            .sort((a, b) => b.z_score - a.z_score);
+
+          return { cohort, key, label, stats, players };
+        })
+        .filter((c): c is CohortAnalytics => c !== null);
+
+      return {
+        metric_type: metric.key,
+        label: metric.label,
+        unit: metric.unit,
+        direction: metric.direction,
+        cohorts: metricCohorts,
+      };
+    });
+
+    return { metrics: result };
+  },
+}));
@@ -0,0 +1,64 @@
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { createAuthenticatedHandler } from '../_shared/handler.ts';
+import { loadMetrics } from '../_shared/metrics.ts';
+import { fetchEntries } from '../_shared/entries.ts';
+import { resolveScope, scopeSchema } from '../_shared/scope.ts';
+import { currentPrimaryPosition, heldAnyOnDate, loadPositionHistory } from '../_shared/positions.ts';
+import { buildMonthlyBands, type BandPeriod } from '../_shared/bands.ts';
+
+const requestSchema = z.object({
+  metric_types: z.array(z.string()).min(1, { message: 'metric_types is required' }),
+  // Position band cohort; defaults to the current primary position of player_id
+  position: z.enum(['QB', 'WR', 'C', 'DB', 'B']).optional(),
+  player_id: z.string().uuid({ message: 'player_id must be a valid id' }).optional(),
+  since: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'since must be a YYYY-MM-DD date' }).optional(),
+}).merge(scopeSchema);
+
+interface MetricBands {
+  metric_type: string;
+  periods: BandPeriod[];
+}
+
+interface BandsResponse {
+  // Position the position bands describe; null when there is none
+  position: string | null;
+  metrics: MetricBands[];
+}
+
+Deno.serve(createAuthenticatedHandler({
+  schema: requestSchema,
+  // Service role client bypasses RLS: bands describe the whole team, without naming anyone
+  handler: async ({ body, supabaseAdmin: supabase }): Promise<BandsResponse> => {
+    const { metric_types, player_id, since } = body;
+
+    const metrics = (await loadMetrics(supabase, { includeInactive: true }))
+      .filter(metric => metric_types.includes(metric.key));
+    const scope = await resolveScope(supabase, body);
+    const entries = await fetchEntries(supabase, { since, scope });
+
+    const positionHistory = await loadPositionHistory(supabase);
+    const primary = player_id ? currentPrimaryPosition(positionHistory, player_id) : null;
+    const position = body.position ?? (primary !== 'unassigned' ? primary : null);
+    // Results count towards the position the player held on the day they were recorded
+    const positionEntries = position
+      ? entries.filter(entry => heldAnyOnDate(positionHistory, entry, [position]))
+      : [];
+
+    return {
+      position,
+      metrics: metrics.map(metric => {
+        const team = buildMonthlyBands(entries, metric);
+        const byPosition = buildMonthlyBands(positionEntries, metric);
+
+        return {
+          metric_type: metric.key,
+          periods: [...team.keys()].sort().map(period => ({
+            period,
+            team: team.get(period) ?? null,
+            position: byPosition.get(period) ?? null,
+          })),
+        };
+      }),
+    };
+  },
+}));
@@ -1,224 +1,82 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { createAuthenticatedHandler } from '../_shared/handler.ts';
+import { loadMetrics } from '../_shared/metrics.ts';
+import { fetchEntries } from '../_shared/entries.ts';
+import { resolveScope, scopeSchema } from '../_shared/scope.ts';
+import { currentPrimaryPosition, heldAnyOnDate, loadPositionHistory, UNIT_POSITIONS } from '../_shared/positions.ts';
+import { selectBestDailyEntries, selectBestEntries, selectLatestEntries } from '../_shared/aggregation.ts';
+import { buildNormalizationContext, normalizeValue } from '../_shared/normalization.ts';
 
 const requestSchema = z.object({
   mode: z.enum(['best', 'position', 'offense', 'defense', 'compare']),
   position: z.enum(['QB', 'WR', 'C', 'DB', 'B', 'unassigned']).optional(),
   currentPlayerId: z.string().optional(),
-});
-
-Deno.serve(async (req) => {
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    // Authenticate the user
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: 'Missing authorization header' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-
-    // Verify the user is authenticated
-    const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
-      global: { headers: { Authorization: authHeader } },
-    });
-
-    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
-    
-    if (authError || !user) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Validate input parameters
-    const body = await req.json();
-    const validation = requestSchema.safeParse(body);
-    
-    if (!validation.success) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid parameters', details: validation.error.issues }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const { mode, position, currentPlayerId } = validation.data;
-    
-    // Use service role client to bypass RLS for aggregation
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    const allMetrics = [
-      'vertical_jump',
-      'jump_gather',
-      '30yd_dash',
-      '3_cone_drill',
-      'shuttle_5_10_5',
-      'pushups_1min'
-    ];
-
-    const lowerIsBetter = ['30yd_dash', '3_cone_drill', 'shuttle_5_10_5'];
-
-    // Fetch all performance data for normalization context
-    // Get best daily entries (only one entry per player per metric per day)
-    // Use direct query with service role to bypass RLS for benchmark calculations
-    const { data: rawData, error: allDataError } = await supabase
-      .from('performance_entries')
-      .select('*')
-      .order('entry_date', { ascending: false });
-
-    if (allDataError) {
-      throw allDataError;
-    }
-
-    // Manually filter to get best entry per player per metric per day
-    const bestEntriesMap = new Map<string, any>();
-    
-    rawData?.forEach(entry => {
-      const key = `${entry.player_id}-${entry.metric_type}-${entry.entry_date}`;
-      const existing = bestEntriesMap.get(key);
-      
-      if (!existing) {
-        bestEntriesMap.set(key, entry);
-      } else {
-        // For time metrics, lower is better; for others, higher is better
-        const isLowerBetter = lowerIsBetter.includes(entry.metric_type);
-        const shouldReplace = isLowerBetter 
-          ? entry.value < existing.value 
-          : entry.value > existing.value;
-        
-        if (shouldReplace) {
-          bestEntriesMap.set(key, entry);
-        }
-      }
-    });
-
-    const allData = Array.from(bestEntriesMap.values());
-
-    const result: Array<{ metric_type: string; value: number }> = [];
-
-    // Determine which players to include based on mode
-    let playerIds: string[] = [];
+  // When set, benchmark values are also returned as 0-100 scores under this strategy
+  normalization: z.enum(['relative_to_best', 'reference_range', 'percentile', 't_score']).optional(),
+}).merge(scopeSchema);
+
+Deno.serve(createAuthenticatedHandler({
+  schema: requestSchema,
+  // Service role client bypasses RLS for aggregation
+  handler: async ({ body, supabaseAdmin: supabase }) => {
+    const { mode, position, currentPlayerId, normalization } = body;
+
+    const allMetrics = await loadMetrics(supabase);
+    const scope = await resolveScope(supabase, body);
+
+    // Best entry per player per metric per day is the normalization context
+    const allData = selectBestDailyEntries(await fetchEntries(supabase, { scope }), allMetrics);
+
+    // Position spells decide which entries count: an entry belongs to the
+    // positions the player held on the day it was recorded
+    const positionHistory = await loadPositionHistory(supabase);
+    let positions: string[] | null = null;
     let playerPosition: string | null = null;
 
-    // If no position is provided but we have currentPlayerId, fetch their position
+    // If no position is provided but we have currentPlayerId, use their current primary position
     if (mode === 'position' && !position && currentPlayerId) {
-      const { data: posData } = await supabase
-        .from('player_positions')
-        .select('position')
-        .eq('player_id', currentPlayerId)
-        .maybeSingle();
-      
-      if (posData) {
-        playerPosition = posData.position;
-      }
+      playerPosition = currentPrimaryPosition(positionHistory, currentPlayerId);
     } else if (mode === 'position' && position) {
       playerPosition = position;
     }
 
     if (mode === 'position' && playerPosition) {
-      // Get players with this position
-      const { data: positionPlayers, error: posError } = await supabase
-        .from('player_positions')
-        .select('player_id')
-        .eq('position', playerPosition);
-
-      if (posError) {
-        throw posError;
-      }
-
-      playerIds = positionPlayers?.map(p => p.player_id) || [];
-      console.log(`Position mode: ${playerPosition}, found ${playerIds.length} players`);
+      positions = [playerPosition];
     } else if (mode === 'offense' || mode === 'defense') {
-      // Get players in this unit
-      const offensePositions = ['QB', 'WR', 'C'];
-      const defensePositions = ['DB', 'B'];
-      const positions = mode === 'offense' ? offensePositions : defensePositions;
-
-      const { data: unitPlayers, error: unitError } = await supabase
-        .from('player_positions')
-        .select('player_id')
-        .in('position', positions);
-
-      if (unitError) {
-        throw unitError;
-      }
-
-      playerIds = unitPlayers?.map(p => p.player_id) || [];
-      console.log(`${mode} mode: found ${playerIds.length} players`);
+      positions = UNIT_POSITIONS[mode];
     }
-    // For 'best' mode, we don't filter by player (include all)
+    // For 'best' mode, we don't filter by position (include all)
 
     // Filter allData based on mode to ensure normalization uses correct context
     let filteredAllData = allData;
-    if (playerIds.length > 0) {
-      filteredAllData = allData.filter((entry: any) => playerIds.includes(entry.player_id));
-      console.log(`Filtered allData from ${allData.length} to ${filteredAllData.length} entries for ${playerIds.length} players`);
+    if (positions) {
+      filteredAllData = allData.filter(entry => heldAnyOnDate(positionHistory, entry, positions!));
+      console.log(`Filtered allData from ${allData.length} to ${filteredAllData.length} entries for positions ${positions.join(', ')}`);
     }
 
-    // Calculate best for each metric using the already-processed allData
-    for (const metric of allMetrics) {
-      const isLowerBetter = lowerIsBetter.includes(metric);
-
-      // Filter allData (which is already best-daily) by metric and player IDs
-      let filteredEntries = filteredAllData.filter((e: any) => e.metric_type === metric);
-
-      console.log(`Metric: ${metric}, Mode: ${mode}, Filtered entries count:`, filteredEntries.length);
-
-      if (filteredEntries && filteredEntries.length > 0) {
-        // Get unique players with their latest value
-        const playerLatest = new Map<string, number>();
-        filteredEntries.forEach((entry: any) => {
-          if (!playerLatest.has(entry.player_id)) {
-            playerLatest.set(entry.player_id, entry.value);
-          }
-        });
-
-        // Find the best among latest values
-        const values = Array.from(playerLatest.values());
-        const bestValue = isLowerBetter 
-          ? Math.min(...values)
-          : Math.max(...values);
-        
-        console.log(`Metric: ${metric}, Best value:`, bestValue, 'from', values.length, 'players');
-        
-        result.push({ metric_type: metric, value: bestValue });
-      }
+    // Benchmark is the best among each player's latest value
+    const latestEntries = selectLatestEntries(filteredAllData, allMetrics);
+    const bestByMetric = new Map(
+      selectBestEntries(latestEntries, allMetrics).map(entry => [entry.metric_type, entry.value])
+    );
+    const result = allMetrics
+      .filter(metric => bestByMetric.has(metric.key))
+      .map(metric => ({ metric_type: metric.key, value: bestByMetric.get(metric.key)! }));
+
+    // Scores use the same context as the radar chart: the filtered daily results and each player's latest value
+    let scores: { metric_type: string; value: number; score: number | null }[] | undefined;
+    if (normalization) {
+      const context = buildNormalizationContext(filteredAllData, latestEntries, allMetrics);
+      scores = result.map(benchmark => ({
+        ...benchmark,
+        score: normalizeValue(benchmark.value, allMetrics.find(m => m.key === benchmark.metric_type)!, context, normalization),
+      }));
     }
 
     console.log('Final benchmark results:', result);
     console.log('Mode:', mode, 'Player position:', playerPosition);
-    console.log('Number of filtered players:', playerIds.length);
     console.log('Filtered allData entries:', filteredAllData.length, 'vs original:', allData.length);
 
-    return new Response(
-      JSON.stringify({ benchmarks: result, allData: filteredAllData, playerPosition }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
-  }
-});
+    return { benchmarks: result, allData: filteredAllData, playerPosition, scores };
+  },
+}));
@@ -0,0 +1,124 @@
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { createAuthenticatedHandler, hasAnyRole } from '../_shared/handler.ts';
+import { HttpError } from '../_shared/errors.ts';
+import { loadMetrics } from '../_shared/metrics.ts';
+import { fetchEntries } from '../_shared/entries.ts';
+import { selectBestDailyEntries } from '../_shared/aggregation.ts';
+import { resolveScope, scopeSchema } from '../_shared/scope.ts';
+import { analyzeTrend, type TrendAnalysis, type TrendPoint } from '../_shared/trends.ts';
+
+const requestSchema = z.object({
+  metric_types: z.array(z.string()).min(1, { message: 'metric_types is required' }),
+  // Players whose full trend is returned; players may only request themselves
+  player_ids: z.array(z.string().uuid({ message: 'player_ids must be valid ids' })).max(10).optional(),
+  // Start of the analysed period; the whole history when omitted
+  since: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'since must be a YYYY-MM-DD date' }).optional(),
+  most_improved_limit: z.number().int().min(0).max(50).default(5),
+}).merge(scopeSchema);
+
+interface PlayerTrend extends TrendAnalysis {
+  player_id: string;
+}
+
+interface ImprovementRow {
+  rank: number;
+  player_id: string;
+  player_name: string;
+  improvement_per_month: number;
+  slope_per_month: number;
+}
+
+interface MetricTrends {
+  metric_type: string;
+  players: PlayerTrend[];
+  // Players who improved in the period, fastest first
+  most_improved: ImprovementRow[];
+}
+
+interface TrendsResponse {
+  names_visible: boolean;
+  metrics: MetricTrends[];
+}
+
+Deno.serve(createAuthenticatedHandler({
+  schema: requestSchema,
+  // Service role client bypasses RLS: the most improved list ranks the whole team
+  handler: async ({ body, user, roles, supabaseAdmin: supabase }): Promise<TrendsResponse> => {
+    const { metric_types, since, most_improved_limit } = body;
+
+    const isStaff = hasAnyRole(roles, ['coach', 'admin']);
+    const playerIds = body.player_ids ?? (isStaff ? [] : [user.id]);
+    if (!isStaff && playerIds.some(id => id !== user.id)) {
+      throw new HttpError('forbidden', 'Players can only request their own trends');
+    }
+
+    const { data: settings, error: settingsError } = await supabase
+      .from('team_settings')
+      .select('leaderboard_show_names')
+      .maybeSingle();
+
+    if (settingsError) {
+      throw settingsError;
+    }
+
+    // The most improved list follows the leaderboard's name setting
+    const namesVisible = isStaff || (settings?.leaderboard_show_names ?? true);
+
+    const metrics = (await loadMetrics(supabase, { includeInactive: true }))
+      .filter(metric => metric_types.includes(metric.key));
+    const scope = await resolveScope(supabase, body);
+    const daily = selectBestDailyEntries(await fetchEntries(supabase, { since, scope }), metrics);
+
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('id, first_name, last_name');
+
+    if (profilesError) {
+      throw profilesError;
+    }
+
+    const profileMap = new Map(profiles?.map(p => [p.id, `${p.first_name} ${p.last_name}`]) || []);
+
+    return {
+      names_visible: namesVisible,
+      metrics: metrics.map(metric => {
+        const resultsByPlayer = new Map<string, TrendPoint[]>();
+        daily
+          .filter(entry => entry.metric_type === metric.key)
+          .forEach(entry => {
+            if (!resultsByPlayer.has(entry.player_id)) {
+              resultsByPlayer.set(entry.player_id, []);
+            }
+            resultsByPlayer.get(entry.player_id)!.push({ date: entry.entry_date, value: entry.value });
+          });
+
+        const trends = new Map(
+          [...resultsByPlayer.entries()].map(([playerId, points]) => [playerId, analyzeTrend(points, metric.direction)])
+        );
+
+        const mostImproved = [...trends.entries()]
+          .filter(([, trend]) => trend.improvement_per_month !== null && trend.improvement_per_month > 0)
+          .sort(([, a], [, b]) => b.improvement_per_month! - a.improvement_per_month!)
+          .map(([playerId, trend], index) => ({
+            rank: index + 1,
+            player_id: playerId,
+            player_name: profileMap.get(playerId) ?? 'Unknown',
+            improvement_per_month: trend.improvement_per_month!,
+            slope_per_month: trend.slope_per_month!,
+          }))
+          .slice(0, most_improved_limit)
+          // With names hidden, players only get their own row
+          .filter(row => namesVisible || row.player_id === user.id);
+
+        return {
+          metric_type: metric.key,
+          players: playerIds.map(playerId => ({
+            player_id: playerId,
+            ...(trends.get(playerId) ?? analyzeTrend([], metric.direction)),
+          })),
+          most_improved: mostImproved,
+        };
+      }),
+    };
+  },
+}));
@@ -1,9 +1,14 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { createAuthenticatedHandler } from '../_shared/handler.ts';
+import { loadMetrics, isLowerBetter } from '../_shared/metrics.ts';
+import { fetchEntries } from '../_shared/entries.ts';
+import { selectLatestEntries } from '../_shared/aggregation.ts';
+import { resolveScope, scopeSchema } from '../_shared/scope.ts';
+import { percentileRank } from '../_shared/normalization.ts';
+
+const requestSchema = z.object({
+  player_id: z.string().uuid({ message: 'player_id is required' }),
+}).merge(scopeSchema);
 
 interface MetricNeighborhood {
   metric_type: string;
@@ -15,55 +20,24 @@ interface MetricNeighborhood {
   percentile: number | null;
 }
 
-Deno.serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      throw new Error('No authorization header');
-    }
-
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
-    
-    if (userError || !user) {
-      throw new Error('Unauthorized');
-    }
+Deno.serve(createAuthenticatedHandler({
+  schema: requestSchema,
+  handler: async ({ body, supabaseAdmin: supabase }): Promise<MetricNeighborhood[]> => {
+    const { player_id } = body;
 
-    const { player_id } = await req.json();
-
-    if (!player_id) {
-      throw new Error('player_id is required');
-    }
+    // The requested player is always compared, even when outside the scope's roster
+    const scope = await resolveScope(supabase, body);
+    scope.playerIds?.add(player_id);
 
     // Get all performance entries directly (service role bypasses RLS)
-    const { data: allEntries, error: entriesError } = await supabase
-      .from('performance_entries')
-      .select('*');
-
-    if (entriesError) {
-      throw entriesError;
-    }
+    const allEntries = await fetchEntries(supabase, { scope });
 
     // Check if the player has any entries at all
-    const playerHasEntries = allEntries?.some((entry: any) => entry.player_id === player_id);
+    const playerHasEntries = allEntries.some(entry => entry.player_id === player_id);
     
     if (!playerHasEntries) {
       // Return empty array if player has no recorded entries
-      return new Response(
-        JSON.stringify([]),
-        {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200,
-        }
-      );
+      return [];
     }
 
     // Get all profiles for names
@@ -75,60 +49,27 @@ Deno.serve(async (req) => {
       throw profilesError;
     }
 
-  const profileMap = new Map(profiles?.map(p => [p.id, `${p.first_name} ${p.last_name}`]) || []);
+    const profileMap = new Map(profiles?.map(p => [p.id, `${p.first_name} ${p.last_name}`]) || []);
 
-  const timeBasedMetrics = ['shuttle_5_10_5', '30yd_dash', '3_cone_drill'];
+    const metrics = await loadMetrics(supabase);
 
-  const metricNames: Record<string, string> = {
-    'shuttle_5_10_5': '5-10-5 Shuttle',
-    'vertical_jump': 'Vertical Jump',
-    'jump_gather': 'Jump w. Gather Step',
-    'pushups_1min': 'Push-Ups (1 Min AMRAP)',
-    '30yd_dash': '30-Yard Dash',
-    '3_cone_drill': '3-Cone Drill',
-  };
-
-  // Get latest entry per player per metric (best value per day)
-  const latestEntries = new Map<string, any>();
-  allEntries?.forEach((entry: any) => {
-    const key = `${entry.player_id}-${entry.metric_type}`;
-    const existing = latestEntries.get(key);
-    
-    if (!existing) {
-      latestEntries.set(key, entry);
-    } else {
-      // Keep the entry with the most recent date
-      const existingDate = new Date(existing.entry_date);
-      const currentDate = new Date(entry.entry_date);
-      
-      if (currentDate > existingDate) {
-        latestEntries.set(key, entry);
-      } else if (currentDate.getTime() === existingDate.getTime()) {
-        // Same date - keep the better value
-        const isTimeBased = timeBasedMetrics.includes(entry.metric_type);
-        const isBetter = isTimeBased 
-          ? entry.value < existing.value  // Lower is better for time
-          : entry.value > existing.value; // Higher is better for distance/reps
-        
-        if (isBetter) {
-          latestEntries.set(key, entry);
-        }
-      }
-    }
-  });
+    // Current value per player per metric
+    const latestEntries = selectLatestEntries(allEntries, metrics);
 
     const results: MetricNeighborhood[] = [];
 
     // Process each metric type
-    for (const [metricKey, metricName] of Object.entries(metricNames)) {
-      const isTimeBased = timeBasedMetrics.includes(metricKey);
+    for (const metric of metrics) {
+      const metricKey = metric.key;
+      const metricName = metric.label;
+      const isTimeBased = isLowerBetter(metric);
       
       // Get all player values for this metric
-      const metricEntries = Array.from(latestEntries.values())
+      const metricEntries = latestEntries
         .filter(e => e.metric_type === metricKey)
         .map(e => ({
           player_id: e.player_id,
-          value: Number(e.value),
+          value: e.value,
           unit: e.unit,
         }));
 
@@ -138,7 +79,7 @@ Deno.serve(async (req) => {
         results.push({
           metric_type: metricKey,
           metric_name: metricName,
-          unit: metricEntries[0]?.unit || '',
+          unit: metric.unit,
           current_value: null,
           next_best_player: null,
           next_best_value: null,
@@ -175,18 +116,10 @@ Deno.serve(async (req) => {
         }
       }
 
-      // Calculate percentile (percentage of players with strictly worse performance)
-      const totalPlayers = sortedEntries.length;
-      const playersStrictlyWorseCount = sortedEntries.filter(e => {
-        if (e.player_id === player_id) return false;
-        return isTimeBased 
-          ? e.value > currentValue  // Higher time = worse
-          : e.value < currentValue; // Lower distance/reps = worse
-      }).length;
-      
-      const percentile = totalPlayers > 1 
-        ? Math.round((playersStrictlyWorseCount / (totalPlayers - 1)) * 100)
-        : 100;
+      // Percentile of teammates with strictly worse performance, same rule as the percentile normalization
+      const percentile = Math.round(
+        percentileRank(currentValue, metricEntries.map(e => e.value), metric.direction)
+      );
 
       results.push({
         metric_type: metricKey,
@@ -199,21 +132,6 @@ Deno.serve(async (req) => {
       });
     }
 
-    return new Response(
-      JSON.stringify(results),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      }
-    );
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
-      }
-    );
-  }
-});
\ No newline at end of file
+    return results;
+  },
+}));
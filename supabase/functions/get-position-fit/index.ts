@@ -0,0 +1,92 @@
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { createAuthenticatedHandler, hasAnyRole } from '../_shared/handler.ts';
+import { HttpError } from '../_shared/errors.ts';
+import { loadMetrics } from '../_shared/metrics.ts';
+import { fetchEntries } from '../_shared/entries.ts';
+import { selectLatestEntries } from '../_shared/aggregation.ts';
+import { resolveScope, scopeSchema } from '../_shared/scope.ts';
+import { currentPrimaryPosition, loadPositionHistory } from '../_shared/positions.ts';
+import { percentileRank } from '../_shared/normalization.ts';
+import { bestFit, scorePositionFit, type PositionFit, type PositionWeight } from '../_shared/positionFit.ts';
+
+const POSITIONS = ['QB', 'WR', 'C', 'DB', 'B'];
+
+const requestSchema = z.object({
+  // Only this player's row is returned; players may only request themselves
+  player_id: z.string().uuid({ message: 'player_id must be a valid id' }).optional(),
+}).merge(scopeSchema);
+
+interface PlayerFit {
+  player_id: string;
+  player_name: string | null;
+  current_position: string | null;
+  fits: PositionFit[];
+  // Highest fit with enough coverage; null when no profile is covered well enough
+  best_position: string | null;
+}
+
+Deno.serve(createAuthenticatedHandler({
+  schema: requestSchema,
+  // Service role client bypasses RLS: percentiles rank every player against the team
+  handler: async ({ body, user, roles, supabaseAdmin: supabase }): Promise<{ players: PlayerFit[] }> => {
+    const isStaff = hasAnyRole(roles, ['coach', 'admin']);
+    const playerId = body.player_id ?? (isStaff ? undefined : user.id);
+    if (!isStaff && playerId !== user.id) {
+      throw new HttpError('forbidden', 'Players can only request their own position fit');
+    }
+
+    const { data: weightRows, error: weightsError } = await supabase
+      .from('position_metric_weights')
+      .select('position, metric_key, weight');
+
+    if (weightsError) {
+      throw weightsError;
+    }
+
+    const weights: PositionWeight[] = (weightRows || []).map(w => ({ ...w, weight: Number(w.weight) }));
+    const metrics = await loadMetrics(supabase);
+    const scope = await resolveScope(supabase, body);
+    const latest = selectLatestEntries(await fetchEntries(supabase, { scope }), metrics);
+
+    // Every player's percentile per metric against the team's current values
+    const percentiles = new Map<string, Map<string, number>>();
+    metrics.forEach(metric => {
+      const metricEntries = latest.filter(e => e.metric_type === metric.key);
+      const values = metricEntries.map(e => e.value);
+      metricEntries.forEach(e => {
+        if (!percentiles.has(e.player_id)) {
+          percentiles.set(e.player_id, new Map());
+        }
+        percentiles.get(e.player_id)!.set(metric.key, percentileRank(e.value, values, metric.direction));
+      });
+    });
+
+    const [positionHistory, { data: profiles, error: profilesError }] = await Promise.all([
+      loadPositionHistory(supabase),
+      supabase.from('profiles').select('id, first_name, last_name'),
+    ]);
+
+    if (profilesError) {
+      throw profilesError;
+    }
+
+    const profileMap = new Map(profiles?.map(p => [p.id, `${p.first_name} ${p.last_name}`]) || []);
+
+    const players = [...percentiles.entries()]
+      .filter(([id]) => !playerId || id === playerId)
+      .map(([id, playerPercentiles]): PlayerFit => {
+        const fits = POSITIONS.map(position => scorePositionFit(playerPercentiles, weights, position));
+        const primary = currentPrimaryPosition(positionHistory, id);
+        return {
+          player_id: id,
+          player_name: profileMap.get(id) ?? null,
+          current_position: primary !== 'unassigned' ? primary : null,
+          fits,
+          best_position: bestFit(fits)?.position ?? null,
+        };
+      })
+      .sort((a, b) => (a.player_name ?? '').localeCompare(b.player_name ?? ''));
+
+    return { players };
+  },
+}));
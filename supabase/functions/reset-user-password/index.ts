@@ -1,10 +1,5 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { createAuthenticatedHandler } from '../_shared/handler.ts';
 
 const requestSchema = z.object({
   userId: z.string().uuid({ message: "Invalid user ID format" }),
@@ -13,81 +8,12 @@ const requestSchema = z.object({
     .max(128, { message: "Password must be less than 128 characters" }),
 });
 
-Deno.serve(async (req) => {
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    console.log('Reset password request received');
-
-    // Authenticate the requesting user
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      console.error('Missing authorization header');
-      return new Response(
-        JSON.stringify({ error: 'Missing authorization header' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-
-    // Verify the requesting user is authenticated
-    const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
-      global: { headers: { Authorization: authHeader } },
-    });
-
-    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
-    
-    if (authError || !user) {
-      console.error('Authentication failed:', authError);
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    console.log('User authenticated:', user.id);
-
-    // Check if the requesting user is an admin
-    const { data: roleData, error: roleError } = await supabaseClient
-      .from('user_roles')
-      .select('role')
-      .eq('user_id', user.id)
-      .eq('role', 'admin')
-      .maybeSingle();
-
-    if (roleError || !roleData) {
-      console.error('User is not an admin:', roleError);
-      return new Response(
-        JSON.stringify({ error: 'Forbidden: Admin access required' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    console.log('Admin access confirmed');
-
-    // Parse and validate request body
-    const body = await req.json();
-    const validation = requestSchema.safeParse(body);
-    
-    if (!validation.success) {
-      console.error('Validation failed:', validation.error.issues);
-      return new Response(
-        JSON.stringify({ error: 'Invalid request data', details: validation.error.issues }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const { userId, newPassword } = validation.data;
-    console.log('Resetting password for user:', userId);
-
-    // Use service role client to update the user's password
-    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+Deno.serve(createAuthenticatedHandler({
+  roles: ['admin'],
+  schema: requestSchema,
+  handler: async ({ body, user, supabaseAdmin }) => {
+    const { userId, newPassword } = body;
+    console.log('Admin', user.id, 'resetting password for user:', userId);
 
     const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(
       userId,
@@ -101,21 +27,21 @@ Deno.serve(async (req) => {
 
     console.log('Password reset successful for user:', userId);
 
-    return new Response(
-      JSON.stringify({ message: 'Password reset successfully' }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
-  } catch (error) {
-    console.error('Error in reset-user-password function:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
-  }
-});
+    // Passwords live in auth.users, outside the audited tables, so the reset is logged here
+    const { error: auditError } = await supabaseAdmin
+      .from('audit_log')
+      .insert({
+        table_name: 'users',
+        operation: 'PASSWORD_RESET',
+        row_id: userId,
+        actor_id: user.id,
+        target_user_id: userId,
+      });
+
+    if (auditError) {
+      console.error('Failed to record password reset in audit log:', auditError);
+    }
+
+    return { message: 'Password reset successfully' };
+  },
+}));
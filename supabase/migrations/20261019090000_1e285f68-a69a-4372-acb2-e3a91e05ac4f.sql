@@ -0,0 +1,128 @@
+-- Replace the hard-coded metric_type enum with a data-driven metrics registry
+CREATE TYPE public.metric_direction AS ENUM ('higher_is_better', 'lower_is_better');
+
+CREATE TABLE public.metrics (
+  key TEXT PRIMARY KEY CHECK (key ~ '^[a-z0-9_]+$'),
+  label TEXT NOT NULL,
+  unit TEXT NOT NULL,
+  direction metric_direction NOT NULL DEFAULT 'higher_is_better',
+  -- Normalization: a score of 0 corresponds to best * baseline_factor
+  baseline_factor NUMERIC NOT NULL,
+  input_step NUMERIC NOT NULL DEFAULT 1 CHECK (input_step > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  display_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT metrics_baseline_factor_check CHECK (
+    (direction = 'lower_is_better' AND baseline_factor > 1) OR
+    (direction = 'higher_is_better' AND baseline_factor > 0 AND baseline_factor < 1)
+  )
+);
+
+COMMENT ON TABLE public.metrics IS 'Registry of all performance drills. Inactive metrics keep their history but are hidden from entry forms.';
+
+INSERT INTO public.metrics (key, label, unit, direction, baseline_factor, input_step, display_order) VALUES
+  ('vertical_jump', 'Vertical Jump', 'cm', 'higher_is_better', 0.5, 1, 10),
+  ('jump_gather', 'Jump w. Gather Step', 'cm', 'higher_is_better', 0.5, 1, 20),
+  ('30yd_dash', '30-Yard Dash', 's', 'lower_is_better', 1.4, 0.01, 30),
+  ('3_cone_drill', '3-Cone Drill', 's', 'lower_is_better', 1.4, 0.01, 40),
+  ('shuttle_5_10_5', '5-10-5 Shuttle', 's', 'lower_is_better', 1.4, 0.01, 50),
+  ('pushups_1min', 'Push-Ups (1 Min AMRAP)', 'reps', 'higher_is_better', 0.2, 1, 60);
+
+ALTER TABLE public.metrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view metrics"
+  ON public.metrics
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Coaches and admins can insert metrics"
+  ON public.metrics
+  FOR INSERT
+  WITH CHECK (
+    public.has_role(auth.uid(), 'coach'::app_role) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+-- No delete policy: metrics with history are deactivated instead
+CREATE POLICY "Coaches and admins can update metrics"
+  ON public.metrics
+  FOR UPDATE
+  USING (
+    public.has_role(auth.uid(), 'coach'::app_role) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+-- The function signature depends on the enum, so drop it before converting the column
+DROP FUNCTION IF EXISTS public.get_best_daily_entries();
+
+-- Any leftover legacy 40yd_dash entries were renamed to 30yd_dash
+UPDATE public.performance_entries
+SET metric_type = '30yd_dash'
+WHERE metric_type = '40yd_dash';
+
+ALTER TABLE public.performance_entries
+  ALTER COLUMN metric_type TYPE TEXT USING metric_type::text;
+
+ALTER TABLE public.performance_entries
+  ADD CONSTRAINT performance_entries_metric_type_fkey
+  FOREIGN KEY (metric_type) REFERENCES public.metrics(key) ON UPDATE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_performance_entries_metric_type ON public.performance_entries(metric_type);
+
+DROP TYPE public.metric_type;
+
+-- Recreate get_best_daily_entries using the direction stored in the registry
+CREATE OR REPLACE FUNCTION public.get_best_daily_entries()
+RETURNS TABLE(
+  id uuid,
+  player_id uuid,
+  metric_type text,
+  value numeric,
+  unit text,
+  entry_date date,
+  created_at timestamp with time zone,
+  created_by uuid
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH ranked_entries AS (
+    SELECT
+      pe.*,
+      ROW_NUMBER() OVER (
+        PARTITION BY pe.player_id, pe.metric_type, pe.entry_date
+        ORDER BY
+          CASE
+            WHEN m.direction = 'lower_is_better' THEN pe.value
+            ELSE -pe.value  -- Higher is better (negate for ascending order)
+          END ASC
+      ) as rn
+    FROM performance_entries pe
+    JOIN metrics m ON m.key = pe.metric_type
+    -- Respect RLS: Players only see their own data, coaches/admins see all
+    WHERE (
+      pe.player_id = auth.uid()
+      OR has_role(auth.uid(), 'admin'::app_role)
+      OR has_role(auth.uid(), 'coach'::app_role)
+    )
+  )
+  SELECT
+    re.id,
+    re.player_id,
+    re.metric_type,
+    re.value,
+    re.unit,
+    re.entry_date,
+    re.created_at,
+    re.created_by
+  FROM ranked_entries re
+  WHERE re.rn = 1
+  ORDER BY re.entry_date DESC, re.player_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_best_daily_entries() TO authenticated;
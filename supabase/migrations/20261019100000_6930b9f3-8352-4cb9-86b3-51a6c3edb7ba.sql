@@ -0,0 +1,85 @@
+-- Canonical aggregation views. These mirror supabase/functions/_shared/aggregation.ts:
+-- keep the ranking (direction, then created_at, then id) identical in both places.
+
+-- Best entry per player, metric and day
+CREATE VIEW public.best_daily_entries
+WITH (security_invoker = true) AS
+SELECT
+  ranked.id,
+  ranked.player_id,
+  ranked.metric_type,
+  ranked.value,
+  ranked.unit,
+  ranked.entry_date,
+  ranked.created_at,
+  ranked.created_by
+FROM (
+  SELECT
+    pe.*,
+    ROW_NUMBER() OVER (
+      PARTITION BY pe.player_id, pe.metric_type, pe.entry_date
+      ORDER BY
+        CASE WHEN m.direction = 'lower_is_better' THEN pe.value ELSE -pe.value END ASC,
+        pe.created_at ASC NULLS FIRST,
+        pe.id ASC
+    ) AS rn
+  FROM public.performance_entries pe
+  JOIN public.metrics m ON m.key = pe.metric_type
+) ranked
+WHERE ranked.rn = 1;
+
+-- Current value per player and metric: the best entry of the most recent day
+CREATE VIEW public.latest_player_metrics
+WITH (security_invoker = true) AS
+SELECT DISTINCT ON (bde.player_id, bde.metric_type)
+  bde.id,
+  bde.player_id,
+  bde.metric_type,
+  bde.value,
+  bde.unit,
+  bde.entry_date,
+  bde.created_at,
+  bde.created_by
+FROM public.best_daily_entries bde
+ORDER BY bde.player_id, bde.metric_type, bde.entry_date DESC;
+
+GRANT SELECT ON public.best_daily_entries TO authenticated;
+GRANT SELECT ON public.latest_player_metrics TO authenticated;
+
+-- The RPC now reads from the view so it cannot drift from it
+CREATE OR REPLACE FUNCTION public.get_best_daily_entries()
+RETURNS TABLE(
+  id uuid,
+  player_id uuid,
+  metric_type text,
+  value numeric,
+  unit text,
+  entry_date date,
+  created_at timestamp with time zone,
+  created_by uuid
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    bde.id,
+    bde.player_id,
+    bde.metric_type,
+    bde.value,
+    bde.unit,
+    bde.entry_date,
+    bde.created_at,
+    bde.created_by
+  FROM best_daily_entries bde
+  -- Respect RLS: Players only see their own data, coaches/admins see all
+  WHERE (
+    bde.player_id = auth.uid()
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'coach'::app_role)
+  )
+  ORDER BY bde.entry_date DESC, bde.player_id;
+END;
+$$;
@@ -0,0 +1,81 @@
+-- Testing sessions group the results of a combine day or testing event
+CREATE TYPE public.test_surface AS ENUM ('indoor', 'turf', 'grass', 'track', 'other');
+CREATE TYPE public.timing_method AS ENUM ('hand', 'electronic', 'video');
+
+CREATE TABLE public.test_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  session_date DATE NOT NULL,
+  location TEXT,
+  surface test_surface,
+  timing_method timing_method,
+  conditions TEXT,
+  conducted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_test_sessions_session_date ON public.test_sessions(session_date DESC);
+
+ALTER TABLE public.test_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view test sessions"
+  ON public.test_sessions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Coaches and admins can manage test sessions"
+  ON public.test_sessions
+  FOR ALL
+  USING (
+    public.has_role(auth.uid(), 'coach'::app_role) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+-- Entries optionally belong to a session; deleting a session keeps its results
+ALTER TABLE public.performance_entries
+  ADD COLUMN session_id UUID REFERENCES public.test_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_performance_entries_session_id ON public.performance_entries(session_id);
+
+-- Entries recorded in a session always carry the session's date
+CREATE OR REPLACE FUNCTION public.sync_entry_session_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.session_id IS NOT NULL THEN
+    SELECT ts.session_date INTO NEW.entry_date
+    FROM test_sessions ts
+    WHERE ts.id = NEW.session_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER performance_entries_sync_session_date
+  BEFORE INSERT OR UPDATE OF session_id, entry_date ON public.performance_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_entry_session_date();
+
+-- Moving a session moves its results with it
+CREATE OR REPLACE FUNCTION public.propagate_session_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  UPDATE performance_entries
+  SET entry_date = NEW.session_date
+  WHERE session_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER test_sessions_propagate_date
+  AFTER UPDATE OF session_date ON public.test_sessions
+  FOR EACH ROW
+  WHEN (OLD.session_date IS DISTINCT FROM NEW.session_date)
+  EXECUTE FUNCTION public.propagate_session_date();
@@ -0,0 +1,162 @@
+-- Multiple attempts per drill: explicit attempt numbers and a per-metric aggregation rule
+CREATE TYPE public.metric_aggregation AS ENUM ('best', 'mean_best_two', 'last');
+
+ALTER TABLE public.metrics
+  ADD COLUMN aggregation metric_aggregation NOT NULL DEFAULT 'best';
+
+ALTER TABLE public.performance_entries
+  ADD COLUMN attempt_number SMALLINT;
+
+-- Existing same-day rows become numbered attempts in the order they were recorded
+UPDATE public.performance_entries pe
+SET attempt_number = numbered.attempt_number
+FROM (
+  SELECT
+    id,
+    ROW_NUMBER() OVER (
+      PARTITION BY player_id, metric_type, entry_date
+      ORDER BY created_at ASC NULLS FIRST, id ASC
+    ) AS attempt_number
+  FROM public.performance_entries
+) numbered
+WHERE numbered.id = pe.id;
+
+ALTER TABLE public.performance_entries
+  ALTER COLUMN attempt_number SET NOT NULL,
+  ADD CONSTRAINT performance_entries_attempt_number_check CHECK (attempt_number BETWEEN 1 AND 20);
+
+CREATE UNIQUE INDEX idx_performance_entries_attempt
+  ON public.performance_entries(player_id, metric_type, entry_date, attempt_number);
+
+-- Entries inserted without an attempt number become the next attempt of that day.
+-- Rows of a multi-row insert are numbered in statement order.
+CREATE OR REPLACE FUNCTION public.assign_attempt_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.attempt_number IS NULL THEN
+    SELECT COALESCE(MAX(pe.attempt_number), 0) + 1 INTO NEW.attempt_number
+    FROM performance_entries pe
+    WHERE pe.player_id = NEW.player_id
+      AND pe.metric_type = NEW.metric_type
+      AND pe.entry_date = NEW.entry_date;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Same-event triggers fire in name order: this must run after the session date sync
+CREATE TRIGGER performance_entries_zz_assign_attempt
+  BEFORE INSERT ON public.performance_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_attempt_number();
+
+-- Rebuild the aggregation views around the metric's aggregation rule.
+-- Keep in sync with supabase/functions/_shared/aggregation.ts.
+DROP FUNCTION IF EXISTS public.get_best_daily_entries();
+DROP VIEW IF EXISTS public.latest_player_metrics;
+DROP VIEW IF EXISTS public.best_daily_entries;
+
+CREATE VIEW public.best_daily_entries
+WITH (security_invoker = true) AS
+WITH ranked AS (
+  SELECT
+    pe.*,
+    m.aggregation,
+    ROW_NUMBER() OVER (
+      PARTITION BY pe.player_id, pe.metric_type, pe.entry_date
+      ORDER BY
+        CASE WHEN m.direction = 'lower_is_better' THEN pe.value ELSE -pe.value END ASC,
+        pe.created_at ASC NULLS FIRST,
+        pe.id ASC
+    ) AS performance_rank,
+    ROW_NUMBER() OVER (
+      PARTITION BY pe.player_id, pe.metric_type, pe.entry_date
+      ORDER BY pe.attempt_number DESC, pe.created_at DESC NULLS LAST, pe.id DESC
+    ) AS recency_rank,
+    COUNT(*) OVER (
+      PARTITION BY pe.player_id, pe.metric_type, pe.entry_date
+    ) AS attempt_count
+  FROM public.performance_entries pe
+  JOIN public.metrics m ON m.key = pe.metric_type
+),
+best_two AS (
+  SELECT player_id, metric_type, entry_date, AVG(value) AS mean_value
+  FROM ranked
+  WHERE performance_rank <= 2
+  GROUP BY player_id, metric_type, entry_date
+)
+SELECT
+  r.id,
+  r.player_id,
+  r.metric_type,
+  CASE WHEN r.aggregation = 'mean_best_two' THEN bt.mean_value ELSE r.value END AS value,
+  r.unit,
+  r.entry_date,
+  r.created_at,
+  r.created_by,
+  r.attempt_number,
+  r.attempt_count::integer AS attempt_count
+FROM ranked r
+JOIN best_two bt
+  ON bt.player_id = r.player_id
+  AND bt.metric_type = r.metric_type
+  AND bt.entry_date = r.entry_date
+WHERE
+  (r.aggregation = 'last' AND r.recency_rank = 1)
+  OR (r.aggregation <> 'last' AND r.performance_rank = 1);
+
+CREATE VIEW public.latest_player_metrics
+WITH (security_invoker = true) AS
+SELECT DISTINCT ON (bde.player_id, bde.metric_type)
+  bde.*
+FROM public.best_daily_entries bde
+ORDER BY bde.player_id, bde.metric_type, bde.entry_date DESC;
+
+GRANT SELECT ON public.best_daily_entries TO authenticated;
+GRANT SELECT ON public.latest_player_metrics TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_best_daily_entries()
+RETURNS TABLE(
+  id uuid,
+  player_id uuid,
+  metric_type text,
+  value numeric,
+  unit text,
+  entry_date date,
+  created_at timestamp with time zone,
+  created_by uuid,
+  attempt_number smallint,
+  attempt_count integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    bde.id,
+    bde.player_id,
+    bde.metric_type,
+    bde.value,
+    bde.unit,
+    bde.entry_date,
+    bde.created_at,
+    bde.created_by,
+    bde.attempt_number,
+    bde.attempt_count
+  FROM best_daily_entries bde
+  -- Respect RLS: Players only see their own data, coaches/admins see all
+  WHERE (
+    bde.player_id = auth.uid()
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'coach'::app_role)
+  )
+  ORDER BY bde.entry_date DESC, bde.player_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_best_daily_entries() TO authenticated;
@@ -0,0 +1,114 @@
+-- Seasons and roster membership over time
+CREATE TABLE public.seasons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  is_current BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT seasons_date_range_check CHECK (ends_on >= starts_on)
+);
+
+-- At most one season is marked as current
+CREATE UNIQUE INDEX idx_seasons_single_current ON public.seasons(is_current) WHERE is_current;
+
+ALTER TABLE public.seasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view seasons"
+  ON public.seasons
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Coaches and admins can manage seasons"
+  ON public.seasons
+  FOR ALL
+  USING (
+    public.has_role(auth.uid(), 'coach'::app_role) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+-- Inactive members stay on the roster (e.g. injured) but are left out of team aggregates
+CREATE TYPE public.roster_status AS ENUM ('active', 'inactive');
+
+CREATE TABLE public.roster_memberships (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  joined_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  left_on DATE,
+  status roster_status NOT NULL DEFAULT 'active',
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT roster_memberships_date_range_check CHECK (left_on IS NULL OR left_on >= joined_on)
+);
+
+CREATE INDEX idx_roster_memberships_player_id ON public.roster_memberships(player_id);
+
+-- A player has at most one open membership
+CREATE UNIQUE INDEX idx_roster_memberships_open
+  ON public.roster_memberships(player_id)
+  WHERE left_on IS NULL;
+
+ALTER TABLE public.roster_memberships ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view roster memberships"
+  ON public.roster_memberships
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Coaches and admins can manage roster memberships"
+  ON public.roster_memberships
+  FOR ALL
+  USING (
+    public.has_role(auth.uid(), 'coach'::app_role) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+-- Existing players join the roster from their first recorded entry (or account creation)
+INSERT INTO public.roster_memberships (player_id, joined_on)
+SELECT
+  ur.user_id,
+  LEAST(
+    COALESCE((SELECT MIN(pe.entry_date) FROM public.performance_entries pe WHERE pe.player_id = ur.user_id), CURRENT_DATE),
+    COALESCE(p.created_at::date, CURRENT_DATE)
+  )
+FROM public.user_roles ur
+LEFT JOIN public.profiles p ON p.id = ur.user_id
+WHERE ur.role = 'player';
+
+-- Granting the player role opens a roster membership
+CREATE OR REPLACE FUNCTION public.handle_new_player_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.role = 'player' THEN
+    INSERT INTO roster_memberships (player_id)
+    SELECT NEW.user_id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM roster_memberships rm
+      WHERE rm.player_id = NEW.user_id AND rm.left_on IS NULL
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_player_role_granted
+  AFTER INSERT ON public.user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_player_role();
+
+-- Players currently on the roster and active
+CREATE VIEW public.active_roster
+WITH (security_invoker = true) AS
+SELECT rm.player_id, rm.joined_on
+FROM public.roster_memberships rm
+WHERE rm.status = 'active'
+  AND rm.joined_on <= CURRENT_DATE
+  AND (rm.left_on IS NULL OR rm.left_on >= CURRENT_DATE);
+
+GRANT SELECT ON public.active_roster TO authenticated;
@@ -0,0 +1,29 @@
+-- Multiple positions per player with one primary, and dated position history.
+-- A row is one spell: the player held the position from started_on through ended_on (inclusive).
+ALTER TABLE public.player_positions DROP CONSTRAINT IF EXISTS player_positions_player_id_key;
+
+ALTER TABLE public.player_positions
+  ADD COLUMN is_primary BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN started_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  ADD COLUMN ended_on DATE,
+  ADD CONSTRAINT player_positions_date_range_check CHECK (ended_on IS NULL OR ended_on >= started_on);
+
+-- Existing single positions become the primary position, held since the player's first entry
+UPDATE public.player_positions pp
+SET
+  is_primary = true,
+  started_on = LEAST(
+    COALESCE((SELECT MIN(pe.entry_date) FROM public.performance_entries pe WHERE pe.player_id = pp.player_id), CURRENT_DATE),
+    COALESCE(pp.created_at::date, CURRENT_DATE)
+  );
+
+-- A player holds each position at most once at a time, and has at most one current primary
+CREATE UNIQUE INDEX idx_player_positions_open_position
+  ON public.player_positions(player_id, position)
+  WHERE ended_on IS NULL;
+
+CREATE UNIQUE INDEX idx_player_positions_open_primary
+  ON public.player_positions(player_id)
+  WHERE ended_on IS NULL AND is_primary;
+
+COMMENT ON TABLE public.player_positions IS 'Position spells per player. Open rows (ended_on IS NULL) are the current positions; exactly one of them is primary.';
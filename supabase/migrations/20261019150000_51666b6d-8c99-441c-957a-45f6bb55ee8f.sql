@@ -0,0 +1,9 @@
+-- Fixed reference ranges for the reference_range normalization strategy.
+-- The better end of the range (by direction) scores 100, the other end 0.
+ALTER TABLE public.metrics
+  ADD COLUMN reference_min NUMERIC,
+  ADD COLUMN reference_max NUMERIC,
+  ADD CONSTRAINT metrics_reference_range_check CHECK (
+    (reference_min IS NULL AND reference_max IS NULL)
+    OR (reference_min IS NOT NULL AND reference_max IS NOT NULL AND reference_max > reference_min)
+  );
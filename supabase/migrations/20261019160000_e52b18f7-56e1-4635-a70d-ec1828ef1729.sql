@@ -0,0 +1,101 @@
+-- Performance goals per player and metric, e.g. "30yd dash under 4.2s by March"
+CREATE TABLE public.goals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  metric_type TEXT NOT NULL REFERENCES public.metrics(key) ON UPDATE CASCADE,
+  target_value NUMERIC NOT NULL CHECK (target_value > 0),
+  deadline DATE NOT NULL,
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  achieved_at TIMESTAMPTZ,
+  achieved_entry_id UUID REFERENCES public.performance_entries(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_goals_player_metric ON public.goals(player_id, metric_type);
+
+ALTER TABLE public.goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Players can view own goals"
+  ON public.goals
+  FOR SELECT
+  USING (auth.uid() = player_id);
+
+CREATE POLICY "Players can manage own goals"
+  ON public.goals
+  FOR ALL
+  USING (auth.uid() = player_id)
+  WITH CHECK (auth.uid() = player_id AND auth.uid() = created_by);
+
+CREATE POLICY "Coaches and admins can manage goals"
+  ON public.goals
+  FOR ALL
+  USING (
+    public.has_role(auth.uid(), 'coach'::app_role) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+-- A goal is achieved by the first daily result (under the metric's aggregation rule) that
+-- meets the target between the day the goal was set and its deadline.
+-- Achievement is permanent: later edits to the entry do not reopen the goal.
+CREATE OR REPLACE FUNCTION public.evaluate_goals(_player_id UUID, _metric_type TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  goal RECORD;
+  qualifying_entry UUID;
+BEGIN
+  FOR goal IN
+    SELECT g.id, g.target_value, g.deadline, g.created_at, m.direction
+    FROM goals g
+    JOIN metrics m ON m.key = g.metric_type
+    WHERE g.player_id = _player_id
+      AND g.metric_type = _metric_type
+      AND g.achieved_at IS NULL
+  LOOP
+    SELECT bde.id INTO qualifying_entry
+    FROM best_daily_entries bde
+    WHERE bde.player_id = _player_id
+      AND bde.metric_type = _metric_type
+      AND bde.entry_date BETWEEN goal.created_at::date AND goal.deadline
+      AND CASE
+        WHEN goal.direction = 'lower_is_better' THEN bde.value <= goal.target_value
+        ELSE bde.value >= goal.target_value
+      END
+    ORDER BY bde.entry_date ASC
+    LIMIT 1;
+
+    IF qualifying_entry IS NOT NULL THEN
+      UPDATE goals
+      SET achieved_at = NOW(), achieved_entry_id = qualifying_entry
+      WHERE id = goal.id;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.evaluate_goals_for_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM evaluate_goals(NEW.player_id, NEW.metric_type);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER performance_entries_evaluate_goals
+  AFTER INSERT OR UPDATE OF value, entry_date ON public.performance_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.evaluate_goals_for_entry();
+
+-- New or edited goals may already be met by today's results
+CREATE TRIGGER goals_evaluate_on_change
+  AFTER INSERT OR UPDATE OF target_value, deadline ON public.goals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.evaluate_goals_for_entry();
@@ -0,0 +1,79 @@
+-- Append-only record of who created, changed or deleted entries, roles, positions and profiles
+CREATE TABLE public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name TEXT NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE', 'PASSWORD_RESET')),
+  row_id TEXT,
+  -- No foreign keys: the trail has to outlive deleted users
+  actor_id UUID,
+  target_user_id UUID,
+  old_data JSONB,
+  new_data JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_audit_log_created_at ON public.audit_log(created_at DESC);
+CREATE INDEX idx_audit_log_actor ON public.audit_log(actor_id, created_at DESC);
+CREATE INDEX idx_audit_log_target ON public.audit_log(target_user_id, created_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger below and the service role; nobody can edit them
+CREATE POLICY "Admins can view audit log"
+  ON public.audit_log
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- TG_ARGV[0] names the column holding the user the row is about.
+-- Edge functions write through the service role, which has no auth.uid(); they pass the
+-- authenticated caller in the x-audit-actor request header instead. The header is only trusted
+-- for the service role, so signed-in users cannot attribute their changes to someone else.
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  row_data JSONB := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+  actor UUID := auth.uid();
+BEGIN
+  -- Updates that change nothing are noise
+  IF TG_OP = 'UPDATE' AND to_jsonb(NEW) = to_jsonb(OLD) THEN
+    RETURN NULL;
+  END IF;
+
+  IF actor IS NULL AND auth.role() = 'service_role' THEN
+    actor := NULLIF(NULLIF(current_setting('request.headers', true), '')::jsonb ->> 'x-audit-actor', '')::uuid;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, operation, row_id, actor_id, target_user_id, old_data, new_data)
+  VALUES (
+    TG_TABLE_NAME,
+    TG_OP,
+    row_data ->> 'id',
+    actor,
+    (row_data ->> TG_ARGV[0])::uuid,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER performance_entries_audit
+  AFTER INSERT OR UPDATE OR DELETE ON public.performance_entries
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('player_id');
+
+CREATE TRIGGER user_roles_audit
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('user_id');
+
+CREATE TRIGGER player_positions_audit
+  AFTER INSERT OR UPDATE OR DELETE ON public.player_positions
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('player_id');
+
+CREATE TRIGGER profiles_audit
+  AFTER INSERT OR UPDATE OR DELETE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('id');
@@ -0,0 +1,131 @@
+-- Soft delete for performance entries: deleted entries stay in the trash for 30 days and can be restored
+ALTER TABLE public.performance_entries
+  ADD COLUMN deleted_at TIMESTAMPTZ,
+  ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_performance_entries_deleted_at
+  ON public.performance_entries(deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- Keep in sync with TRASH_RETENTION_DAYS in src/lib/trashUtils.ts
+CREATE OR REPLACE FUNCTION public.trash_retention()
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$ SELECT INTERVAL '30 days' $$;
+
+-- Moving entries to and from the trash needs the same rights as deleting them did,
+-- and restoring is only possible within the retention window
+CREATE OR REPLACE FUNCTION public.check_entry_trash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+    AND auth.uid() IS NOT NULL
+    AND NOT (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'coach')) THEN
+    RAISE EXCEPTION 'Only coaches and admins can delete or restore entries';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    IF OLD.deleted_at < NOW() - trash_retention() THEN
+      RAISE EXCEPTION 'This entry was deleted more than % ago and can no longer be restored', trash_retention();
+    END IF;
+    NEW.deleted_by := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER performance_entries_check_trash
+  BEFORE UPDATE OF deleted_at ON public.performance_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_entry_trash();
+
+-- Restored results may meet a goal again
+DROP TRIGGER IF EXISTS performance_entries_evaluate_goals ON public.performance_entries;
+CREATE TRIGGER performance_entries_evaluate_goals
+  AFTER INSERT OR UPDATE OF value, entry_date, deleted_at ON public.performance_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.evaluate_goals_for_entry();
+
+-- Deleted entries take no part in daily results. Same columns as before, so dependent
+-- views (latest_player_metrics) and get_best_daily_entries keep working unchanged.
+-- Keep in sync with supabase/functions/_shared/aggregation.ts.
+CREATE OR REPLACE VIEW public.best_daily_entries
+WITH (security_invoker = true) AS
+WITH ranked AS (
+  SELECT
+    pe.*,
+    m.aggregation,
+    ROW_NUMBER() OVER (
+      PARTITION BY pe.player_id, pe.metric_type, pe.entry_date
+      ORDER BY
+        CASE WHEN m.direction = 'lower_is_better' THEN pe.value ELSE -pe.value END ASC,
+        pe.created_at ASC NULLS FIRST,
+        pe.id ASC
+    ) AS performance_rank,
+    ROW_NUMBER() OVER (
+      PARTITION BY pe.player_id, pe.metric_type, pe.entry_date
+      ORDER BY pe.attempt_number DESC, pe.created_at DESC NULLS LAST, pe.id DESC
+    ) AS recency_rank,
+    COUNT(*) OVER (
+      PARTITION BY pe.player_id, pe.metric_type, pe.entry_date
+    ) AS attempt_count
+  FROM public.performance_entries pe
+  JOIN public.metrics m ON m.key = pe.metric_type
+  WHERE pe.deleted_at IS NULL
+),
+best_two AS (
+  SELECT player_id, metric_type, entry_date, AVG(value) AS mean_value
+  FROM ranked
+  WHERE performance_rank <= 2
+  GROUP BY player_id, metric_type, entry_date
+)
+SELECT
+  r.id,
+  r.player_id,
+  r.metric_type,
+  CASE WHEN r.aggregation = 'mean_best_two' THEN bt.mean_value ELSE r.value END AS value,
+  r.unit,
+  r.entry_date,
+  r.created_at,
+  r.created_by,
+  r.attempt_number,
+  r.attempt_count::integer AS attempt_count
+FROM ranked r
+JOIN best_two bt
+  ON bt.player_id = r.player_id
+  AND bt.metric_type = r.metric_type
+  AND bt.entry_date = r.entry_date
+WHERE
+  (r.aggregation = 'last' AND r.recency_rank = 1)
+  OR (r.aggregation <> 'last' AND r.performance_rank = 1);
+
+-- Entries past the retention window are removed for good
+CREATE OR REPLACE FUNCTION public.purge_deleted_entries()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  DELETE FROM performance_entries
+  WHERE deleted_at < NOW() - trash_retention();
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_entries() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'purge-deleted-entries',
+  '0 3 * * *',
+  $$SELECT public.purge_deleted_entries()$$
+);
@@ -0,0 +1,94 @@
+-- Plausibility checks: per-metric plausible ranges and a personal-history check.
+-- Suspicious entries are flagged on insert or when their value changes, and stay flagged
+-- until a coach confirms them. Keep in sync with supabase/functions/_shared/plausibility.ts.
+ALTER TABLE public.metrics
+  ADD COLUMN plausible_min NUMERIC,
+  ADD COLUMN plausible_max NUMERIC,
+  ADD CONSTRAINT metrics_plausible_range_check
+    CHECK (plausible_min IS NULL OR plausible_max IS NULL OR plausible_max > plausible_min);
+
+UPDATE public.metrics SET plausible_min = 10, plausible_max = 120 WHERE key = 'vertical_jump';
+UPDATE public.metrics SET plausible_min = 10, plausible_max = 130 WHERE key = 'jump_gather';
+UPDATE public.metrics SET plausible_min = 3, plausible_max = 8 WHERE key = '30yd_dash';
+UPDATE public.metrics SET plausible_min = 5.5, plausible_max = 15 WHERE key = '3_cone_drill';
+UPDATE public.metrics SET plausible_min = 3.5, plausible_max = 10 WHERE key = 'shuttle_5_10_5';
+UPDATE public.metrics SET plausible_min = 1, plausible_max = 120 WHERE key = 'pushups_1min';
+
+ALTER TABLE public.performance_entries
+  ADD COLUMN flag_reason TEXT,
+  ADD COLUMN flagged_at TIMESTAMPTZ;
+
+CREATE INDEX idx_performance_entries_flagged
+  ON public.performance_entries(flagged_at)
+  WHERE flag_reason IS NOT NULL;
+
+-- Security definer so the history check sees every earlier result of the player,
+-- whoever records the new one
+CREATE OR REPLACE FUNCTION public.flag_implausible_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  m metrics%ROWTYPE;
+  history_count INTEGER;
+  history_mean NUMERIC;
+  history_sd NUMERIC;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.value IS NOT DISTINCT FROM OLD.value
+    AND NEW.metric_type IS NOT DISTINCT FROM OLD.metric_type
+    AND NEW.player_id IS NOT DISTINCT FROM OLD.player_id THEN
+    -- Clearing a flag is a review decision
+    IF (NEW.flag_reason IS DISTINCT FROM OLD.flag_reason OR NEW.flagged_at IS DISTINCT FROM OLD.flagged_at)
+      AND auth.uid() IS NOT NULL
+      AND NOT (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'coach')) THEN
+      RAISE EXCEPTION 'Only coaches and admins can review flagged entries';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  NEW.flag_reason := NULL;
+  SELECT * INTO m FROM metrics WHERE key = NEW.metric_type;
+
+  IF m.plausible_min IS NOT NULL AND NEW.value < m.plausible_min THEN
+    NEW.flag_reason := format('Below the plausible minimum of %s %s', m.plausible_min, m.unit);
+  ELSIF m.plausible_max IS NOT NULL AND NEW.value > m.plausible_max THEN
+    NEW.flag_reason := format('Above the plausible maximum of %s %s', m.plausible_max, m.unit);
+  ELSE
+    -- The player's 10 most recent unflagged results
+    SELECT COUNT(*), AVG(recent.value), STDDEV_POP(recent.value)
+    INTO history_count, history_mean, history_sd
+    FROM (
+      SELECT pe.value
+      FROM performance_entries pe
+      WHERE pe.player_id = NEW.player_id
+        AND pe.metric_type = NEW.metric_type
+        AND pe.id <> NEW.id
+        AND pe.deleted_at IS NULL
+        AND pe.flag_reason IS NULL
+      ORDER BY pe.entry_date DESC, pe.created_at DESC
+      LIMIT 10
+    ) recent;
+
+    IF history_count >= 5 AND history_sd > 0 AND ABS(NEW.value - history_mean) > 3 * history_sd THEN
+      NEW.flag_reason := format(
+        '%s SD from the player''s last %s results (average %s %s)',
+        ROUND(ABS(NEW.value - history_mean) / history_sd, 1),
+        history_count,
+        ROUND(history_mean, 2),
+        m.unit
+      );
+    END IF;
+  END IF;
+
+  NEW.flagged_at := CASE WHEN NEW.flag_reason IS NULL THEN NULL ELSE NOW() END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER performance_entries_flag_implausible
+  BEFORE INSERT OR UPDATE ON public.performance_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.flag_implausible_entry();
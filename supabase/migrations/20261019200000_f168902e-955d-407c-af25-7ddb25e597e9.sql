@@ -0,0 +1,197 @@
+-- Approval workflow: results players record themselves start out pending and only count
+-- once a coach approves them. Coaches can reject a result with a comment instead.
+CREATE TYPE public.entry_status AS ENUM ('pending', 'approved', 'rejected');
+
+-- Existing entries were all counted so far, so they start out approved
+ALTER TABLE public.performance_entries
+  ADD COLUMN status public.entry_status NOT NULL DEFAULT 'approved',
+  ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN reviewed_at TIMESTAMPTZ,
+  ADD COLUMN review_comment TEXT CHECK (char_length(review_comment) <= 500);
+
+CREATE INDEX idx_performance_entries_pending
+  ON public.performance_entries(created_at)
+  WHERE status = 'pending';
+
+-- Players' own entries are pending, as are their later edits to an entry's result.
+-- Only coaches and admins (or the service role) may change the review columns.
+CREATE OR REPLACE FUNCTION public.set_entry_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  is_staff BOOLEAN := auth.uid() IS NULL
+    OR has_role(auth.uid(), 'admin')
+    OR has_role(auth.uid(), 'coach');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT is_staff THEN
+      NEW.status := 'pending';
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+      NEW.review_comment := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT is_staff THEN
+    IF NEW.status IS DISTINCT FROM OLD.status
+      OR NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by
+      OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at
+      OR NEW.review_comment IS DISTINCT FROM OLD.review_comment THEN
+      RAISE EXCEPTION 'Only coaches and admins can review entries';
+    END IF;
+
+    IF NEW.value IS DISTINCT FROM OLD.value
+      OR NEW.entry_date IS DISTINCT FROM OLD.entry_date
+      OR NEW.metric_type IS DISTINCT FROM OLD.metric_type THEN
+      NEW.status := 'pending';
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+      NEW.review_comment := NULL;
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'pending' THEN
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+    ELSE
+      NEW.reviewed_by := COALESCE(auth.uid(), NEW.reviewed_by);
+      NEW.reviewed_at := NOW();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER performance_entries_set_status
+  BEFORE INSERT OR UPDATE ON public.performance_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_entry_status();
+
+-- An approved result may meet a goal
+DROP TRIGGER IF EXISTS performance_entries_evaluate_goals ON public.performance_entries;
+CREATE TRIGGER performance_entries_evaluate_goals
+  AFTER INSERT OR UPDATE OF value, entry_date, deleted_at, status ON public.performance_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.evaluate_goals_for_entry();
+
+-- Only approved results make up the history the plausibility check compares against
+CREATE OR REPLACE FUNCTION public.flag_implausible_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  m metrics%ROWTYPE;
+  history_count INTEGER;
+  history_mean NUMERIC;
+  history_sd NUMERIC;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.value IS NOT DISTINCT FROM OLD.value
+    AND NEW.metric_type IS NOT DISTINCT FROM OLD.metric_type
+    AND NEW.player_id IS NOT DISTINCT FROM OLD.player_id THEN
+    -- Clearing a flag is a review decision
+    IF (NEW.flag_reason IS DISTINCT FROM OLD.flag_reason OR NEW.flagged_at IS DISTINCT FROM OLD.flagged_at)
+      AND auth.uid() IS NOT NULL
+      AND NOT (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'coach')) THEN
+      RAISE EXCEPTION 'Only coaches and admins can review flagged entries';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  NEW.flag_reason := NULL;
+  SELECT * INTO m FROM metrics WHERE key = NEW.metric_type;
+
+  IF m.plausible_min IS NOT NULL AND NEW.value < m.plausible_min THEN
+    NEW.flag_reason := format('Below the plausible minimum of %s %s', m.plausible_min, m.unit);
+  ELSIF m.plausible_max IS NOT NULL AND NEW.value > m.plausible_max THEN
+    NEW.flag_reason := format('Above the plausible maximum of %s %s', m.plausible_max, m.unit);
+  ELSE
+    -- The player's 10 most recent unflagged results
+    SELECT COUNT(*), AVG(recent.value), STDDEV_POP(recent.value)
+    INTO history_count, history_mean, history_sd
+    FROM (
+      SELECT pe.value
+      FROM performance_entries pe
+      WHERE pe.player_id = NEW.player_id
+        AND pe.metric_type = NEW.metric_type
+        AND pe.id <> NEW.id
+        AND pe.deleted_at IS NULL
+        AND pe.flag_reason IS NULL
+        AND pe.status = 'approved'
+      ORDER BY pe.entry_date DESC, pe.created_at DESC
+      LIMIT 10
+    ) recent;
+
+    IF history_count >= 5 AND history_sd > 0 AND ABS(NEW.value - history_mean) > 3 * history_sd THEN
+      NEW.flag_reason := format(
+        '%s SD from the player''s last %s results (average %s %s)',
+        ROUND(ABS(NEW.value - history_mean) / history_sd, 1),
+        history_count,
+        ROUND(history_mean, 2),
+        m.unit
+      );
+    END IF;
+  END IF;
+
+  NEW.flagged_at := CASE WHEN NEW.flag_reason IS NULL THEN NULL ELSE NOW() END;
+  RETURN NEW;
+END;
+$$;
+
+-- Only approved entries take part in daily results (and so in goals and latest values).
+-- Keep in sync with supabase/functions/_shared/entries.ts.
+CREATE OR REPLACE VIEW public.best_daily_entries
+WITH (security_invoker = true) AS
+WITH ranked AS (
+  SELECT
+    pe.*,
+    m.aggregation,
+    ROW_NUMBER() OVER (
+      PARTITION BY pe.player_id, pe.metric_type, pe.entry_date
+      ORDER BY
+        CASE WHEN m.direction = 'lower_is_better' THEN pe.value ELSE -pe.value END ASC,
+        pe.created_at ASC NULLS FIRST,
+        pe.id ASC
+    ) AS performance_rank,
+    ROW_NUMBER() OVER (
+      PARTITION BY pe.player_id, pe.metric_type, pe.entry_date
+      ORDER BY pe.attempt_number DESC, pe.created_at DESC NULLS LAST, pe.id DESC
+    ) AS recency_rank,
+    COUNT(*) OVER (
+      PARTITION BY pe.player_id, pe.metric_type, pe.entry_date
+    ) AS attempt_count
+  FROM public.performance_entries pe
+  JOIN public.metrics m ON m.key = pe.metric_type
+  WHERE pe.deleted_at IS NULL
+    AND pe.status = 'approved'
+),
+best_two AS (
+  SELECT player_id, metric_type, entry_date, AVG(value) AS mean_value
+  FROM ranked
+  WHERE performance_rank <= 2
+  GROUP BY player_id, metric_type, entry_date
+)
+SELECT
+  r.id,
+  r.player_id,
+  r.metric_type,
+  CASE WHEN r.aggregation = 'mean_best_two' THEN bt.mean_value ELSE r.value END AS value,
+  r.unit,
+  r.entry_date,
+  r.created_at,
+  r.created_by,
+  r.attempt_number,
+  r.attempt_count::integer AS attempt_count
+FROM ranked r
+JOIN best_two bt
+  ON bt.player_id = r.player_id
+  AND bt.metric_type = r.metric_type
+  AND bt.entry_date = r.entry_date
+WHERE
+  (r.aggregation = 'last' AND r.recency_rank = 1)
+  OR (r.aggregation <> 'last' AND r.performance_rank = 1);
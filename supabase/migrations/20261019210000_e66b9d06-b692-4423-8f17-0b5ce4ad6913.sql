@@ -0,0 +1,26 @@
+-- Team-wide settings, kept in a single row
+CREATE TABLE public.team_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  -- When off, players only see their own rank on the leaderboard
+  leaderboard_show_names BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+INSERT INTO public.team_settings (id) VALUES (true);
+
+ALTER TABLE public.team_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view team settings"
+  ON public.team_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Coaches and admins can update team settings"
+  ON public.team_settings
+  FOR UPDATE
+  USING (
+    public.has_role(auth.uid(), 'coach'::app_role) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
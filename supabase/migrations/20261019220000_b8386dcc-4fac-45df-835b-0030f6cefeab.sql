@@ -0,0 +1,95 @@
+-- Body measurements and derived metrics.
+-- Derived metrics are never recorded: their values are calculated from a source metric's results and the
+-- player's body measurements when entries are read. Keep the formulas in sync with
+-- supabase/functions/_shared/derived.ts.
+CREATE TABLE public.body_measurements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  measured_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  height_cm NUMERIC CHECK (height_cm BETWEEN 100 AND 250),
+  weight_kg NUMERIC CHECK (weight_kg BETWEEN 30 AND 250),
+  wingspan_cm NUMERIC CHECK (wingspan_cm BETWEEN 100 AND 280),
+  notes TEXT CHECK (char_length(notes) <= 500),
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT body_measurements_any_value_check
+    CHECK (height_cm IS NOT NULL OR weight_kg IS NOT NULL OR wingspan_cm IS NOT NULL),
+  CONSTRAINT body_measurements_player_day_key UNIQUE (player_id, measured_on)
+);
+
+CREATE INDEX idx_body_measurements_player ON public.body_measurements(player_id, measured_on);
+
+ALTER TABLE public.body_measurements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Players can view own body measurements"
+  ON public.body_measurements
+  FOR SELECT
+  USING (auth.uid() = player_id);
+
+CREATE POLICY "Players can manage own body measurements"
+  ON public.body_measurements
+  FOR ALL
+  USING (auth.uid() = player_id)
+  WITH CHECK (auth.uid() = player_id);
+
+CREATE POLICY "Coaches and admins can manage body measurements"
+  ON public.body_measurements
+  FOR ALL
+  USING (
+    public.has_role(auth.uid(), 'coach'::app_role) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  )
+  WITH CHECK (
+    public.has_role(auth.uid(), 'coach'::app_role) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE TRIGGER body_measurements_audit
+  AFTER INSERT OR UPDATE OR DELETE ON public.body_measurements
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('player_id');
+
+-- Derived metrics
+CREATE TYPE public.metric_kind AS ENUM ('measured', 'derived');
+
+ALTER TABLE public.metrics
+  ADD COLUMN kind metric_kind NOT NULL DEFAULT 'measured',
+  ADD COLUMN source_metric TEXT REFERENCES public.metrics(key) ON UPDATE CASCADE,
+  -- sayers_power: peak power in W from jump height (cm) and body mass
+  -- per_body_weight: source value per kg of body mass
+  -- momentum: body mass × average speed over formula_param metres, from a sprint time in s
+  ADD COLUMN formula TEXT CHECK (formula IN ('sayers_power', 'per_body_weight', 'momentum')),
+  ADD COLUMN formula_param NUMERIC,
+  ADD CONSTRAINT metrics_derivation_check CHECK (
+    (kind = 'measured' AND source_metric IS NULL AND formula IS NULL) OR
+    (kind = 'derived' AND source_metric IS NOT NULL AND formula IS NOT NULL
+      AND (formula <> 'momentum' OR formula_param > 0))
+  );
+
+-- Derived values follow the source's attempt aggregation
+INSERT INTO public.metrics (key, label, unit, direction, aggregation, baseline_factor, input_step, display_order, kind, source_metric, formula, formula_param)
+SELECT v.key, v.label, v.unit, 'higher_is_better', m.aggregation, 0.5, 0.01, v.display_order, 'derived', m.key, v.formula, v.formula_param
+FROM (VALUES
+  ('vertical_jump_power', 'Vertical Jump Power', 'W', 110, 'vertical_jump', 'sayers_power', NULL::numeric),
+  ('pushups_per_kg', 'Push-Ups per kg', 'reps/kg', 120, 'pushups_1min', 'per_body_weight', NULL::numeric),
+  ('momentum_30yd', '30-Yard Momentum', 'kg·m/s', 130, '30yd_dash', 'momentum', 27.432)
+) AS v(key, label, unit, display_order, source, formula, formula_param)
+JOIN public.metrics m ON m.key = v.source;
+
+-- Results are recorded for the source metric only
+CREATE OR REPLACE FUNCTION public.reject_derived_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM metrics WHERE key = NEW.metric_type AND kind = 'derived') THEN
+    RAISE EXCEPTION 'Metric % is calculated from other results and cannot be recorded', NEW.metric_type;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER performance_entries_reject_derived
+  BEFORE INSERT OR UPDATE OF metric_type ON public.performance_entries
+  FOR EACH ROW EXECUTE FUNCTION public.reject_derived_entry();
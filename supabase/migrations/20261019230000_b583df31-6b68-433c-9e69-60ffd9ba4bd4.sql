@@ -0,0 +1,109 @@
+-- Composite metrics: weighted scores over other metrics, e.g. an agility or overall athleticism index.
+-- Like derived metrics they are never recorded; their values are calculated when entries are read.
+-- Keep the scoring in sync with supabase/functions/_shared/composites.ts.
+
+-- New enum values cannot be used in the transaction that adds them, so the type is recreated
+ALTER TABLE public.metrics DROP CONSTRAINT metrics_derivation_check;
+ALTER TABLE public.metrics ALTER COLUMN kind DROP DEFAULT;
+
+ALTER TYPE public.metric_kind RENAME TO metric_kind_old;
+CREATE TYPE public.metric_kind AS ENUM ('measured', 'derived', 'composite');
+
+ALTER TABLE public.metrics
+  ALTER COLUMN kind TYPE metric_kind USING kind::text::metric_kind,
+  ALTER COLUMN kind SET DEFAULT 'measured';
+
+DROP TYPE public.metric_kind_old;
+
+ALTER TABLE public.metrics
+  ADD CONSTRAINT metrics_derivation_check CHECK (
+    (kind IN ('measured', 'composite') AND source_metric IS NULL AND formula IS NULL) OR
+    (kind = 'derived' AND source_metric IS NOT NULL AND formula IS NOT NULL
+      AND (formula <> 'momentum' OR formula_param > 0))
+  );
+
+-- Components are scored on their reference range, so a composite score is 0-100 like the radar axes
+CREATE TABLE public.metric_components (
+  composite_key TEXT NOT NULL REFERENCES public.metrics(key) ON UPDATE CASCADE ON DELETE CASCADE,
+  component_key TEXT NOT NULL REFERENCES public.metrics(key) ON UPDATE CASCADE,
+  weight NUMERIC NOT NULL DEFAULT 1 CHECK (weight > 0),
+  PRIMARY KEY (composite_key, component_key),
+  CONSTRAINT metric_components_not_self_check CHECK (composite_key <> component_key)
+);
+
+ALTER TABLE public.metric_components ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view metric components"
+  ON public.metric_components
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Coaches and admins can manage metric components"
+  ON public.metric_components
+  FOR ALL
+  USING (
+    public.has_role(auth.uid(), 'coach'::app_role) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  )
+  WITH CHECK (
+    public.has_role(auth.uid(), 'coach'::app_role) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE OR REPLACE FUNCTION public.check_metric_component()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM metrics WHERE key = NEW.composite_key AND kind = 'composite') THEN
+    RAISE EXCEPTION 'Metric % is not a composite metric', NEW.composite_key;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM metrics
+    WHERE key = NEW.component_key
+      AND kind <> 'composite'
+      AND reference_min IS NOT NULL
+      AND reference_max IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Component % must be a measured or derived metric with a reference range', NEW.component_key;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER metric_components_check
+  BEFORE INSERT OR UPDATE ON public.metric_components
+  FOR EACH ROW EXECUTE FUNCTION public.check_metric_component();
+
+-- Results are recorded for measured metrics only
+CREATE OR REPLACE FUNCTION public.reject_derived_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM metrics WHERE key = NEW.metric_type AND kind <> 'measured') THEN
+    RAISE EXCEPTION 'Metric % is calculated from other results and cannot be recorded', NEW.metric_type;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Starting ranges for the agility drills so they can be combined
+UPDATE public.metrics SET reference_min = 6.5, reference_max = 9.0
+WHERE key = '3_cone_drill' AND reference_min IS NULL;
+
+UPDATE public.metrics SET reference_min = 4.0, reference_max = 6.0
+WHERE key = 'shuttle_5_10_5' AND reference_min IS NULL;
+
+INSERT INTO public.metrics (key, label, unit, direction, aggregation, baseline_factor, reference_min, reference_max, input_step, display_order, kind)
+VALUES ('agility_index', 'Agility Index', 'pts', 'higher_is_better', 'last', 0.5, 0, 100, 0.1, 200, 'composite');
+
+INSERT INTO public.metric_components (composite_key, component_key, weight) VALUES
+  ('agility_index', '3_cone_drill', 1),
+  ('agility_index', 'shuttle_5_10_5', 1);
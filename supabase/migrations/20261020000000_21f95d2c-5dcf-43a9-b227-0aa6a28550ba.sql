@@ -0,0 +1,56 @@
+-- Position metric profiles: how much each metric matters for a position, used for position fit scores
+CREATE TABLE public.position_metric_weights (
+  position TEXT NOT NULL CHECK (position IN ('QB', 'WR', 'C', 'DB', 'B')),
+  metric_key TEXT NOT NULL REFERENCES public.metrics(key) ON UPDATE CASCADE ON DELETE CASCADE,
+  weight NUMERIC NOT NULL CHECK (weight > 0 AND weight <= 10),
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (position, metric_key)
+);
+
+ALTER TABLE public.position_metric_weights ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view position metric weights"
+  ON public.position_metric_weights
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Coaches and admins can manage position metric weights"
+  ON public.position_metric_weights
+  FOR ALL
+  USING (
+    public.has_role(auth.uid(), 'coach'::app_role) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  )
+  WITH CHECK (
+    public.has_role(auth.uid(), 'coach'::app_role) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+-- Starting profiles; coaches tune them on the Position Fit page
+INSERT INTO public.position_metric_weights (position, metric_key, weight)
+SELECT v.position, v.metric_key, v.weight
+FROM (VALUES
+  ('QB', '30yd_dash', 1.0),
+  ('QB', '3_cone_drill', 2.0),
+  ('QB', 'shuttle_5_10_5', 2.0),
+  ('QB', 'vertical_jump', 0.5),
+  ('WR', '30yd_dash', 3.0),
+  ('WR', 'vertical_jump', 2.0),
+  ('WR', 'jump_gather', 2.0),
+  ('WR', '3_cone_drill', 1.5),
+  ('WR', 'shuttle_5_10_5', 1.5),
+  ('C', 'pushups_1min', 3.0),
+  ('C', 'shuttle_5_10_5', 1.5),
+  ('C', '30yd_dash', 1.0),
+  ('DB', '30yd_dash', 2.5),
+  ('DB', 'shuttle_5_10_5', 3.0),
+  ('DB', '3_cone_drill', 2.5),
+  ('DB', 'vertical_jump', 1.5),
+  ('B', '30yd_dash', 2.0),
+  ('B', 'shuttle_5_10_5', 2.0),
+  ('B', 'pushups_1min', 2.0),
+  ('B', 'vertical_jump', 1.0)
+) AS v(position, metric_key, weight)
+JOIN public.metrics m ON m.key = v.metric_key;
@@ -0,0 +1,83 @@
+-- Depth charts per season and position. Every save is a new version, so the versions are the history.
+CREATE TABLE public.depth_chart_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  season_id UUID NOT NULL REFERENCES public.seasons(id) ON DELETE CASCADE,
+  position TEXT NOT NULL CHECK (position IN ('QB', 'WR', 'C', 'DB', 'B')),
+  note TEXT CHECK (char_length(note) <= 500),
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_depth_chart_versions_lookup ON public.depth_chart_versions(season_id, position, created_at DESC);
+
+-- depth 1 is the starter, 2 the backup, 3 the third string
+CREATE TABLE public.depth_chart_slots (
+  version_id UUID NOT NULL REFERENCES public.depth_chart_versions(id) ON DELETE CASCADE,
+  depth INTEGER NOT NULL CHECK (depth BETWEEN 1 AND 3),
+  player_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  PRIMARY KEY (version_id, depth),
+  CONSTRAINT depth_chart_slots_player_key UNIQUE (version_id, player_id)
+);
+
+ALTER TABLE public.depth_chart_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.depth_chart_slots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view depth chart versions"
+  ON public.depth_chart_versions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can view depth chart slots"
+  ON public.depth_chart_slots
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- No update or delete policies: versions are immutable, changes are saved as a new version
+CREATE POLICY "Coaches and admins can insert depth chart versions"
+  ON public.depth_chart_versions
+  FOR INSERT
+  WITH CHECK (
+    public.has_role(auth.uid(), 'coach'::app_role) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Coaches and admins can insert depth chart slots"
+  ON public.depth_chart_slots
+  FOR INSERT
+  WITH CHECK (
+    public.has_role(auth.uid(), 'coach'::app_role) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+-- Saves a version and its slots in one transaction; _player_ids is ordered starter first.
+-- Runs with the caller's rights, so the insert policies above apply.
+CREATE OR REPLACE FUNCTION public.save_depth_chart(
+  _season_id UUID,
+  _position TEXT,
+  _player_ids UUID[],
+  _note TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  new_version_id UUID;
+BEGIN
+  IF coalesce(array_length(_player_ids, 1), 0) > 3 THEN
+    RAISE EXCEPTION 'A depth chart holds at most three players per position';
+  END IF;
+
+  INSERT INTO depth_chart_versions (season_id, position, note, created_by)
+  VALUES (_season_id, _position, nullif(trim(_note), ''), auth.uid())
+  RETURNING id INTO new_version_id;
+
+  INSERT INTO depth_chart_slots (version_id, depth, player_id)
+  SELECT new_version_id, slot.depth, slot.player_id
+  FROM unnest(_player_ids) WITH ORDINALITY AS slot(player_id, depth);
+
+  RETURN new_version_id;
+END;
+$$;
@@ -0,0 +1,57 @@
+-- Attempt numbers follow an entry when it moves to another day or player, and entries in
+-- the trash no longer hold on to their number
+DROP INDEX IF EXISTS public.idx_performance_entries_attempt;
+
+CREATE UNIQUE INDEX idx_performance_entries_attempt
+  ON public.performance_entries(player_id, metric_type, entry_date, attempt_number)
+  WHERE deleted_at IS NULL;
+
+-- Entries inserted without an attempt number become the next attempt of that day.
+-- Rows of a multi-row insert (or move) are numbered in statement order.
+-- An entry moved to another player, metric or day becomes the next attempt there; a restored
+-- entry keeps its number unless another attempt took it while it was in the trash.
+CREATE OR REPLACE FUNCTION public.assign_attempt_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.deleted_at IS NOT NULL THEN
+      RETURN NEW;
+    END IF;
+
+    IF (NEW.player_id, NEW.metric_type, NEW.entry_date) IS DISTINCT FROM (OLD.player_id, OLD.metric_type, OLD.entry_date)
+      OR (OLD.deleted_at IS NOT NULL AND EXISTS (
+        SELECT 1
+        FROM performance_entries pe
+        WHERE pe.player_id = NEW.player_id
+          AND pe.metric_type = NEW.metric_type
+          AND pe.entry_date = NEW.entry_date
+          AND pe.attempt_number = NEW.attempt_number
+          AND pe.deleted_at IS NULL
+          AND pe.id <> NEW.id
+      )) THEN
+      NEW.attempt_number := NULL;
+    END IF;
+  END IF;
+
+  IF NEW.attempt_number IS NULL THEN
+    SELECT COALESCE(MAX(pe.attempt_number), 0) + 1 INTO NEW.attempt_number
+    FROM performance_entries pe
+    WHERE pe.player_id = NEW.player_id
+      AND pe.metric_type = NEW.metric_type
+      AND pe.entry_date = NEW.entry_date
+      AND pe.deleted_at IS NULL
+      AND pe.id <> NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- session_id is listed because the session date sync changes entry_date without it being in the SET list.
+-- Same-event triggers fire in name order: this must run after the session date sync.
+CREATE TRIGGER performance_entries_zz_reassign_attempt
+  BEFORE UPDATE OF player_id, metric_type, entry_date, session_id, deleted_at ON public.performance_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_attempt_number();
@@ -0,0 +1,6 @@
+-- Sessions outlive the account that created them, so the user can be deleted
+ALTER TABLE public.test_sessions
+  ALTER COLUMN created_by DROP NOT NULL,
+  DROP CONSTRAINT test_sessions_created_by_fkey,
+  ADD CONSTRAINT test_sessions_created_by_fkey
+    FOREIGN KEY (created_by) REFERENCES auth.users(id) ON DELETE SET NULL;
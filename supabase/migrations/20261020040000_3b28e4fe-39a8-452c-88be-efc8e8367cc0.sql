@@ -0,0 +1,6 @@
+-- Goals outlive the account that set them, so a coach who set goals can be deleted
+ALTER TABLE public.goals
+  ALTER COLUMN created_by DROP NOT NULL,
+  DROP CONSTRAINT goals_created_by_fkey,
+  ADD CONSTRAINT goals_created_by_fkey
+    FOREIGN KEY (created_by) REFERENCES auth.users(id) ON DELETE SET NULL;
@@ -0,0 +1,6 @@
+-- Measurements outlive the account that recorded them, so the user can be deleted
+ALTER TABLE public.body_measurements
+  ALTER COLUMN created_by DROP NOT NULL,
+  DROP CONSTRAINT body_measurements_created_by_fkey,
+  ADD CONSTRAINT body_measurements_created_by_fkey
+    FOREIGN KEY (created_by) REFERENCES auth.users(id) ON DELETE SET NULL;
@@ -0,0 +1,5 @@
+-- Position profiles outlive the account that last tuned them, so the user can be deleted
+ALTER TABLE public.position_metric_weights
+  DROP CONSTRAINT position_metric_weights_updated_by_fkey,
+  ADD CONSTRAINT position_metric_weights_updated_by_fkey
+    FOREIGN KEY (updated_by) REFERENCES auth.users(id) ON DELETE SET NULL;
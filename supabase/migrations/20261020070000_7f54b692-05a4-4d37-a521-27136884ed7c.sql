@@ -0,0 +1,6 @@
+-- Depth chart versions outlive the account that saved them, so the user can be deleted
+ALTER TABLE public.depth_chart_versions
+  ALTER COLUMN created_by DROP NOT NULL,
+  DROP CONSTRAINT depth_chart_versions_created_by_fkey,
+  ADD CONSTRAINT depth_chart_versions_created_by_fkey
+    FOREIGN KEY (created_by) REFERENCES auth.users(id) ON DELETE SET NULL;
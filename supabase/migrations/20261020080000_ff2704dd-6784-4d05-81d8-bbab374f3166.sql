@@ -0,0 +1,43 @@
+-- Past depth charts are history: deleting a player empties their slots instead of removing them
+ALTER TABLE public.depth_chart_slots
+  ALTER COLUMN player_id DROP NOT NULL,
+  DROP CONSTRAINT depth_chart_slots_player_id_fkey,
+  ADD CONSTRAINT depth_chart_slots_player_id_fkey
+    FOREIGN KEY (player_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.save_depth_chart(
+  _season_id UUID,
+  _position TEXT,
+  _player_ids UUID[],
+  _note TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  new_version_id UUID;
+BEGIN
+  IF coalesce(array_length(_player_ids, 1), 0) > 3 THEN
+    RAISE EXCEPTION 'A depth chart holds at most three players per position';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(_player_ids) AS id WHERE id IS NULL) THEN
+    RAISE EXCEPTION 'Every depth chart slot needs a player';
+  END IF;
+
+  IF (SELECT count(DISTINCT id) FROM unnest(_player_ids) AS id) < array_length(_player_ids, 1) THEN
+    RAISE EXCEPTION 'A player can only hold one slot of a depth chart';
+  END IF;
+
+  INSERT INTO depth_chart_versions (season_id, position, note, created_by)
+  VALUES (_season_id, _position, nullif(trim(_note), ''), auth.uid())
+  RETURNING id INTO new_version_id;
+
+  INSERT INTO depth_chart_slots (version_id, depth, player_id)
+  SELECT new_version_id, slot.depth, slot.player_id
+  FROM unnest(_player_ids) WITH ORDINALITY AS slot(player_id, depth);
+
+  RETURN new_version_id;
+END;
+$$;
@@ -0,0 +1,81 @@
+-- The best_daily_entries view must agree with supabase/functions/_shared/aggregation.ts.
+-- The fixture between the $fixture$ markers is also run through the TypeScript library by
+-- supabase/functions/_shared/aggregation.test.ts; change both sides together.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(1);
+
+CREATE TEMP TABLE fixture ON COMMIT DROP AS
+SELECT $fixture$
+{
+  "player_id": "00000000-0000-4000-8000-00000000f001",
+  "metrics": [
+    { "key": "fixture_best_high", "direction": "higher_is_better", "aggregation": "best" },
+    { "key": "fixture_best_low", "direction": "lower_is_better", "aggregation": "best" },
+    { "key": "fixture_mean_two", "direction": "higher_is_better", "aggregation": "mean_best_two" },
+    { "key": "fixture_last", "direction": "higher_is_better", "aggregation": "last" }
+  ],
+  "entries": [
+    { "id": "00000000-0000-4000-8000-000000000001", "metric_type": "fixture_best_high", "entry_date": "2026-01-05", "attempt_number": 1, "value": 10, "created_at": "2026-01-05T09:00:00Z" },
+    { "id": "00000000-0000-4000-8000-000000000003", "metric_type": "fixture_best_high", "entry_date": "2026-01-05", "attempt_number": 2, "value": 12, "created_at": "2026-01-05T09:05:00Z" },
+    { "id": "00000000-0000-4000-8000-000000000002", "metric_type": "fixture_best_high", "entry_date": "2026-01-05", "attempt_number": 3, "value": 12, "created_at": "2026-01-05T09:10:00Z" },
+    { "id": "00000000-0000-4000-8000-000000000005", "metric_type": "fixture_best_high", "entry_date": "2026-01-06", "attempt_number": 1, "value": 8, "created_at": "2026-01-06T09:00:00Z" },
+    { "id": "00000000-0000-4000-8000-000000000004", "metric_type": "fixture_best_high", "entry_date": "2026-01-06", "attempt_number": 2, "value": 8, "created_at": "2026-01-06T09:00:00Z" },
+    { "id": "00000000-0000-4000-8000-000000000011", "metric_type": "fixture_best_low", "entry_date": "2026-01-05", "attempt_number": 1, "value": 4.9, "created_at": "2026-01-05T09:00:00Z" },
+    { "id": "00000000-0000-4000-8000-000000000012", "metric_type": "fixture_best_low", "entry_date": "2026-01-05", "attempt_number": 2, "value": 4.7, "created_at": "2026-01-05T09:05:00Z" },
+    { "id": "00000000-0000-4000-8000-000000000013", "metric_type": "fixture_best_low", "entry_date": "2026-01-05", "attempt_number": 3, "value": 4.8, "created_at": "2026-01-05T09:10:00Z" },
+    { "id": "00000000-0000-4000-8000-000000000021", "metric_type": "fixture_mean_two", "entry_date": "2026-01-05", "attempt_number": 1, "value": 20, "created_at": "2026-01-05T09:00:00Z" },
+    { "id": "00000000-0000-4000-8000-000000000022", "metric_type": "fixture_mean_two", "entry_date": "2026-01-06", "attempt_number": 1, "value": 20, "created_at": "2026-01-06T09:00:00Z" },
+    { "id": "00000000-0000-4000-8000-000000000023", "metric_type": "fixture_mean_two", "entry_date": "2026-01-06", "attempt_number": 2, "value": 24, "created_at": "2026-01-06T09:05:00Z" },
+    { "id": "00000000-0000-4000-8000-000000000024", "metric_type": "fixture_mean_two", "entry_date": "2026-01-06", "attempt_number": 3, "value": 22, "created_at": "2026-01-06T09:10:00Z" },
+    { "id": "00000000-0000-4000-8000-000000000031", "metric_type": "fixture_last", "entry_date": "2026-01-05", "attempt_number": 1, "value": 30, "created_at": "2026-01-05T09:00:00Z" },
+    { "id": "00000000-0000-4000-8000-000000000032", "metric_type": "fixture_last", "entry_date": "2026-01-05", "attempt_number": 2, "value": 25, "created_at": "2026-01-05T09:05:00Z" },
+    { "id": "00000000-0000-4000-8000-000000000033", "metric_type": "fixture_last", "entry_date": "2026-01-06", "attempt_number": 1, "value": 28, "created_at": "2026-01-06T10:00:00Z" },
+    { "id": "00000000-0000-4000-8000-000000000034", "metric_type": "fixture_last", "entry_date": "2026-01-06", "attempt_number": 2, "value": 26, "created_at": "2026-01-06T09:00:00Z" }
+  ],
+  "expected": [
+    { "metric_type": "fixture_best_high", "entry_date": "2026-01-05", "id": "00000000-0000-4000-8000-000000000003", "value": 12 },
+    { "metric_type": "fixture_best_high", "entry_date": "2026-01-06", "id": "00000000-0000-4000-8000-000000000004", "value": 8 },
+    { "metric_type": "fixture_best_low", "entry_date": "2026-01-05", "id": "00000000-0000-4000-8000-000000000012", "value": 4.7 },
+    { "metric_type": "fixture_last", "entry_date": "2026-01-05", "id": "00000000-0000-4000-8000-000000000032", "value": 25 },
+    { "metric_type": "fixture_last", "entry_date": "2026-01-06", "id": "00000000-0000-4000-8000-000000000034", "value": 26 },
+    { "metric_type": "fixture_mean_two", "entry_date": "2026-01-05", "id": "00000000-0000-4000-8000-000000000021", "value": 20 },
+    { "metric_type": "fixture_mean_two", "entry_date": "2026-01-06", "id": "00000000-0000-4000-8000-000000000023", "value": 23 }
+  ]
+}
+$fixture$::jsonb AS data;
+
+INSERT INTO auth.users (id, email)
+SELECT (data->>'player_id')::uuid, 'aggregation-fixture@example.test'
+FROM fixture;
+
+INSERT INTO public.metrics (key, label, unit, direction, aggregation, baseline_factor)
+SELECT m.key, m.key, 'u', m.direction, m.aggregation,
+  CASE WHEN m.direction = 'lower_is_better' THEN 1.4 ELSE 0.5 END
+FROM fixture, jsonb_to_recordset(data->'metrics') AS m(key text, direction metric_direction, aggregation metric_aggregation);
+
+INSERT INTO public.performance_entries (id, player_id, metric_type, entry_date, attempt_number, value, unit, created_at, created_by)
+SELECT e.id, (data->>'player_id')::uuid, e.metric_type, e.entry_date, e.attempt_number, e.value, 'u', e.created_at, (data->>'player_id')::uuid
+FROM fixture, jsonb_to_recordset(data->'entries')
+  AS e(id uuid, metric_type text, entry_date date, attempt_number smallint, value numeric, created_at timestamptz);
+
+SELECT results_eq(
+  $$
+    SELECT bde.metric_type, bde.entry_date, bde.id, ROUND(bde.value, 4)
+    FROM public.best_daily_entries bde, fixture
+    WHERE bde.player_id = (fixture.data->>'player_id')::uuid
+    ORDER BY bde.metric_type, bde.entry_date
+  $$,
+  $$
+    SELECT x.metric_type, x.entry_date, x.id, ROUND(x.value, 4)
+    FROM fixture, jsonb_to_recordset(data->'expected')
+      AS x(metric_type text, entry_date date, id uuid, value numeric)
+    ORDER BY x.metric_type, x.entry_date
+  $$,
+  'best_daily_entries matches the TypeScript aggregation on the shared fixture'
+);
+
+SELECT * FROM finish();
+ROLLBACK;